@@ -0,0 +1,297 @@
+import { PgVector } from "@mastra/pg";
+import pg from "pg";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { EmbeddingModelMismatchError } from "../../mastra/embeddings";
+import { ContentProcessor } from "../content-processor";
+
+type StoredVector = { id: string; metadata: Record<string, unknown> };
+
+describe("ContentProcessor", () => {
+	let stored: Map<string, StoredVector>;
+	// Rows of other indexes, i.e. the record of each index's embedding model
+	let records: Map<string, StoredVector>;
+	let processor: ContentProcessor;
+
+	beforeEach(() => {
+		stored = new Map();
+		records = new Map();
+		const rows = (indexName: string) =>
+			indexName === "docs" ? stored : records;
+		vi.restoreAllMocks();
+		vi.spyOn(PgVector.prototype, "createIndex").mockResolvedValue();
+		vi.spyOn(PgVector.prototype, "query").mockImplementation(
+			async (...args: unknown[]) => {
+				const { indexName, filter } = args[0] as {
+					indexName: string;
+					filter: Record<string, unknown>;
+				};
+				return [...rows(indexName).values()]
+					.filter(({ metadata }) =>
+						Object.entries(filter).every(
+							([key, value]) => metadata[key] === value,
+						),
+					)
+					.map(({ id, metadata }) => ({ id, metadata, score: 0 }));
+			},
+		);
+		// Stored chunks are listed with SQL: pages of ids after $1, of at most $2
+		// rows, whose metadata fields equal the remaining parameters
+		vi.spyOn(pg.Pool.prototype, "query").mockImplementation((async (
+			sql: string,
+			[after, limit, ...values]: unknown[] = [],
+		) => {
+			if (!sql.startsWith("SELECT")) {
+				return { rows: [] };
+			}
+			const conditions = [...sql.matchAll(/metadata->>'(\w+)' = \$(\d+)/g)];
+			const rows = [...stored.values()]
+				.filter(
+					({ id, metadata }) =>
+						id > String(after) &&
+						conditions.every(
+							([, field, param]) =>
+								String(metadata[field]) === values[Number(param) - 3],
+						),
+				)
+				.sort((a, b) => (a.id < b.id ? -1 : 1))
+				.slice(0, Number(limit));
+			return { rows };
+		}) as never);
+		vi.spyOn(PgVector.prototype, "upsert").mockImplementation(
+			async (...args: unknown[]) => {
+				const {
+					indexName,
+					ids = [],
+					metadata = [],
+				} = args[0] as {
+					indexName: string;
+					ids?: string[];
+					metadata?: Record<string, unknown>[];
+				};
+				ids.forEach((id, i) =>
+					rows(indexName).set(id, { id, metadata: metadata[i] }),
+				);
+				return ids;
+			},
+		);
+		vi.spyOn(PgVector.prototype, "describeIndex").mockRejectedValue(
+			new Error("not found"),
+		);
+		vi.spyOn(PgVector.prototype, "deleteIndexById").mockImplementation(
+			async (_indexName, id) => {
+				stored.delete(id);
+			},
+		);
+		vi.spyOn(PgVector.prototype, "updateIndexById").mockImplementation(
+			async (_indexName, id, { metadata = {} }) => {
+				stored.set(id, { id, metadata });
+			},
+		);
+		processor = new ContentProcessor("postgresql://localhost/test", "docs", {
+			embeddingModel: "local:hashing-3",
+			chunkSize: 60,
+			chunkOverlap: 10,
+		});
+	});
+
+	const items = (...contents: string[]) =>
+		contents.map((content) => ({ content, metadata: { text: content } }));
+
+	it("only embeds chunks it hasn't stored, and removes chunks that are gone", async () => {
+		const first = await processor.processAndEmbedBatch(
+			items("alpha", "beta", "beta"),
+			"https://example.com/a.sol",
+		);
+		expect(first).toEqual({
+			source: "https://example.com/a.sol",
+			added: 2,
+			unchanged: 0,
+			removed: 0,
+		});
+		const ids = [...stored.keys()];
+
+		const second = await processor.processAndEmbedBatch(
+			items("alpha", "gamma"),
+			"https://example.com/a.sol",
+		);
+		expect(second).toMatchObject({ added: 1, unchanged: 1, removed: 1 });
+		expect(stored.has(ids[0])).toBe(true);
+		expect(stored.has(ids[1])).toBe(false);
+		expect(PgVector.prototype.upsert).toHaveBeenLastCalledWith(
+			expect.objectContaining({
+				metadata: [expect.objectContaining({ text: "gamma" })],
+			}),
+		);
+	});
+
+	it("lists every stored chunk of a large source", async () => {
+		const lines = Array.from({ length: 1_005 }, (_, i) => `line ${i}`);
+		await processor.processAndEmbedBatch(items(...lines), "big");
+
+		const again = await processor.processAndEmbedBatch(
+			items(...lines.slice(5)),
+			"big",
+		);
+
+		expect(again).toMatchObject({ added: 0, unchanged: 1_000, removed: 5 });
+		// One page for the empty first run, two for the 1,005 stored chunks
+		const listings = vi
+			.mocked(pg.Pool.prototype.query)
+			.mock.calls.filter(([sql]) => String(sql).startsWith("SELECT"));
+		expect(listings).toHaveLength(3);
+	});
+
+	it("removes the sources that are no longer ingested", async () => {
+		const file = (name: string) => ({
+			content: name,
+			metadata: { text: name, sourceType: "github-code" },
+		});
+		await processor.processAndEmbedBatch([file("a.sol")], "a.sol");
+		await processor.processAndEmbedBatch([file("b.sol")], "b.sol");
+		await processor.processAndEmbedBatch(items("gitbook page"), "docs");
+
+		const removed = await processor.removeOtherSources(["a.sol"], {
+			sourceType: "github-code",
+		});
+
+		expect(removed).toEqual([
+			{ source: "b.sol", added: 0, unchanged: 0, removed: 1 },
+		]);
+		expect([...stored.values()].map(({ metadata }) => metadata.source)).toEqual(
+			["a.sol", "docs"],
+		);
+	});
+
+	it("keeps each source's chunks apart", async () => {
+		await processor.processAndEmbedBatch(items("alpha"), "a");
+		const other = await processor.processAndEmbedBatch(items("alpha"), "b");
+
+		expect(other).toMatchObject({ added: 1, unchanged: 0, removed: 0 });
+		expect([...stored.values()].map(({ metadata }) => metadata.source)).toEqual(
+			["a", "b"],
+		);
+	});
+
+	it("re-embeds a chunk whose metadata changed", async () => {
+		await processor.processAndEmbedBatch(
+			[{ content: "alpha", metadata: { title: "Old" } }],
+			"a",
+		);
+		const renamed = await processor.processAndEmbedBatch(
+			[{ content: "alpha", metadata: { title: "New" } }],
+			"a",
+		);
+
+		expect(renamed).toMatchObject({ added: 1, unchanged: 0, removed: 1 });
+		expect([...stored.values()][0].metadata.title).toBe("New");
+	});
+
+	it("gives each chunk its document's metadata and heading path", async () => {
+		const page = (url: string, title: string, content: string) => ({
+			content,
+			metadata: { url, title, sourceType: "gitbook" },
+		});
+		await processor.processAndStoreDocuments(
+			[
+				page(
+					"https://docs.example.com/rounds",
+					"Rounds",
+					"# Rounds\n\n## Funding\n\nMatching funds are split by quadratic funding.",
+				),
+				page("https://docs.example.com/faq", "FAQ", "Ask in the forum."),
+			],
+			"markdown",
+			"https://docs.example.com",
+		);
+
+		const chunks = [...stored.values()].map(({ metadata }) => metadata);
+		expect(chunks).toContainEqual(
+			expect.objectContaining({
+				text: expect.stringContaining("quadratic funding"),
+				url: "https://docs.example.com/rounds",
+				title: "Rounds",
+				headingPath: "Rounds > Funding",
+				sourceType: "gitbook",
+				source: "https://docs.example.com",
+				ingestedAt: expect.any(String),
+			}),
+		);
+		expect(chunks).toContainEqual(
+			expect.objectContaining({
+				text: "Ask in the forum.",
+				url: "https://docs.example.com/faq",
+				headingPath: "",
+				chunkIndex: 0,
+			}),
+		);
+	});
+
+	it("keeps the vector and ingestion time of a chunk that only moved", async () => {
+		await processor.processAndStore("Ask in the forum.", "text", "faq");
+		const [{ id, metadata }] = [...stored.values()];
+
+		const moved = await processor.processAndStoreDocuments(
+			[{ content: "A new first answer." }, { content: "Ask in the forum." }],
+			"text",
+			"faq",
+		);
+
+		expect(moved).toMatchObject({ added: 1, unchanged: 1, removed: 0 });
+		expect(stored.get(id)?.metadata).toMatchObject({
+			chunkIndex: 0,
+			ingestedAt: metadata.ingestedAt,
+		});
+	});
+
+	it("updates only the metadata of a chunk whose position changed", async () => {
+		await processor.processAndEmbedBatch(
+			[{ content: "alpha", metadata: { text: "alpha", chunkIndex: 0 } }],
+			"a",
+		);
+		const [{ id, metadata }] = [...stored.values()];
+		vi.mocked(PgVector.prototype.upsert).mockClear();
+
+		const moved = await processor.processAndEmbedBatch(
+			[{ content: "alpha", metadata: { text: "alpha", chunkIndex: 1 } }],
+			"a",
+		);
+
+		expect(moved).toMatchObject({ added: 0, unchanged: 1, removed: 0 });
+		expect(PgVector.prototype.updateIndexById).toHaveBeenCalledWith(
+			"docs",
+			id,
+			{
+				metadata: expect.objectContaining({
+					chunkIndex: 1,
+					ingestedAt: metadata.ingestedAt,
+				}),
+			},
+		);
+		expect(PgVector.prototype.upsert).not.toHaveBeenCalled();
+	});
+
+	it("builds the full-text index with the vector index", async () => {
+		await processor.processAndStore("alpha", "text", "a");
+
+		expect(pg.Pool.prototype.query).toHaveBeenCalledWith(
+			expect.stringMatching(
+				/^CREATE INDEX IF NOT EXISTS docs_english_text_idx ON docs USING gin/,
+			),
+		);
+	});
+
+	it("refuses an index built with another embedding model", async () => {
+		await processor.processAndStore("alpha", "text", "a");
+		expect(records.get("docs")?.metadata).toMatchObject({
+			model: "local:hashing-3",
+			dimension: 3,
+		});
+
+		const other = new ContentProcessor("postgresql://localhost/test", "docs", {
+			embeddingModel: "local:hashing-8",
+		});
+		await expect(other.processAndStore("alpha", "text", "a")).rejects.toThrow(
+			EmbeddingModelMismatchError,
+		);
+	});
+});
@@ -1,7 +1,21 @@
-import { openai } from "@ai-sdk/openai";
+import { createHash } from "node:crypto";
 import { PgVector } from "@mastra/pg";
 import { MDocument } from "@mastra/rag";
-import { embed, embedMany } from "ai";
+import type pg from "pg";
+import {
+	type EmbeddingProvider,
+	checkIndexModel,
+	createEmbeddingProvider,
+	getEmbeddingProvider,
+} from "../mastra/embeddings";
+import {
+	type MetadataFilter,
+	SQL_IDENTIFIER,
+	createTextIndex,
+	getPool,
+	toSqlConditions,
+} from "../mastra/retrieval";
+import { reportEmbeddingUsage } from "../mastra/usage";
 import { logger } from "./utils";
 
 /**
@@ -13,14 +27,101 @@ interface ProcessorStatus {
 	startTime?: number;
 	chunksGenerated?: number;
 	chunksStored?: number;
+	chunksUnchanged?: number;
+	chunksRemoved?: number;
 }
 
 /**
- * Chunk data structure with document metadata
+ * What a run changed in the vector store for one source
+ */
+export interface SyncSummary {
+	source: string;
+	added: number;
+	unchanged: number;
+	removed: number;
+}
+
+/**
+ * A chunk ready to be stored, with its stable id
  */
 interface ChunkData {
+	id: string;
 	text: string;
-	id?: string;
+	metadata: Record<string, unknown>;
+}
+
+// Stored chunks read per query when listing what is already stored
+const STORED_CHUNKS_PAGE_SIZE = 1_000;
+
+// Chunk metadata that changes without the chunk changing, left out of its hash
+const VOLATILE_METADATA = ["chunkIndex", "ingestedAt"];
+
+/**
+ * Hashes a chunk's text together with its metadata, so either changing re-embeds it
+ */
+function hashContent(text: string, metadata: Record<string, unknown>): string {
+	const stable = Object.fromEntries(
+		Object.entries(metadata).filter(
+			([key]) => !VOLATILE_METADATA.includes(key),
+		),
+	);
+	return createHash("sha256")
+		.update(text)
+		.update("\0")
+		.update(JSON.stringify(stable))
+		.digest("hex");
+}
+
+/**
+ * Heading path of each markdown line: the titles of the headings the line sits under
+ */
+function headingPaths(markdown: string): { offset: number; path: string[] }[] {
+	const lines: { offset: number; path: string[] }[] = [];
+	let path: string[] = [];
+	let offset = 0;
+	for (const line of markdown.split("\n")) {
+		const heading = line.match(/^(#{1,6})\s+(.+?)\s*(\{#[^}]*\})?$/);
+		if (heading) {
+			path = [...path.slice(0, heading[1].length - 1), heading[2]];
+		}
+		lines.push({ offset, path });
+		offset += line.length + 1;
+	}
+	return lines;
+}
+
+/**
+ * Stable vector id of a chunk: the same source and content always get the same id
+ */
+function chunkId(source: string, contentHash: string): string {
+	return `${source}#${contentHash.slice(0, 16)}`;
+}
+
+/**
+ * Renders a sync summary for logs
+ */
+export function formatSyncSummary(summary: SyncSummary): string {
+	return `${summary.source}: ${summary.added} added, ${summary.unchanged} unchanged, ${summary.removed} removed`;
+}
+
+/**
+ * Metadata describing a whole document. Other keys are copied to every chunk.
+ */
+export interface DocumentMetadata {
+	/** Where the document can be read, e.g. a page URL */
+	url?: string;
+	title?: string;
+	/** Kind of source, e.g. "gitbook" or "contract" */
+	sourceType?: string;
+	[key: string]: unknown;
+}
+
+/**
+ * A document to split into chunks, with its metadata
+ */
+export interface ProcessableDocument {
+	content: string;
+	metadata?: DocumentMetadata;
 }
 
 /**
@@ -35,11 +136,15 @@ export interface ProcessableItem {
  * Processes content: splits into chunks, generates embeddings, and stores in a PostgreSQL database using Mastra.
  */
 export class ContentProcessor {
-	private embeddingModel: string;
+	private embedder: EmbeddingProvider;
 	private pgVector: PgVector;
+	private pool: pg.Pool;
+	private pgConnectionString: string;
 	private indexName: string;
+	private ready: Promise<void>;
 	private chunkSize: number;
 	private chunkOverlap: number;
+	private textSearchConfig?: string;
 	private status: ProcessorStatus;
 
 	/**
@@ -54,8 +159,10 @@ export class ContentProcessor {
 		options: {
 			chunkSize?: number;
 			chunkOverlap?: number;
+			/** Embedding model as "provider:model", defaults to the registry's embedder */
 			embeddingModel?: string;
-			dimension?: number;
+			/** Text search configuration the index's keyword search uses, defaults to english */
+			textSearchConfig?: string;
 		} = {},
 	) {
 		if (!pgConnectionString)
@@ -64,18 +171,29 @@ export class ContentProcessor {
 
 		// Initialize the PgVector store
 		this.pgVector = new PgVector(pgConnectionString);
+		this.pool = getPool(pgConnectionString);
+		this.pgConnectionString = pgConnectionString;
+		this.textSearchConfig = options.textSearchConfig;
 		this.indexName = indexName;
 		this.chunkSize = options.chunkSize || 1000;
 		this.chunkOverlap = options.chunkOverlap || 200;
-		this.embeddingModel = options.embeddingModel || "text-embedding-3-small";
+		this.embedder = options.embeddingModel
+			? createEmbeddingProvider(options.embeddingModel)
+			: getEmbeddingProvider();
 		this.status = {
 			status: "idle",
 			chunksGenerated: 0,
 			chunksStored: 0,
 		};
 
-		// Create the index if it doesn't exist
-		this.initializeIndex(options.dimension || 1536);
+		// Create the index if it doesn't exist, and make sure it was built with the same model
+		this.ready = this.initializeIndex(this.embedder.dimension).then(() =>
+			checkIndexModel(this.pgVector, this.indexName, this.embedder, {
+				record: true,
+			}),
+		);
+		// Failures surface where ready is awaited
+		this.ready.catch(() => {});
 
 		if (this.chunkOverlap >= this.chunkSize) {
 			logger.warn(
@@ -86,7 +204,8 @@ export class ContentProcessor {
 	}
 
 	/**
-	 * Initialize the vector index if it doesn't already exist
+	 * Initialize the vector index, and the full-text index its keyword search
+	 * uses, if they don't already exist
 	 * @param dimension The dimension size for the embedding vectors
 	 */
 	private async initializeIndex(dimension: number): Promise<void> {
@@ -109,110 +228,89 @@ export class ContentProcessor {
 				throw e;
 			}
 		}
+
+		try {
+			await createTextIndex(
+				this.pgConnectionString,
+				this.indexName,
+				this.textSearchConfig,
+			);
+		} catch (e) {
+			// Keyword search still works without it, just slower
+			const errorMsg = e instanceof Error ? e.message : String(e);
+			logger.warn(`Failed to create the full-text index: ${errorMsg}`);
+		}
 	}
 
 	/**
-	 * Processes the content and stores it in the database.
+	 * Processes the content and stores it in the database. Chunks already stored
+	 * for the source are skipped, and stored chunks the content no longer has are removed.
 	 * @param content The content to process.
 	 * @param contentType The type of content ('text', 'html', 'markdown', or 'json')
+	 * @param source Identifier of where the content came from, e.g. its URL
+	 * @param metadata Metadata of the document, added to each chunk
+	 * @returns What the run added, kept and removed for the source
 	 */
 	public async processAndStore(
 		content: string,
-		contentType: "text" | "html" | "markdown" | "json" = "text",
-	): Promise<void> {
-		if (!content || !content.trim()) {
+		contentType: "text" | "html" | "markdown" | "json",
+		source: string,
+		metadata: DocumentMetadata = {},
+	): Promise<SyncSummary> {
+		return this.processAndStoreDocuments(
+			[{ content, metadata }],
+			contentType,
+			source,
+		);
+	}
+
+	/**
+	 * Processes several documents of one source, e.g. the pages of a book, and
+	 * stores their chunks. Each chunk carries its document's metadata plus its
+	 * heading path, position and ingestion time.
+	 * @param documents The documents to process, with their metadata
+	 * @param contentType The type of content ('text', 'html', 'markdown', or 'json')
+	 * @param source Identifier of where the documents came from; chunks of the source missing from them are removed
+	 * @returns What the run added, kept and removed for the source
+	 */
+	public async processAndStoreDocuments(
+		documents: ProcessableDocument[],
+		contentType: "text" | "html" | "markdown" | "json",
+		source: string,
+	): Promise<SyncSummary> {
+		const nonEmpty = documents.filter(({ content }) => content?.trim());
+		if (nonEmpty.length === 0) {
 			logger.warn("Content is empty, skipping processing and storage.");
 			this.status.status = "completed";
-			return;
+			return { source, added: 0, unchanged: 0, removed: 0 };
 		}
 
-		this.status.status = "processing";
-		this.status.startTime = Date.now();
-		this.status.chunksGenerated = 0;
-		this.status.chunksStored = 0;
-		this.status.error = undefined;
+		this.status = {
+			status: "processing",
+			startTime: Date.now(),
+			chunksGenerated: 0,
+			chunksStored: 0,
+		};
 
 		try {
-			// 1. Create MDocument from the content
-			let doc: MDocument;
-			switch (contentType) {
-				case "html":
-					doc = MDocument.fromHTML(content);
-					break;
-				case "markdown":
-					doc = MDocument.fromMarkdown(content);
-					break;
-				case "json":
-					doc = MDocument.fromJSON(content);
-					break;
-				default:
-					doc = MDocument.fromText(content);
-					break;
-			}
-
-			// 2. Split content into chunks using Mastra's chunking strategy
 			logger.info(
-				`Splitting content into chunks (size: ${this.chunkSize}, overlap: ${this.chunkOverlap})...`,
+				`Splitting ${nonEmpty.length} document(s) into chunks (size: ${this.chunkSize}, overlap: ${this.chunkOverlap})...`,
 			);
-			const chunks = await doc.chunk({
-				strategy: "recursive", // Smart splitting based on content structure
-				size: this.chunkSize,
-				overlap: this.chunkOverlap,
-				separator: "\n",
-			});
+			const items: { text: string; metadata: Record<string, unknown> }[] = [];
+			for (const document of nonEmpty) {
+				items.push(...(await this.chunkDocument(document, contentType)));
+			}
 
-			if (chunks.length === 0) {
+			if (items.length === 0) {
 				logger.warn("No chunks were generated from the content.");
 				this.status.status = "completed";
-				return;
-			}
-			logger.info(`Generated ${chunks.length} chunks.`);
-			this.status.chunksGenerated = chunks.length;
-
-			// 3. Generate embeddings with OpenAI using ai SDK
-			// 3. Generate embeddings with OpenAI using ai SDK
-			logger.info(
-				`Generating embeddings using model: ${this.embeddingModel}...`,
-			);
-			const { embeddings } = await embedMany({
-				model: openai.embedding(this.embeddingModel),
-				values: chunks.map((chunk) => chunk.text),
-			});
-
-			logger.info(
-				`Successfully generated embeddings for ${embeddings.length} chunks.`,
-			);
-
-			if (embeddings.length === 0) {
-				logger.error(
-					"No embeddings were generated. Aborting database insertion.",
-				);
-				throw new Error("Embedding generation failed for all chunks.");
+				return { source, added: 0, unchanged: 0, removed: 0 };
 			}
+			logger.info(`Generated ${items.length} chunks.`);
+			this.status.chunksGenerated = items.length;
 
-			// 4. Store chunks and embeddings in the database
-			logger.info(
-				`Storing ${embeddings.length} chunks with embeddings in the database...`,
-			);
-
-			// Prepare chunks with metadata
-			const chunkMetadata = chunks.map((chunk) => ({
-				text: chunk.text,
-				id: chunk.id_,
-			}));
-
-			// Upsert embeddings using Mastra's PgVector
-			await this.pgVector.upsert({
-				indexName: this.indexName,
-				vectors: embeddings,
-				metadata: chunkMetadata,
-			});
-
-			this.status.chunksStored = embeddings.length;
-			logger.info(
-				`Successfully stored ${this.status.chunksStored} chunks in the database.`,
-			);
-			this.status.status = "completed";
+			// Embed and store the new chunks, and drop the ones that are gone
+			return await this.syncChunks(source, items);
 		} catch (e) {
 			this.status.status = "error";
 			this.status.error = e instanceof Error ? e.message : String(e);
@@ -222,13 +320,78 @@ export class ContentProcessor {
 	}
 
 	/**
-	 * Processes a batch of items, generates embeddings, and stores them.
+	 * Splits a document into chunks using Mastra's chunking strategy and derives
+	 * each chunk's metadata
+	 */
+	private async chunkDocument(
+		{ content, metadata = {} }: ProcessableDocument,
+		contentType: "text" | "html" | "markdown" | "json",
+	): Promise<{ text: string; metadata: Record<string, unknown> }[]> {
+		let doc: MDocument;
+		switch (contentType) {
+			case "html":
+				doc = MDocument.fromHTML(content);
+				break;
+			case "markdown":
+				doc = MDocument.fromMarkdown(content);
+				break;
+			case "json":
+				doc = MDocument.fromJSON(content);
+				break;
+			default:
+				doc = MDocument.fromText(content);
+				break;
+		}
+
+		const chunks = await doc.chunk({
+			strategy: "recursive", // Smart splitting based on content structure
+			size: this.chunkSize,
+			overlap: this.chunkOverlap,
+			separator: "\n",
+		});
+
+		// Find each chunk in the markdown to know which headings it sits under.
+		// Chunks come in order, so each search starts where the previous chunk did.
+		const lines = contentType === "markdown" ? headingPaths(content) : [];
+		let searchFrom = 0;
+		return chunks.map((chunk, chunkIndex) => {
+			let headingPath: string[] = [];
+			if (lines.length > 0) {
+				const found = content.indexOf(chunk.text.trim(), searchFrom);
+				if (found >= 0) {
+					searchFrom = found;
+				}
+				const at = found >= 0 ? found : searchFrom;
+				headingPath =
+					lines.filter((line) => line.offset <= at).at(-1)?.path ?? [];
+			}
+			return {
+				text: chunk.text,
+				metadata: {
+					...metadata,
+					text: chunk.text,
+					headingPath: headingPath.join(" > "),
+					chunkIndex,
+				},
+			};
+		});
+	}
+
+	/**
+	 * Processes a batch of items, generates embeddings, and stores them. Like
+	 * processAndStore, unchanged items are skipped and items missing from the
+	 * batch are removed from the source.
 	 * @param items - An array of ProcessableItem objects.
+	 * @param source - Identifier of where the items came from, e.g. an endpoint URL
+	 * @returns What the run added, kept and removed for the source
 	 */
-	public async processAndEmbedBatch(items: ProcessableItem[]): Promise<void> {
+	public async processAndEmbedBatch(
+		items: ProcessableItem[],
+		source: string,
+	): Promise<SyncSummary> {
 		if (!items || items.length === 0) {
 			logger.warn("No items provided in the batch. Skipping embedding.");
-			return;
+			return { source, added: 0, unchanged: 0, removed: 0 };
 		}
 
 		this.status = {
@@ -236,24 +399,58 @@ export class ContentProcessor {
 			startTime: Date.now(),
 			chunksGenerated: items.length, // Each item is treated as one 'chunk' in this context
 			chunksStored: 0,
-			error: undefined,
 		};
 
 		try {
-			const contentsToEmbed = items.map((item) => item.content);
-			const metadataToStore = items.map((item) => item.metadata);
+			return await this.syncChunks(
+				source,
+				items.map((item) => ({ text: item.content, metadata: item.metadata })),
+			);
+		} catch (e) {
+			this.status.status = "error";
+			this.status.error = e instanceof Error ? e.message : String(e);
+			logger.error(`Batch processing failed: ${this.status.error}`);
+			throw e; // Re-throw after setting status
+		}
+	}
+
+	/**
+	 * Brings the stored chunks of a source in line with the given chunks: embeds
+	 * and upserts those not stored yet, and deletes stored ones not given
+	 */
+	private async syncChunks(
+		source: string,
+		items: { text: string; metadata: Record<string, unknown> }[],
+	): Promise<SyncSummary> {
+		// Identical chunks share an id, so keep one of each
+		const chunks = new Map<string, ChunkData>();
+		for (const { text, metadata } of items) {
+			const contentHash = hashContent(text, metadata);
+			const id = chunkId(source, contentHash);
+			chunks.set(id, {
+				id,
+				text,
+				metadata: { ...metadata, source, contentHash },
+			});
+		}
+
+		const stored = await this.listStoredChunks({ source });
+		const added = [...chunks.values()].filter((chunk) => !stored.has(chunk.id));
+		const removed = [...stored.keys()].filter((id) => !chunks.has(id));
+		const ingestedAt = new Date().toISOString();
 
+		if (added.length > 0) {
 			logger.info(
-				`Generating embeddings for ${contentsToEmbed.length} batch items using model: ${this.embeddingModel}...`,
+				`Generating embeddings for ${added.length} new chunks using model: ${this.embedder.id}...`,
 			);
-			const { embeddings } = await embedMany({
-				model: openai.embedding(this.embeddingModel),
-				values: contentsToEmbed,
-			});
+			const { embeddings, tokens } = await this.embedder.embed(
+				added.map((chunk) => chunk.text),
+			);
+			reportEmbeddingUsage("Content Processor", this.embedder.id, tokens);
 
-			if (!embeddings || embeddings.length !== items.length) {
+			if (!embeddings || embeddings.length !== added.length) {
 				throw new Error(
-					`Embedding count mismatch: expected ${items.length}, got ${embeddings?.length ?? 0}`,
+					`Embedding count mismatch: expected ${added.length}, got ${embeddings?.length ?? 0}`,
 				);
 			}
 
@@ -263,50 +460,143 @@ export class ContentProcessor {
 			await this.pgVector.upsert({
 				indexName: this.indexName,
 				vectors: embeddings,
-				metadata: metadataToStore,
+				metadata: added.map((chunk) => ({ ...chunk.metadata, ingestedAt })),
+				ids: added.map((chunk) => chunk.id),
 			});
+		}
 
-			this.status.chunksStored = embeddings.length;
-			this.status.status = "completed";
-			logger.info(
-				`Successfully processed and stored batch of ${this.status.chunksStored} items.`,
+		// Unchanged chunks keep their vector and ingestion time, but may have moved
+		for (const chunk of chunks.values()) {
+			const previous = stored.get(chunk.id);
+			if (previous && previous.chunkIndex !== chunk.metadata.chunkIndex) {
+				await this.pgVector.updateIndexById(this.indexName, chunk.id, {
+					metadata: { ...chunk.metadata, ingestedAt: previous.ingestedAt },
+				});
+			}
+		}
+
+		for (const id of removed) {
+			await this.pgVector.deleteIndexById(this.indexName, id);
+		}
+
+		const summary: SyncSummary = {
+			source,
+			added: added.length,
+			unchanged: chunks.size - added.length,
+			removed: removed.length,
+		};
+		this.status.chunksStored = summary.added;
+		this.status.chunksUnchanged = summary.unchanged;
+		this.status.chunksRemoved = summary.removed;
+		this.status.status = "completed";
+		logger.info(`Synced ${formatSyncSummary(summary)}`);
+		return summary;
+	}
+
+	/**
+	 * Removes the chunks of every source matching the filter that is not in the
+	 * given list, e.g. files dropped from an ingestion config
+	 * @param sources The sources to keep
+	 * @param filter Conditions on the metadata of the chunks that may be removed
+	 * @returns What was removed, per source
+	 */
+	public async removeOtherSources(
+		sources: string[],
+		filter: MetadataFilter = {},
+	): Promise<SyncSummary[]> {
+		const removed = new Map<string, string[]>();
+		for (const [id, metadata] of await this.listStoredChunks(filter)) {
+			const source = String(metadata.source);
+			if (!sources.includes(source)) {
+				removed.set(source, [...(removed.get(source) ?? []), id]);
+			}
+		}
+
+		const summaries: SyncSummary[] = [];
+		for (const [source, ids] of removed) {
+			for (const id of ids) {
+				await this.pgVector.deleteIndexById(this.indexName, id);
+			}
+			const summary = { source, added: 0, unchanged: 0, removed: ids.length };
+			logger.info(`Synced ${formatSyncSummary(summary)}`);
+			summaries.push(summary);
+		}
+		return summaries;
+	}
+
+	/**
+	 * Metadata of the stored chunks matching a filter, by id. Reads the index's
+	 * table page by page, so sources of any size are listed in full.
+	 */
+	private async listStoredChunks(
+		filter: MetadataFilter,
+	): Promise<Map<string, Record<string, unknown>>> {
+		await this.ready;
+		if (!SQL_IDENTIFIER.test(this.indexName)) {
+			throw new Error(`Invalid index name "${this.indexName}"`);
+		}
+		const conditions = toSqlConditions(filter, 3);
+		const chunks = new Map<string, Record<string, unknown>>();
+		let after = "";
+		let more = true;
+		while (more) {
+			const { rows } = await this.pool.query<{
+				id: string;
+				metadata: Record<string, unknown> | null;
+			}>(
+				`SELECT vector_id AS id, metadata FROM ${this.indexName}
+				WHERE vector_id > $1 AND ${conditions.sql}
+				ORDER BY vector_id
+				LIMIT $2`,
+				[after, STORED_CHUNKS_PAGE_SIZE, ...conditions.values],
 			);
-		} catch (e) {
-			this.status.status = "error";
-			this.status.error = e instanceof Error ? e.message : String(e);
-			logger.error(`Batch processing failed: ${this.status.error}`);
-			throw e; // Re-throw after setting status
+			for (const { id, metadata } of rows) {
+				chunks.set(id, metadata ?? {});
+			}
+			more = rows.length === STORED_CHUNKS_PAGE_SIZE;
+			after = rows.at(-1)?.id ?? after;
 		}
+		return chunks;
 	}
 
 	/**
 	 * Process a single string - generate embedding and store in database.
+	 * Storing the same string with the same metadata again replaces it.
 	 * @param text The string to process
+	 * @param metadata Additional metadata stored alongside the text
 	 * @returns True if processing and storage was successful, false otherwise
 	 */
-	public async processAndStoreSingleString(text: string): Promise<boolean> {
+	public async processAndStoreSingleString(
+		text: string,
+		metadata: Record<string, unknown> = {},
+	): Promise<boolean> {
 		if (!text || !text.trim()) {
 			logger.warn("Empty text provided for processing.");
 			return false;
 		}
 
 		try {
-			// Generate embedding with OpenAI
-			const { embedding } = await embed({
-				value: text,
-				model: openai.embedding(this.embeddingModel),
-			});
+			await this.ready;
+			const {
+				embeddings: [embedding],
+				tokens,
+			} = await this.embedder.embed([text]);
+			reportEmbeddingUsage("Content Processor", this.embedder.id, tokens);
 
 			if (!embedding || embedding.length === 0) {
 				logger.error("Failed to generate embedding for single string.");
 				return false;
 			}
 
-			// Store in database using Mastra PgVector
+			// Store in database using Mastra PgVector. The id is derived from the
+			// content, so storing the same string again replaces it.
+			const contentHash = hashContent(text, metadata);
+			const id = chunkId(this.indexName, contentHash);
 			await this.pgVector.upsert({
 				indexName: this.indexName,
 				vectors: [embedding],
-				metadata: [{ text, id: Date.now().toString() }],
+				metadata: [{ ...metadata, text, id, contentHash }],
+				ids: [id],
 			});
 
 			logger.info("Successfully processed and stored single string.");
@@ -330,10 +620,10 @@ export class ContentProcessor {
 	): Promise<unknown[]> {
 		try {
 			// Generate embedding for the query
-			const { embedding } = await embed({
-				value: queryText,
-				model: openai.embedding(this.embeddingModel),
-			});
+			await this.ready;
+			const {
+				embeddings: [embedding],
+			} = await this.embedder.embed([queryText]);
 
 			// Query the vector store
 			const results = await this.pgVector.query({
@@ -372,15 +662,17 @@ export class ContentProcessor {
  * @param pgConnectionString PostgreSQL connection string
  * @param indexName The name of the vector index
  * @param textToEmbed The text to embed and store
+ * @param metadata Additional metadata stored alongside the text
  */
 export async function embedSingleString(
 	pgConnectionString: string,
 	indexName: string,
 	textToEmbed: string,
+	metadata: Record<string, unknown> = {},
 ) {
 	try {
 		if (!pgConnectionString) {
-			console.error("PostgreSQL connection string is required");
+			logger.error("PostgreSQL connection string is required");
 			return false;
 		}
 
@@ -388,13 +680,14 @@ export async function embedSingleString(
 		const processor = new ContentProcessor(pgConnectionString, indexName);
 
 		// Process and store the string
-		const success = await processor.processAndStoreSingleString(textToEmbed);
-		console.log(
-			`Processing and storing single string: ${success ? "Successful" : "Failed"}`,
+		const success = await processor.processAndStoreSingleString(
+			textToEmbed,
+			metadata,
 		);
+		logger.debug("Processed and stored single string", { indexName, success });
 		return success;
 	} catch (error) {
-		console.error("Error in embedSingleString:", error);
+		logger.error("Error in embedSingleString", { indexName, error });
 		return false;
 	}
 }
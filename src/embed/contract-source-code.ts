@@ -4,7 +4,7 @@ import { fileURLToPath } from "node:url";
 import axios, { type AxiosInstance, type AxiosResponse } from "axios";
 import * as toml from "toml";
 
-import { ContentProcessor } from "./content-processor"; // Renamed import
+import { ContentProcessor, formatSyncSummary } from "./content-processor";
 import { logger, withTimeout } from "./utils";
 
 // Fix for __dirname in ES modules
@@ -143,7 +143,6 @@ export class EtherscanEmbedder {
 			chunkSize?: number;
 			chunkOverlap?: number;
 			embeddingModel?: string;
-			dimension?: number;
 		} = {},
 	) {
 		if (
@@ -180,8 +179,7 @@ export class EtherscanEmbedder {
 			{
 				chunkSize: options.chunkSize || 1500,
 				chunkOverlap: options.chunkOverlap || 200,
-				embeddingModel: options.embeddingModel || "text-embedding-3-small",
-				dimension: options.dimension || 1536,
+				embeddingModel: options.embeddingModel,
 			},
 		);
 	}
@@ -219,14 +217,23 @@ export class EtherscanEmbedder {
 			logger.debug(`Formatted Content Length: ${formattedContent.length}`);
 
 			// Process and store the content using Mastra
-			await this.contentProcessor.processAndStore(formattedContent, "text");
+			const summary = await this.contentProcessor.processAndStore(
+				formattedContent,
+				"text",
+				this.contractAddress,
+				{
+					title: contractData.ContractName,
+					sourceType: "contract",
+					contractAddress: this.contractAddress,
+				},
+			);
 
 			const processStatus = this.contentProcessor.getStatus();
 			this.status.chunksGenerated = processStatus.chunksGenerated;
 			this.status.chunksStored = processStatus.chunksStored;
 			this.status.status = "completed";
 			logger.info(
-				`Embedding completed for ${contractData.ContractName} (${this.contractAddress}). Stored ${processStatus.chunksStored} chunks.`,
+				`Embedding completed for ${contractData.ContractName}: ${formatSyncSummary(summary)}`,
 			);
 		} catch (e) {
 			this.status.status = "error";
@@ -507,8 +514,6 @@ async function main() {
 			{
 				chunkSize: 1500, // Characters per chunk
 				chunkOverlap: 200, // Characters of overlap
-				embeddingModel: "text-embedding-3-small", // OpenAI embedding model
-				dimension: 1536, // Dimension size for text-embedding-3-small
 			},
 		);
 	} catch (error) {
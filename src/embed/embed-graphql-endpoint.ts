@@ -1,9 +1,7 @@
 import * as fs from "node:fs";
 import * as path from "node:path";
 import { fileURLToPath } from "node:url";
-import { openai } from "@ai-sdk/openai";
 import { PgVector } from "@mastra/pg";
-import { embedMany } from "ai";
 import {
 	type DefinitionNode,
 	type DocumentNode,
@@ -16,6 +14,7 @@ import {
 	printSchema,
 } from "graphql";
 import * as toml from "toml";
+import { checkIndexModel, getEmbeddingProvider } from "../mastra/embeddings";
 import { logger } from "./utils";
 
 // Fix for __dirname in ES modules
@@ -25,9 +24,6 @@ const __dirname = path.dirname(__filename);
 // Default configuration path relative to the current file
 const DEFAULT_CONFIG_PATH = path.join(__dirname, "config/gitcoin-gql.toml");
 
-// Assuming a default embedding model and dimension, adjust as needed
-const DEFAULT_EMBEDDING_MODEL = "text-embedding-3-small";
-const DEFAULT_EMBEDDING_DIMENSION = 1536;
 const MAX_CHUNK_LENGTH = 1000;
 
 interface Config {
@@ -287,6 +283,7 @@ async function embedGraphqlEndpoint(
 	logger.info(`Starting schema embedding from: ${graphqlEndpoint}`);
 
 	const pgVector = new PgVector(pgConnectionString);
+	const embedder = getEmbeddingProvider();
 
 	const schemaSDL = await fetchSchema(graphqlEndpoint);
 	const typeRelationships = extractRelationships(schemaSDL);
@@ -305,17 +302,17 @@ async function embedGraphqlEndpoint(
 	try {
 		await pgVector.createIndex({
 			indexName: collectionName,
-			dimension: DEFAULT_EMBEDDING_DIMENSION,
+			dimension: embedder.dimension,
+		});
+		await checkIndexModel(pgVector, collectionName, embedder, {
+			record: true,
 		});
 
 		const contentsToEmbed = finalChunks.map((chunk) => chunk.content);
 		logger.info(
-			`Generating embeddings for ${contentsToEmbed.length} chunks...`,
+			`Generating embeddings for ${contentsToEmbed.length} chunks using model: ${embedder.id}...`,
 		);
-		const { embeddings } = await embedMany({
-			model: openai.embedding(DEFAULT_EMBEDDING_MODEL),
-			values: contentsToEmbed,
-		});
+		const { embeddings } = await embedder.embed(contentsToEmbed);
 
 		if (!embeddings || embeddings.length !== finalChunks.length) {
 			throw new Error(
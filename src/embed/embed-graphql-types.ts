@@ -8,7 +8,11 @@ import { generate } from "@graphql-codegen/cli";
 import { PgVector } from "@mastra/pg"; // Keep PgVector if ContentProcessor needs it passed in, or remove if encapsulated
 import * as toml from "toml";
 // import { embedMany } from "ai"; // embedMany likely handled by ContentProcessor
-import { ContentProcessor, type ProcessableItem } from "./content-processor";
+import {
+	ContentProcessor,
+	type ProcessableItem,
+	formatSyncSummary,
+} from "./content-processor";
 import { logger } from "./utils";
 
 // Fix for __dirname in ES modules
@@ -18,10 +22,6 @@ const __dirname = path.dirname(__filename);
 // Default configuration path relative to the current file
 const DEFAULT_CONFIG_PATH = path.join(__dirname, "config/graphql-types.toml");
 
-// Assuming a default embedding model and dimension, adjust as needed
-const DEFAULT_EMBEDDING_MODEL = "text-embedding-3-small";
-const DEFAULT_EMBEDDING_DIMENSION = 1536;
-
 interface Config {
 	graphql: {
 		endpoint: string;
@@ -95,7 +95,7 @@ async function generateRemoteTypes(
 		} = {};
 		schemaConfig[endpoint] = headers ? { headers } : {};
 
-		console.log("Schema config:", schemaConfig);
+		logger.debug("Schema config", { schemaConfig });
 		const output = await generate({
 			schema: endpoint,
 			generates: {
@@ -108,11 +108,11 @@ async function generateRemoteTypes(
 		});
 
 		const { content } = output[0];
-		console.log("Codegen output:", content);
 
-		logger.info(
-			`Successfully generated TypeScript types. Total length: ${content.length}`,
-		);
+		// Large outputs are logged as their size and hash unless debug is on
+		logger.info("Successfully generated TypeScript types", {
+			output: content,
+		});
 		return content;
 	} catch (error: unknown) {
 		logger.error(`Error generating types from ${endpoint}: ${error}`);
@@ -350,11 +350,8 @@ async function embedGraphqlTypes(pgConnectionString: string, config: Config) {
 
 	logger.info(`Starting GraphQL type embedding from: ${graphqlEndpoint}`);
 
-	// Instantiate the ContentProcessor
-	const processor = new ContentProcessor(pgConnectionString, collectionName, {
-		embeddingModel: DEFAULT_EMBEDDING_MODEL,
-		dimension: DEFAULT_EMBEDDING_DIMENSION,
-	});
+	// Instantiate the ContentProcessor, embedding with the registry's embedder model
+	const processor = new ContentProcessor(pgConnectionString, collectionName);
 
 	// Generate the TypeScript types string
 	const generatedTypes = await generateRemoteTypes(graphqlEndpoint, headers);
@@ -392,7 +389,11 @@ async function embedGraphqlTypes(pgConnectionString: string, config: Config) {
 				content: chunkContent,
 				metadata: {
 					title: title,
+					text: chunkContent,
 					content: chunkContent,
+					url: graphqlEndpoint,
+					sourceType: "graphql-types",
+					chunkIndex: index,
 					// Add additional metadata for search enhancement
 					isGraphQLType: true,
 					containsEntityTypes:
@@ -412,11 +413,12 @@ async function embedGraphqlTypes(pgConnectionString: string, config: Config) {
 		);
 
 		// Use the processor to handle embedding and upserting
-		await processor.processAndEmbedBatch(itemsToEmbed);
-
-		logger.info(
-			`Embedding completed successfully for types from: ${graphqlEndpoint}`,
+		const summary = await processor.processAndEmbedBatch(
+			itemsToEmbed,
+			graphqlEndpoint,
 		);
+
+		logger.info(`Embedding completed: ${formatSyncSummary(summary)}`);
 	} catch (error) {
 		logger.error(
 			`Failed to embed types into collection ${collectionName}: ${error}`,
@@ -6,7 +6,7 @@ import * as cheerio from "cheerio";
 import slugify from "slugify";
 import TurndownService from "turndown";
 
-import { ContentProcessor } from "./content-processor"; // Renamed import
+import { ContentProcessor, formatSyncSummary } from "./content-processor";
 import { logger, withTimeout } from "./utils";
 
 /**
@@ -27,7 +27,7 @@ interface DownloadStatus {
 /**
  * Page data structure
  */
-interface PageData {
+export interface PageData {
 	index: number;
 	title: string;
 	content: string;
@@ -336,33 +336,49 @@ export class GitbookDownloader {
 			}
 		}
 		markdownParts.push("\n---\n");
-		seenTitles.clear(); // Reset for content section
 
 		// Add content
-		for (const page of sortedPages) {
-			if (page.title && page.content) {
-				const title = page.title.trim();
-				const content = page.content.trim();
-				const slug = slugify(title, { lower: true, strict: true });
-
-				// Avoid adding completely duplicate sections (based on title)
-				if (title && !seenTitles.has(title)) {
-					markdownParts.push(`\n# ${title} {#${slug}}`); // Add anchor ID
-					markdownParts.push(`\n*Source: ${page.url}*\n`);
-					markdownParts.push(content);
-					markdownParts.push("\n---\n");
-					seenTitles.add(title);
-				} else if (title && seenTitles.has(title)) {
-					logger.debug(
-						`Skipping content for duplicate title: "${title}" from ${page.url}`,
-					);
-				}
-			}
+		for (const page of this.getPages()) {
+			const slug = slugify(page.title, { lower: true, strict: true });
+			markdownParts.push(`\n# ${page.title} {#${slug}}`); // Add anchor ID
+			markdownParts.push(`\n*Source: ${page.url}*\n`);
+			markdownParts.push(page.content);
+			markdownParts.push("\n---\n");
 		}
 
 		return markdownParts.join("\n").trim();
 	}
 
+	/**
+	 * The downloaded pages with content, in navigation order. Pages repeating an
+	 * earlier page's title are left out.
+	 * @returns Pages with trimmed titles and content
+	 */
+	public getPages(): PageData[] {
+		const seenTitles = new Set<string>();
+		const pages: PageData[] = [];
+		const sortedPages = Array.from(this.pages.values()).sort(
+			(a, b) => a.index - b.index,
+		);
+		for (const page of sortedPages) {
+			const title = page.title?.trim();
+			const content = page.content?.trim();
+			if (!title || !content) {
+				continue;
+			}
+			// Avoid adding completely duplicate sections (based on title)
+			if (seenTitles.has(title)) {
+				logger.debug(
+					`Skipping content for duplicate title: "${title}" from ${page.url}`,
+				);
+				continue;
+			}
+			seenTitles.add(title);
+			pages.push({ ...page, title, content });
+		}
+		return pages;
+	}
+
 	/**
 	 * Fetch a page with retry logic
 	 * @param url The URL to fetch
@@ -605,19 +621,22 @@ async function main() {
 		// Renamed constructor call
 		chunkSize: 1000, // Characters per chunk
 		chunkOverlap: 200, // Characters of overlap
-		embeddingModel: "text-embedding-3-small", // OpenAI embedding model
-		dimension: 1536, // Dimension size for text-embedding-3-small
 	});
 
 	try {
 		logger.info(
 			"Starting content processing and database storage with Mastra...",
 		);
-		await processor.processAndStore(markdownContent, "markdown");
-		const processStatus = processor.getStatus();
-		logger.info(
-			`Processing completed: Generated ${processStatus.chunksGenerated} chunks, Stored ${processStatus.chunksStored} chunks in vector store.`,
+		// Embed page by page so every chunk carries its page's URL and title
+		const summary = await processor.processAndStoreDocuments(
+			downloader.getPages().map((page) => ({
+				content: page.content,
+				metadata: { url: page.url, title: page.title, sourceType: "gitbook" },
+			})),
+			"markdown",
+			gitbookUrl,
 		);
+		logger.info(`Processing completed: ${formatSyncSummary(summary)}`);
 	} catch (error) {
 		logger.error(
 			`Content processing failed: ${error instanceof Error ? error.message : String(error)}`,
@@ -3,7 +3,11 @@ import * as path from "node:path";
 import { fileURLToPath } from "node:url";
 import axios from "axios";
 import * as toml from "toml";
-import { embedSingleString } from "./content-processor";
+import {
+	ContentProcessor,
+	type SyncSummary,
+	formatSyncSummary,
+} from "./content-processor";
 import { logger } from "./utils";
 
 /**
@@ -243,62 +247,92 @@ function splitByLines(content: string, maxLines: number): string[] {
 }
 
 /**
- * Add metadata to a chunk of code
- * @param chunk Code chunk
- * @param fileUrl Source file URL
- * @param index Chunk index
- * @returns Chunk with metadata
+ * What a chunk of code holds, stored with the chunk so queries can filter on it
  */
-function addMetadataToChunk(
-	chunk: string,
-	fileUrl: string,
-	index: number,
-): string {
-	// Extract filename from URL
-	const filename = fileUrl.split("/").pop() || "unknown";
+interface CodeElement {
+	/** "documented_code" when the chunk starts with a NatSpec comment, otherwise "code" */
+	chunkType: string;
+	/** First element the chunk declares: function, event, struct, mapping, state_variable or unknown */
+	elementType: string;
+	elementName: string;
+	/** Whether the chunk declares any function, event or struct, wherever it sits in the chunk */
+	containsFunctions: boolean;
+	containsEvents: boolean;
+	containsStructs: boolean;
+}
+
+// Declarations start a line, so words in the code or its comments don't count
+const DECLARATIONS: [elementType: string, pattern: RegExp][] = [
+	["function", /^\s*function\s+(\w+)/m],
+	["event", /^\s*event\s+(\w+)/m],
+	["struct", /^\s*struct\s+(\w+)/m],
+	[
+		"mapping",
+		/^\s*mapping\s*\([^)]+\)\s*(?:public|external|internal|private)?\s+(\w+)/m,
+	],
+	[
+		"state_variable",
+		/^\s*(?:uint|int|address|bool|string|bytes)(?:\d*)?(?:\[\])?\s+(?:public|external|internal|private)?\s+(\w+)/m,
+	],
+];
 
+/**
+ * Identify the Solidity elements a chunk of code declares
+ * @param chunk Code chunk
+ * @returns The chunk's type, its first element's type and name, and which kinds of element it declares
+ */
+function describeCodeChunk(chunk: string): CodeElement {
 	// Analyze chunk to identify content type
 	let chunkType = "code";
 	if (chunk.trim().startsWith("///")) {
 		chunkType = "documented_code";
 	}
 
-	// Try to extract element name and type
-	let elementName = "unknown";
-	let elementType = "unknown";
+	// Comments may mention elements or start lines with a keyword, so drop them
+	const code = chunk.replace(/\/\*[\s\S]*?\*\//g, "").replace(/\/\/.*$/gm, "");
+	const declared = DECLARATIONS.map(([elementType, pattern]) => ({
+		elementType,
+		match: code.match(pattern),
+	}));
+
+	// The element declared first names the chunk
+	const first = declared
+		.filter(({ match }) => match?.index !== undefined)
+		.sort((a, b) => (a.match?.index ?? 0) - (b.match?.index ?? 0))[0];
+	const contains = (elementType: string) =>
+		declared.some(
+			(element) => element.elementType === elementType && element.match,
+		);
 
-	// Check for different Solidity elements
-	const functionMatch = chunk.match(/function\s+(\w+)/);
-	const eventMatch = chunk.match(/event\s+(\w+)/);
-	const structMatch = chunk.match(/struct\s+(\w+)/);
-	const mappingMatch = chunk.match(
-		/mapping\s*\([^)]+\)\s*(?:public|external|internal|private)?\s+(\w+)/,
-	);
-	const stateVarMatch = chunk.match(
-		/(?:uint|int|address|bool|string|bytes)(?:\d*)?(?:\[\])?\s+(?:public|external|internal|private)?\s+(\w+)/,
-	);
+	return {
+		chunkType,
+		elementType: first?.elementType ?? "unknown",
+		elementName: first?.match?.[1] ?? "unknown",
+		containsFunctions: contains("function"),
+		containsEvents: contains("event"),
+		containsStructs: contains("struct"),
+	};
+}
 
-	if (functionMatch?.[1]) {
-		elementName = functionMatch[1];
-		elementType = "function";
-	} else if (eventMatch?.[1]) {
-		elementName = eventMatch[1];
-		elementType = "event";
-	} else if (structMatch?.[1]) {
-		elementName = structMatch[1];
-		elementType = "struct";
-	} else if (mappingMatch?.[1]) {
-		elementName = mappingMatch[1];
-		elementType = "mapping";
-	} else if (stateVarMatch?.[1]) {
-		elementName = stateVarMatch[1];
-		elementType = "state_variable";
-	}
+/**
+ * Add metadata to a chunk of code. The position of the chunk is left out,
+ * so chunks that only moved keep their content hash and are not re-embedded.
+ * @param chunk Code chunk
+ * @param fileUrl Source file URL
+ * @param element What the chunk declares
+ * @returns Chunk with metadata
+ */
+function addMetadataToChunk(
+	chunk: string,
+	fileUrl: string,
+	{ chunkType, elementType, elementName }: CodeElement,
+): string {
+	// Extract filename from URL
+	const filename = fileUrl.split("/").pop() || "unknown";
 
 	// Create metadata
 	const metadata = `Source: ${fileUrl}
   File: ${filename}
-  Chunk: ${index + 1}
   Type: ${chunkType}
   Element: ${elementType}
   Name: ${elementName}
@@ -310,28 +344,27 @@ function addMetadataToChunk(
 }
 
 /**
- * Process a single file and embed its chunks
+ * Process a single file and embed its chunks. Chunks already embedded are
+ * skipped and chunks the file no longer has are removed.
  * @param fileUrl GitHub raw URL
- * @param pgConnectionString PostgreSQL connection string
- * @param indexName Vector index name
+ * @param processor Content processor for the vector index
  * @param config Embedding configuration
- * @returns Number of chunks successfully embedded
+ * @returns What the run changed for the file, or undefined if it couldn't be fetched
  */
 async function processFile(
 	fileUrl: string,
-	pgConnectionString: string,
-	indexName: string,
+	processor: ContentProcessor,
 	config: {
 		chunkMaxLines?: number;
 		chunkByFunctions?: boolean;
 	},
-): Promise<number> {
+): Promise<SyncSummary | undefined> {
 	// Fetch file content
 	const content = await fetchGitHubFile(fileUrl);
 
 	if (!content) {
 		logger.warn(`Skipping empty or failed file: ${fileUrl}`);
-		return 0;
+		return undefined;
 	}
 
 	logger.info(`Processing file: ${fileUrl} (${content.length} characters)`);
@@ -356,35 +389,25 @@ async function processFile(
 
 	logger.info(`File split into ${chunks.length} chunks`);
 
-	// Process each chunk
-	let successCount = 0;
-
-	for (let i = 0; i < chunks.length; i++) {
-		const chunk = chunks[i];
-
-		// Add source and metadata to the chunk
-		const chunkWithMetadata = addMetadataToChunk(chunk, fileUrl, i);
-
-		logger.info(
-			`Embedding chunk ${i + 1}/${chunks.length} (${chunk.length} characters)`,
-		);
-
-		// Embed the chunk
-		const success = await embedSingleString(
-			pgConnectionString,
-			indexName,
-			chunkWithMetadata,
-		);
-
-		if (success) {
-			successCount++;
-		}
-	}
-
-	logger.info(
-		`Successfully embedded ${successCount}/${chunks.length} chunks for ${fileUrl}`,
+	// Add source and metadata to each chunk, and embed the new ones
+	return processor.processAndEmbedBatch(
+		chunks.map((chunk, i) => {
+			const element = describeCodeChunk(chunk);
+			const text = addMetadataToChunk(chunk, fileUrl, element);
+			return {
+				content: text,
+				metadata: {
+					text,
+					url: fileUrl,
+					title: path.basename(fileUrl),
+					sourceType: "github-code",
+					chunkIndex: i,
+					...element,
+				},
+			};
+		}),
+		fileUrl,
 	);
-	return successCount;
 }
 
 async function embedContent() {
@@ -422,21 +445,24 @@ async function embedContent() {
 			return;
 		}
 
+		const processor = new ContentProcessor(
+			connectionString,
+			config.postgresql.indexName,
+		);
+
 		for (const file of files) {
-			// Process a single file as an example
 			logger.info(`\nProcessing file: ${file}`);
 
-			const successCount = await processFile(
-				file,
-				connectionString,
-				config.postgresql.indexName,
-				config.embedding,
-			);
+			const summary = await processFile(file, processor, config.embedding);
 
-			logger.info("\nProcessing complete!");
-			logger.info(`Successfully embedded ${successCount} chunks from ${file}`);
+			if (summary) {
+				logger.info(`Processing complete: ${formatSyncSummary(summary)}`);
+			}
 		}
 
+		// Each file is its own source, so drop the files no longer configured
+		await processor.removeOtherSources(files, { sourceType: "github-code" });
+
 		// Instructions for processing all files
 		logger.info("\nTo process all files listed in the configuration:");
 	} catch (error) {
@@ -1,9 +1,6 @@
-export const logger = {
-	debug: (message: string) => console.debug(message),
-	info: (message: string) => console.info(message),
-	warn: (message: string) => console.warn(message),
-	error: (message: string) => console.error(message),
-};
+import { createLogger } from "../mastra/observability";
+
+export const logger = createLogger("Embed");
 
 /**
  * Create a timeout that can be used in async functions
@@ -25,12 +22,20 @@ export async function withTimeout<T>(
 	ms: number,
 	errorMessage?: string,
 ): Promise<T> {
-	return Promise.race([
-		promise,
-		timeout(ms).catch(() => {
-			throw new Error(
-				errorMessage || `Operation timed out after ${ms} milliseconds`,
-			);
-		}),
-	]);
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	const timeoutPromise = new Promise<never>((_, reject) => {
+		timer = setTimeout(
+			() =>
+				reject(
+					new Error(
+						errorMessage || `Operation timed out after ${ms} milliseconds`,
+					),
+				),
+			ms,
+		);
+	});
+	// Clear the timer once settled so it doesn't keep the process alive
+	return Promise.race([promise, timeoutPromise]).finally(() =>
+		clearTimeout(timer),
+	);
 }
@@ -0,0 +1,138 @@
+import {
+	buildSchema,
+	getIntrospectionQuery,
+	introspectionFromSchema,
+} from "graphql";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { getDomainProfile } from "../../mastra/config/domain-profile";
+import { stopFixtures, useFixtures } from "../../mastra/fixtures";
+import { runEvals } from "../runner";
+
+await vi.hoisted(async () => {
+	const fs = await import("node:fs");
+	const os = await import("node:os");
+	const path = await import("node:path");
+	// The tools refuse to load without a connection string; replay never connects
+	process.env.POSTGRES_URL = "postgres://fixtures@localhost:5432/fixtures";
+	process.env.GRAPHQL_CACHE = "off";
+	process.env.GRAPHQL_SCHEMA_CACHE_DIR = fs.mkdtempSync(
+		path.join(os.tmpdir(), "graphql-schemas-"),
+	);
+});
+
+const schema = buildSchema(`
+	type Query {
+		rounds(chainId: Int!, limit: Int): [Round!]!
+	}
+
+	type Round {
+		id: String!
+		chainId: Int!
+	}
+`);
+
+const QUERY =
+	"query Rounds($chainId: Int!) { rounds(chainId: $chainId, limit: 5) { id chainId } }";
+
+function response(body: unknown) {
+	return {
+		status: 200,
+		statusText: "OK",
+		headers: { "content-type": "application/json" },
+		body: JSON.stringify(body),
+	};
+}
+
+afterEach(() => {
+	stopFixtures();
+});
+
+describe("runEvals", () => {
+	it("scores a replayed run, including its token usage and models", async () => {
+		const url = getDomainProfile().endpoint.url;
+		useFixtures(
+			{
+				interactions: [
+					{
+						kind: "http",
+						request: {
+							url,
+							body: { query: getIntrospectionQuery({ descriptions: true }) },
+						},
+						response: response({ data: introspectionFromSchema(schema) }),
+						repeat: true,
+					},
+					{
+						kind: "embedding",
+						request: {},
+						response: { embedding: [0] },
+						repeat: true,
+					},
+					{ kind: "vector-query", request: {}, response: [], repeat: true },
+					{ kind: "keyword-query", request: {}, response: [], repeat: true },
+					{ kind: "vector-upsert", request: {}, response: true, repeat: true },
+					{
+						kind: "generation",
+						request: { structured: true },
+						response: {
+							object: {
+								query: QUERY,
+								variables: JSON.stringify({ chainId: 42161 }),
+								explanation: "Lists rounds",
+							},
+							model: "anthropic:claude-3-7-sonnet-20250219",
+							usage: {
+								promptTokens: 900,
+								completionTokens: 100,
+								totalTokens: 1000,
+							},
+						},
+					},
+					{
+						kind: "http",
+						request: { url, body: { query: QUERY } },
+						response: response({
+							data: { rounds: [{ id: "865", chainId: 42161 }] },
+						}),
+					},
+					{
+						kind: "generation",
+						request: { structured: false },
+						response: {
+							text: "Relevance score: 9/10",
+							model: "openai:o3-mini-2025-01-31",
+							usage: {
+								promptTokens: 400,
+								completionTokens: 50,
+								totalTokens: 450,
+							},
+						},
+					},
+				],
+			},
+			"replay",
+		);
+
+		const [result] = await runEvals("newQueryAnalysis", [
+			{
+				id: "arbitrum",
+				prompt: "Which rounds run on Arbitrum?",
+				tags: [],
+				expectedQuery: { rootFields: ["rounds"] },
+				assertions: [{ path: "rounds.*.chainId", equals: 42161 }],
+			},
+		]);
+
+		expect(result).toMatchObject({
+			success: true,
+			firstTrySuccess: true,
+			attempts: 1,
+			correct: true,
+			usage: { promptTokens: 1300, completionTokens: 150, totalTokens: 1450 },
+			models: [
+				"anthropic:claude-3-7-sonnet-20250219",
+				"openai:o3-mini-2025-01-31",
+			],
+		});
+	});
+});
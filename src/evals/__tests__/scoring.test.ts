@@ -0,0 +1,185 @@
+import { describe, expect, it } from "vitest";
+import type { EvalItem } from "../dataset";
+import { renderMarkdownReport } from "../report";
+import {
+	type EvalRun,
+	buildReport,
+	checkAssertions,
+	checkQueryShape,
+	scoreItem,
+} from "../scoring";
+
+const data = {
+	rounds: [
+		{ id: "865", chainId: 42161, applications: [{ id: "1" }] },
+		{ id: "866", chainId: 10, applications: [] },
+	],
+};
+
+function run(overrides: Partial<EvalRun> = {}): EvalRun {
+	return {
+		attempts: [
+			{
+				attempt: 1,
+				query: "{ rounds { id } }",
+				variables: "{}",
+				success: true,
+			},
+		],
+		success: true,
+		query:
+			"query Rounds($chainId: Int!) { list: rounds { id ...RoundChain } } fragment RoundChain on Round { chainId }",
+		variables: JSON.stringify({ chainId: 42161 }),
+		response: JSON.stringify(data),
+		latencyMs: 100,
+		usage: { promptTokens: 100, completionTokens: 20, totalTokens: 120 },
+		costUsd: 0.0002,
+		models: ["openai:o3-mini-2025-01-31"],
+		...overrides,
+	};
+}
+
+describe("checkAssertions", () => {
+	it("checks every value a wildcard path reaches", () => {
+		expect(
+			checkAssertions(data, [
+				{ path: "rounds", minLength: 2 },
+				{ path: "rounds.0.id", equals: "865" },
+				{ path: "rounds.*.chainId", oneOf: [10, 42161] },
+			]),
+		).toEqual([]);
+
+		expect(
+			checkAssertions(data, [
+				{ path: "rounds.*.chainId", equals: 42161 },
+				{ path: "rounds.*.applications", minLength: 1 },
+				{ path: "donations" },
+			]),
+		).toEqual([
+			"rounds.*.chainId: expected 42161, got 10",
+			"rounds.*.applications: expected at least 1 items, got 0",
+			"donations: no value found",
+		]);
+	});
+});
+
+describe("checkQueryShape", () => {
+	it("ignores aliases and follows fragments", () => {
+		expect(
+			checkQueryShape(run().query ?? "", run().variables ?? "", {
+				rootFields: ["rounds"],
+				fields: ["rounds.chainId"],
+				variables: { chainId: 42161 },
+			}),
+		).toEqual([]);
+	});
+
+	it("reports missing fields and wrong variables", () => {
+		expect(
+			checkQueryShape("{ rounds { id } }", JSON.stringify({ chainId: 10 }), {
+				fields: ["rounds.applications.id"],
+				variables: { chainId: 42161 },
+			}),
+		).toEqual([
+			"Query does not select rounds.applications.id",
+			"Variable $chainId: expected 42161, got 10",
+		]);
+	});
+});
+
+describe("buildReport", () => {
+	const items: EvalItem[] = [
+		{
+			id: "arbitrum",
+			prompt: "Rounds on Arbitrum",
+			tags: ["rounds"],
+			assertions: [{ path: "rounds.0.chainId", equals: 42161 }],
+		},
+		{ id: "fixed", prompt: "Round 866", tags: ["rounds", "lookup"] },
+	];
+
+	it("scores items and breaks the summary down by tag", () => {
+		const results = [
+			scoreItem(items[0], run()),
+			scoreItem(
+				items[1],
+				run({
+					attempts: [
+						{
+							attempt: 1,
+							query: "{ round { name } }",
+							variables: "{}",
+							success: false,
+							errorCategory: "validation",
+						},
+						{
+							attempt: 2,
+							query: "{ rounds { id } }",
+							variables: "{}",
+							success: true,
+						},
+					],
+					latencyMs: 300,
+				}),
+			),
+		];
+		const report = buildReport(
+			{ workflow: "newQueryAnalysis", dataset: "test.jsonl", startedAt: "now" },
+			results,
+		);
+
+		expect(report.summary).toMatchObject({
+			items: 2,
+			successRate: 1,
+			firstTrySuccessRate: 0.5,
+			fixedRate: 0.5,
+			meanAttempts: 1.5,
+			validationErrorRate: 1 / 3,
+			correctnessRate: 1,
+			meanLatencyMs: 200,
+			p95LatencyMs: 300,
+			promptTokens: 200,
+		});
+		expect(report.byTag.lookup.items).toBe(1);
+		expect(report.byTag.rounds.items).toBe(2);
+	});
+
+	it("diffs against a previous report", () => {
+		const baseline = buildReport(
+			{
+				workflow: "newQueryAnalysis",
+				dataset: "test.jsonl",
+				startedAt: "before",
+			},
+			[
+				scoreItem(items[0], run()),
+				scoreItem(items[1], run({ success: false })),
+			],
+		);
+		const report = buildReport(
+			{
+				workflow: "newQueryAnalysis",
+				dataset: "test.jsonl",
+				startedAt: "after",
+			},
+			[
+				scoreItem(
+					items[0],
+					run({ response: JSON.stringify({ rounds: [{ chainId: 10 }] }) }),
+				),
+				scoreItem(items[1], run()),
+			],
+			baseline,
+		);
+
+		expect(report.diff).toMatchObject({
+			baseline: "before",
+			regressed: ["arbitrum"],
+			fixed: ["fixed"],
+			summary: { correctnessRate: { baseline: 1, current: 0, delta: -1 } },
+		});
+		expect(renderMarkdownReport(report)).toContain(
+			"| Correct answers | 0.0% | 100.0% | -100.0 pts |",
+		);
+	});
+});
@@ -0,0 +1,96 @@
+import * as fs from "node:fs";
+import { z } from "zod";
+
+/**
+ * Check on the response data. The path is a dot path into the data, where `*`
+ * matches every item of a list, e.g. `rounds.*.chainId`. Every value the path
+ * resolves to must pass every condition given.
+ */
+export const dataAssertion = z.object({
+	path: z.string(),
+	exists: z
+		.boolean()
+		.optional()
+		.describe("Whether the path must resolve to a value, defaults to true"),
+	equals: z.unknown().optional(),
+	oneOf: z.array(z.unknown()).optional(),
+	matches: z.string().optional().describe("Regular expression"),
+	minLength: z.number().int().optional(),
+	maxLength: z.number().int().optional(),
+});
+
+export type DataAssertion = z.infer<typeof dataAssertion>;
+
+/**
+ * Shape the final query must have, independent of formatting and aliases
+ */
+export const expectedQueryShape = z.object({
+	rootFields: z
+		.array(z.string())
+		.optional()
+		.describe("Top-level fields the query must select"),
+	fields: z
+		.array(z.string())
+		.optional()
+		.describe("Field paths the query must select, e.g. rounds.applications.id"),
+	variables: z
+		.record(z.unknown())
+		.optional()
+		.describe("Variable values the query must be sent with"),
+});
+
+export type ExpectedQueryShape = z.infer<typeof expectedQueryShape>;
+
+export const evalItem = z.object({
+	id: z.string(),
+	prompt: z.string(),
+	endpointId: z.string().optional(),
+	tags: z.array(z.string()).default([]),
+	expectedQuery: expectedQueryShape.optional(),
+	assertions: z.array(dataAssertion).optional(),
+});
+
+export type EvalItem = z.infer<typeof evalItem>;
+
+/**
+ * Reads a JSONL dataset with one eval item per line; blank lines are skipped
+ *
+ * @param file Path to the dataset
+ * @throws Error naming the line of the first invalid item
+ */
+export function readDataset(file: string): EvalItem[] {
+	const lines = fs.readFileSync(file, "utf-8").split("\n");
+	const items: EvalItem[] = [];
+	const ids = new Set<string>();
+
+	lines.forEach((line, index) => {
+		if (!line.trim()) {
+			return;
+		}
+		let json: unknown;
+		try {
+			json = JSON.parse(line);
+		} catch (error) {
+			throw new Error(
+				`Invalid JSON on line ${index + 1} of ${file}: ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+		const result = evalItem.safeParse(json);
+		if (!result.success) {
+			throw new Error(
+				`Invalid eval item on line ${index + 1} of ${file}: ${result.error.issues
+					.map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+					.join("; ")}`,
+			);
+		}
+		if (ids.has(result.data.id)) {
+			throw new Error(
+				`Duplicate eval item id "${result.data.id}" on line ${index + 1} of ${file}`,
+			);
+		}
+		ids.add(result.data.id);
+		items.push(result.data);
+	});
+
+	return items;
+}
@@ -0,0 +1,126 @@
+import type { EvalMetrics, EvalReport, MetricDiff } from "./scoring";
+
+const RATE_METRICS = new Set<keyof EvalMetrics>([
+	"successRate",
+	"firstTrySuccessRate",
+	"fixedRate",
+	"validationErrorRate",
+	"correctnessRate",
+]);
+
+const COST_METRICS = new Set<keyof EvalMetrics>(["costUsd", "meanCostUsd"]);
+
+const METRIC_LABELS: Record<keyof EvalMetrics, string> = {
+	items: "Items",
+	successRate: "Success",
+	firstTrySuccessRate: "First-try success",
+	fixedRate: "Success after fixes",
+	meanAttempts: "Mean attempts",
+	validationErrorRate: "Validation error rate",
+	correctnessRate: "Correct answers",
+	meanLatencyMs: "Mean latency (ms)",
+	p95LatencyMs: "p95 latency (ms)",
+	promptTokens: "Prompt tokens",
+	completionTokens: "Completion tokens",
+	meanTotalTokens: "Mean tokens per item",
+	costUsd: "Estimated cost (USD)",
+	meanCostUsd: "Mean cost per item (USD)",
+};
+
+function formatMetric(key: keyof EvalMetrics, value?: number): string {
+	if (value === undefined) {
+		return "–";
+	}
+	if (RATE_METRICS.has(key)) {
+		return `${(value * 100).toFixed(1)}%`;
+	}
+	if (COST_METRICS.has(key)) {
+		return value.toFixed(4);
+	}
+	return Number.isInteger(value) ? String(value) : value.toFixed(1);
+}
+
+function formatDelta(key: keyof EvalMetrics, diff?: MetricDiff): string {
+	if (diff?.delta === undefined) {
+		return "–";
+	}
+	const sign = diff.delta > 0 ? "+" : "";
+	return RATE_METRICS.has(key)
+		? `${sign}${(diff.delta * 100).toFixed(1)} pts`
+		: `${sign}${formatMetric(key, diff.delta)}`;
+}
+
+function escapeCell(value: string): string {
+	return value.replace(/\|/g, "\\|").replace(/\n/g, " ");
+}
+
+/**
+ * Renders a report as Markdown: the summary (with deltas against the baseline,
+ * if any), a per-tag breakdown and one row per item
+ */
+export function renderMarkdownReport(report: EvalReport): string {
+	const metrics = Object.keys(METRIC_LABELS) as (keyof EvalMetrics)[];
+	const lines = [
+		`# Eval report: ${report.workflow}`,
+		"",
+		`Dataset \`${report.dataset}\`, started ${report.startedAt}.`,
+		"",
+		"## Summary",
+		"",
+	];
+
+	if (report.diff) {
+		const { diff } = report;
+		lines.push(
+			`| Metric | Current | Baseline (${diff.baseline}) | Change |`,
+			"| --- | --- | --- | --- |",
+			...metrics.map(
+				(key) =>
+					`| ${METRIC_LABELS[key]} | ${formatMetric(key, report.summary[key])} | ${formatMetric(key, diff.summary[key]?.baseline)} | ${formatDelta(key, diff.summary[key])} |`,
+			),
+			"",
+			`Regressed: ${diff.regressed.length ? diff.regressed.join(", ") : "none"}`,
+			"",
+			`Fixed: ${diff.fixed.length ? diff.fixed.join(", ") : "none"}`,
+		);
+	} else {
+		lines.push(
+			"| Metric | Value |",
+			"| --- | --- |",
+			...metrics.map(
+				(key) =>
+					`| ${METRIC_LABELS[key]} | ${formatMetric(key, report.summary[key])} |`,
+			),
+		);
+	}
+
+	const tags = Object.entries(report.byTag);
+	if (tags.length > 0) {
+		lines.push(
+			"",
+			"## By tag",
+			"",
+			"| Tag | Items | Success | First-try | Correct | Mean attempts | Mean latency (ms) | Mean tokens | Mean cost (USD) |",
+			"| --- | --- | --- | --- | --- | --- | --- | --- | --- |",
+			...tags.map(
+				([tag, metrics]) =>
+					`| ${tag} | ${metrics.items} | ${formatMetric("successRate", metrics.successRate)} | ${formatMetric("firstTrySuccessRate", metrics.firstTrySuccessRate)} | ${formatMetric("correctnessRate", metrics.correctnessRate)} | ${formatMetric("meanAttempts", metrics.meanAttempts)} | ${formatMetric("meanLatencyMs", metrics.meanLatencyMs)} | ${formatMetric("meanTotalTokens", metrics.meanTotalTokens)} | ${formatMetric("meanCostUsd", metrics.meanCostUsd)} |`,
+			),
+		);
+	}
+
+	lines.push(
+		"",
+		"## Items",
+		"",
+		"| Item | Tags | Success | Attempts | Correct | Latency (ms) | Tokens | Cost (USD) | Models | Notes |",
+		"| --- | --- | --- | --- | --- | --- | --- | --- | --- | --- |",
+		...report.items.map((item) => {
+			const notes = [item.error, ...item.failures].filter(Boolean).join("; ");
+			return `| ${item.id} | ${item.tags.join(", ")} | ${item.success ? (item.firstTrySuccess ? "first try" : "after fixes") : "no"} | ${item.attempts} | ${item.correct === undefined ? "–" : item.correct ? "yes" : "no"} | ${Math.round(item.latencyMs)} | ${item.usage.totalTokens} | ${formatMetric("costUsd", item.costUsd)} | ${escapeCell(item.models.join(", ")) || "–"} | ${escapeCell(notes)} |`;
+		}),
+		"",
+	);
+
+	return lines.join("\n");
+}
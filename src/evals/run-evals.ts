@@ -0,0 +1,86 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { fileURLToPath } from "node:url";
+import { logger } from "../embed/utils";
+import { readDataset } from "./dataset";
+import { renderMarkdownReport } from "./report";
+import { type EvalWorkflowName, evalWorkflows, runEvals } from "./runner";
+import { type EvalReport, buildReport } from "./scoring";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const DEFAULT_DATASET = path.join(
+	__dirname,
+	"datasets",
+	"gitcoin-indexer.jsonl",
+);
+const DEFAULT_OUTPUT_DIR = path.join(process.cwd(), ".cache", "evals");
+
+function getArgument(name: string): string | undefined {
+	return process.argv
+		.find((arg) => arg.startsWith(`--${name}=`))
+		?.split("=")
+		.slice(1)
+		.join("=");
+}
+
+/**
+ * Runs a dataset through a workflow and writes JSON and Markdown reports.
+ * Set FIXTURE_MODE and FIXTURE_FILE to record a run, or to replay one offline.
+ *
+ * Usage: pnpm eval [--dataset=file] [--workflow=newQueryAnalysis] [--tag=tag] [--baseline=report.json] [--out=dir]
+ */
+async function main() {
+	const datasetFile = getArgument("dataset") ?? DEFAULT_DATASET;
+	const workflow = (getArgument("workflow") ??
+		"newQueryAnalysis") as EvalWorkflowName;
+	const tag = getArgument("tag");
+	const baselineFile = getArgument("baseline");
+	const outputDir = getArgument("out") ?? DEFAULT_OUTPUT_DIR;
+
+	if (!(workflow in evalWorkflows)) {
+		logger.error(
+			`Unknown workflow "${workflow}". Known workflows: ${Object.keys(evalWorkflows).join(", ")}`,
+		);
+		process.exit(1);
+	}
+
+	const items = readDataset(datasetFile).filter(
+		(item) => !tag || item.tags.includes(tag),
+	);
+	const baseline = baselineFile
+		? (JSON.parse(fs.readFileSync(baselineFile, "utf-8")) as EvalReport)
+		: undefined;
+
+	const startedAt = new Date().toISOString();
+	logger.info(`Evaluating ${workflow} on ${items.length} item(s)...`);
+	const results = await runEvals(workflow, items, (result, index) => {
+		logger.info(
+			`[${index + 1}/${items.length}] ${result.id}: ${result.success ? "success" : "failure"} after ${result.attempts} attempt(s)${result.correct === false ? `, incorrect (${result.failures.join("; ")})` : ""}`,
+		);
+	});
+
+	const report = buildReport(
+		{ workflow, dataset: path.relative(process.cwd(), datasetFile), startedAt },
+		results,
+		baseline,
+	);
+	const markdown = renderMarkdownReport(report);
+
+	fs.mkdirSync(outputDir, { recursive: true });
+	const name = `${workflow}-${startedAt.replace(/[:.]/g, "-")}`;
+	fs.writeFileSync(
+		path.join(outputDir, `${name}.json`),
+		JSON.stringify(report, null, 2),
+	);
+	fs.writeFileSync(path.join(outputDir, `${name}.md`), markdown);
+
+	console.log(markdown);
+	logger.info(`Reports written to ${path.join(outputDir, name)}.{json,md}`);
+}
+
+main().catch((err) => {
+	console.error("Unhandled error in main:", err);
+	process.exit(1);
+});
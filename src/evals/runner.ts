@@ -0,0 +1,141 @@
+import type { z } from "zod";
+import type { QueryAttempt } from "../mastra/steps/attempts";
+import type { analysisData, queryOutput } from "../mastra/steps/types";
+import { type TokenUsage, onUsage } from "../mastra/usage";
+import { priceUsage } from "../mastra/usage/ledger";
+import { newQueryAnalysis } from "../mastra/workflows";
+import { graphqlAnalysis1 } from "../mastra/workflows/graphql-execution-1";
+import type { EvalItem } from "./dataset";
+import { type EvalItemResult, type EvalRun, scoreItem } from "./scoring";
+
+type StepResults = Record<string, { status: string; output?: unknown }>;
+
+type WorkflowStarter = (triggerData: {
+	prompt: string;
+	endpointId?: string;
+}) => Promise<{ results: StepResults }>;
+
+/**
+ * Workflows that can be evaluated: both take a prompt and end in analyzeQuery
+ */
+export const evalWorkflows = {
+	newQueryAnalysis: (triggerData) =>
+		newQueryAnalysis.createRun().start({ triggerData }),
+	graphqlAnalysis1: (triggerData) =>
+		graphqlAnalysis1.createRun().start({ triggerData }),
+} satisfies Record<string, WorkflowStarter>;
+
+export type EvalWorkflowName = keyof typeof evalWorkflows;
+
+// Steps that produce a query result, most recent first
+const QUERY_STEPS = ["retryQuery", "fixQuery", "executeQuery", "generateQuery"];
+
+function stepOutput<T>(results: StepResults, id: string): T | undefined {
+	const result = results[id];
+	return result?.status === "success" ? (result.output as T) : undefined;
+}
+
+/**
+ * Runs a workflow for one eval item, timing it and collecting token usage, its
+ * estimated cost and the models that answered
+ */
+export async function runEvalItem(
+	workflow: EvalWorkflowName,
+	item: EvalItem,
+): Promise<EvalRun> {
+	const usage: TokenUsage = {
+		promptTokens: 0,
+		completionTokens: 0,
+		totalTokens: 0,
+	};
+	let costUsd = 0;
+	const models = new Set<string>();
+	const stopListening = onUsage((record) => {
+		usage.promptTokens += record.promptTokens;
+		usage.completionTokens += record.completionTokens;
+		usage.totalTokens += record.totalTokens;
+		costUsd += priceUsage(record).costUsd ?? 0;
+		if (record.model) {
+			models.add(record.model);
+		}
+	});
+	const startedAt = performance.now();
+
+	try {
+		const { results } = await evalWorkflows[workflow]({
+			prompt: item.prompt,
+			endpointId: item.endpointId,
+		});
+		const latencyMs = performance.now() - startedAt;
+
+		const analysis = stepOutput<z.infer<typeof analysisData>>(
+			results,
+			"analyzeQuery",
+		);
+		const latest = QUERY_STEPS.map((id) =>
+			stepOutput<z.infer<typeof queryOutput>>(results, id),
+		).find(Boolean);
+		const attempts: QueryAttempt[] =
+			analysis?.attempts ??
+			latest?.attempts ??
+			(latest
+				? [
+						{
+							attempt: 1,
+							query: latest.query,
+							variables: latest.variables,
+							success: latest.success,
+							error: latest.errors,
+							errorCategory: latest.errorCategory,
+						},
+					]
+				: []);
+
+		return {
+			attempts,
+			success: latest?.success ?? false,
+			query: latest?.query,
+			variables: latest?.variables,
+			response: latest?.response,
+			latencyMs,
+			usage,
+			costUsd,
+			models: [...models],
+			error: latest ? undefined : "The workflow produced no query",
+		};
+	} catch (error) {
+		return {
+			attempts: [],
+			success: false,
+			latencyMs: performance.now() - startedAt,
+			usage,
+			costUsd,
+			models: [...models],
+			error: error instanceof Error ? error.message : String(error),
+		};
+	} finally {
+		stopListening();
+	}
+}
+
+/**
+ * Runs and scores every item in turn. Items run one at a time so latency and
+ * token usage can be attributed to each.
+ *
+ * @param workflow Workflow to evaluate
+ * @param items Dataset items
+ * @param onResult Called after each item, e.g. to report progress
+ */
+export async function runEvals(
+	workflow: EvalWorkflowName,
+	items: EvalItem[],
+	onResult?: (result: EvalItemResult, index: number) => void,
+): Promise<EvalItemResult[]> {
+	const results: EvalItemResult[] = [];
+	for (const [index, item] of items.entries()) {
+		const result = scoreItem(item, await runEvalItem(workflow, item));
+		results.push(result);
+		onResult?.(result, index);
+	}
+	return results;
+}
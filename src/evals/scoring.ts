@@ -0,0 +1,469 @@
+import { isDeepStrictEqual } from "node:util";
+import {
+	type FragmentDefinitionNode,
+	Kind,
+	type OperationDefinitionNode,
+	type SelectionSetNode,
+	parse,
+} from "graphql";
+import type { QueryAttempt } from "../mastra/steps/attempts";
+import type { TokenUsage } from "../mastra/usage";
+import type { DataAssertion, EvalItem, ExpectedQueryShape } from "./dataset";
+
+/**
+ * What a workflow run produced for one eval item
+ */
+export interface EvalRun {
+	attempts: QueryAttempt[];
+	success: boolean;
+	/** Final query and its variables */
+	query?: string;
+	variables?: string;
+	/** Final response data as JSON */
+	response?: string;
+	latencyMs: number;
+	usage: TokenUsage;
+	/** Estimated cost in USD of the calls to priced models */
+	costUsd: number;
+	/** Models that answered, in the order they were first used */
+	models: string[];
+	/** Set when the workflow itself failed */
+	error?: string;
+}
+
+export interface EvalItemResult {
+	id: string;
+	tags: string[];
+	success: boolean;
+	firstTrySuccess: boolean;
+	attempts: number;
+	validationErrors: number;
+	/** Whether the query shape and data assertions held; unset when the item has none */
+	correct?: boolean;
+	failures: string[];
+	latencyMs: number;
+	usage: TokenUsage;
+	costUsd: number;
+	models: string[];
+	query?: string;
+	error?: string;
+}
+
+export interface EvalMetrics {
+	items: number;
+	successRate: number;
+	firstTrySuccessRate: number;
+	/** Share of items that only succeeded after fixes */
+	fixedRate: number;
+	meanAttempts: number;
+	/** Share of attempts rejected by validation */
+	validationErrorRate: number;
+	/** Share of checked items whose checks held */
+	correctnessRate?: number;
+	meanLatencyMs: number;
+	p95LatencyMs: number;
+	promptTokens: number;
+	completionTokens: number;
+	meanTotalTokens: number;
+	costUsd: number;
+	meanCostUsd: number;
+}
+
+export interface MetricDiff {
+	baseline?: number;
+	current?: number;
+	delta?: number;
+}
+
+export interface EvalDiff {
+	baseline: string;
+	summary: Partial<Record<keyof EvalMetrics, MetricDiff>>;
+	/** Items that passed in the baseline and fail now */
+	regressed: string[];
+	/** Items that failed in the baseline and pass now */
+	fixed: string[];
+}
+
+export interface EvalReport {
+	workflow: string;
+	dataset: string;
+	startedAt: string;
+	summary: EvalMetrics;
+	byTag: Record<string, EvalMetrics>;
+	items: EvalItemResult[];
+	diff?: EvalDiff;
+}
+
+/**
+ * Resolves a dot path with `*` wildcards to every value it reaches
+ */
+function resolvePath(data: unknown, path: string): unknown[] {
+	let values = [data];
+	for (const segment of path.split(".").filter(Boolean)) {
+		values = values.flatMap((value) => {
+			if (value === null || typeof value !== "object") {
+				return [];
+			}
+			if (segment === "*") {
+				return Array.isArray(value) ? value : Object.values(value);
+			}
+			return [(value as Record<string, unknown>)[segment]];
+		});
+	}
+	return values;
+}
+
+/**
+ * Checks data assertions against the response data
+ *
+ * @returns A description of every assertion that failed
+ */
+export function checkAssertions(
+	data: unknown,
+	assertions: DataAssertion[],
+): string[] {
+	const failures: string[] = [];
+	for (const assertion of assertions) {
+		const { path } = assertion;
+		const values = resolvePath(data, path).filter(
+			(value) => value !== undefined,
+		);
+
+		if (assertion.exists === false) {
+			if (values.length > 0) {
+				failures.push(`${path}: expected no value`);
+			}
+			continue;
+		}
+		if (values.length === 0) {
+			failures.push(`${path}: no value found`);
+			continue;
+		}
+
+		for (const value of values) {
+			const shown = JSON.stringify(value);
+			if (
+				assertion.equals !== undefined &&
+				!isDeepStrictEqual(value, assertion.equals)
+			) {
+				failures.push(
+					`${path}: expected ${JSON.stringify(assertion.equals)}, got ${shown}`,
+				);
+			}
+			if (
+				assertion.oneOf &&
+				!assertion.oneOf.some((option) => isDeepStrictEqual(value, option))
+			) {
+				failures.push(
+					`${path}: expected one of ${JSON.stringify(assertion.oneOf)}, got ${shown}`,
+				);
+			}
+			if (
+				assertion.matches &&
+				!new RegExp(assertion.matches).test(String(value))
+			) {
+				failures.push(
+					`${path}: ${shown} does not match /${assertion.matches}/`,
+				);
+			}
+			const length =
+				Array.isArray(value) || typeof value === "string"
+					? value.length
+					: undefined;
+			if (
+				assertion.minLength !== undefined &&
+				(length === undefined || length < assertion.minLength)
+			) {
+				failures.push(
+					`${path}: expected at least ${assertion.minLength} items, got ${length ?? shown}`,
+				);
+			}
+			if (
+				assertion.maxLength !== undefined &&
+				(length === undefined || length > assertion.maxLength)
+			) {
+				failures.push(
+					`${path}: expected at most ${assertion.maxLength} items, got ${length ?? shown}`,
+				);
+			}
+		}
+	}
+	return failures;
+}
+
+/**
+ * Collects the field paths a query selects, following fragments and ignoring aliases
+ */
+function collectFieldPaths(query: string): Set<string> {
+	const document = parse(query);
+	const fragments = new Map<string, FragmentDefinitionNode>();
+	for (const definition of document.definitions) {
+		if (definition.kind === Kind.FRAGMENT_DEFINITION) {
+			fragments.set(definition.name.value, definition);
+		}
+	}
+
+	const paths = new Set<string>();
+	const walk = (
+		selectionSet: SelectionSetNode,
+		prefix: string,
+		visited: Set<string>,
+	) => {
+		for (const selection of selectionSet.selections) {
+			if (selection.kind === Kind.FIELD) {
+				const path = prefix
+					? `${prefix}.${selection.name.value}`
+					: selection.name.value;
+				paths.add(path);
+				if (selection.selectionSet) {
+					walk(selection.selectionSet, path, visited);
+				}
+			} else if (selection.kind === Kind.INLINE_FRAGMENT) {
+				walk(selection.selectionSet, prefix, visited);
+			} else {
+				const fragment = fragments.get(selection.name.value);
+				if (fragment && !visited.has(fragment.name.value)) {
+					walk(
+						fragment.selectionSet,
+						prefix,
+						new Set([...visited, fragment.name.value]),
+					);
+				}
+			}
+		}
+	};
+
+	const operation = document.definitions.find(
+		(definition): definition is OperationDefinitionNode =>
+			definition.kind === Kind.OPERATION_DEFINITION,
+	);
+	if (operation) {
+		walk(operation.selectionSet, "", new Set());
+	}
+	return paths;
+}
+
+/**
+ * Checks the final query against the expected shape
+ *
+ * @returns A description of every expectation that failed
+ */
+export function checkQueryShape(
+	query: string,
+	variables: string,
+	expected: ExpectedQueryShape,
+): string[] {
+	let paths: Set<string>;
+	try {
+		paths = collectFieldPaths(query);
+	} catch (error) {
+		return [
+			`Query does not parse: ${error instanceof Error ? error.message : String(error)}`,
+		];
+	}
+
+	const failures: string[] = [];
+	for (const field of [
+		...(expected.rootFields ?? []),
+		...(expected.fields ?? []),
+	]) {
+		if (!paths.has(field)) {
+			failures.push(`Query does not select ${field}`);
+		}
+	}
+
+	if (expected.variables) {
+		let actual: Record<string, unknown> = {};
+		try {
+			actual = JSON.parse(variables || "{}");
+		} catch {}
+		for (const [name, value] of Object.entries(expected.variables)) {
+			if (!isDeepStrictEqual(actual[name], value)) {
+				failures.push(
+					`Variable $${name}: expected ${JSON.stringify(value)}, got ${JSON.stringify(actual[name])}`,
+				);
+			}
+		}
+	}
+	return failures;
+}
+
+/**
+ * Scores one workflow run against its eval item
+ */
+export function scoreItem(item: EvalItem, run: EvalRun): EvalItemResult {
+	const checked = !!(item.expectedQuery || item.assertions?.length);
+	const failures: string[] = [];
+
+	if (checked) {
+		if (!run.success || !run.query) {
+			failures.push("No query succeeded");
+		} else {
+			if (item.expectedQuery) {
+				failures.push(
+					...checkQueryShape(
+						run.query,
+						run.variables ?? "{}",
+						item.expectedQuery,
+					),
+				);
+			}
+			if (item.assertions?.length) {
+				let data: unknown;
+				try {
+					data = JSON.parse(run.response ?? "null");
+				} catch {
+					failures.push("Response is not valid JSON");
+				}
+				failures.push(...checkAssertions(data, item.assertions));
+			}
+		}
+	}
+
+	return {
+		id: item.id,
+		tags: item.tags,
+		success: run.success,
+		firstTrySuccess: run.attempts[0]?.success ?? false,
+		attempts: run.attempts.length,
+		validationErrors: run.attempts.filter(
+			(attempt) => attempt.errorCategory === "validation",
+		).length,
+		correct: checked ? failures.length === 0 : undefined,
+		failures,
+		latencyMs: run.latencyMs,
+		usage: run.usage,
+		costUsd: run.costUsd,
+		models: run.models,
+		query: run.query,
+		error: run.error,
+	};
+}
+
+function mean(values: number[]): number {
+	return values.length
+		? values.reduce((sum, value) => sum + value, 0) / values.length
+		: 0;
+}
+
+function percentile(values: number[], fraction: number): number {
+	if (values.length === 0) {
+		return 0;
+	}
+	const sorted = [...values].sort((a, b) => a - b);
+	return sorted[
+		Math.min(sorted.length - 1, Math.ceil(fraction * sorted.length) - 1)
+	];
+}
+
+/**
+ * Aggregates item results into rates and totals
+ */
+export function summarize(results: EvalItemResult[]): EvalMetrics {
+	const rate = (predicate: (result: EvalItemResult) => boolean) =>
+		results.length ? results.filter(predicate).length / results.length : 0;
+	const checked = results.filter((result) => result.correct !== undefined);
+	const attempts = results.reduce((sum, result) => sum + result.attempts, 0);
+	const latencies = results.map((result) => result.latencyMs);
+
+	return {
+		items: results.length,
+		successRate: rate((result) => result.success),
+		firstTrySuccessRate: rate((result) => result.firstTrySuccess),
+		fixedRate: rate((result) => result.success && !result.firstTrySuccess),
+		meanAttempts: mean(results.map((result) => result.attempts)),
+		validationErrorRate: attempts
+			? results.reduce((sum, result) => sum + result.validationErrors, 0) /
+				attempts
+			: 0,
+		correctnessRate: checked.length
+			? checked.filter((result) => result.correct).length / checked.length
+			: undefined,
+		meanLatencyMs: mean(latencies),
+		p95LatencyMs: percentile(latencies, 0.95),
+		promptTokens: results.reduce(
+			(sum, result) => sum + result.usage.promptTokens,
+			0,
+		),
+		completionTokens: results.reduce(
+			(sum, result) => sum + result.usage.completionTokens,
+			0,
+		),
+		meanTotalTokens: mean(results.map((result) => result.usage.totalTokens)),
+		costUsd: results.reduce((sum, result) => sum + result.costUsd, 0),
+		meanCostUsd: mean(results.map((result) => result.costUsd)),
+	};
+}
+
+/**
+ * An item passes when it succeeded and, if it has checks, they held
+ */
+function passed(result: EvalItemResult): boolean {
+	return result.success && result.correct !== false;
+}
+
+/**
+ * Compares a report with an earlier one: metric deltas, and the items that
+ * started or stopped passing
+ */
+export function diffReports(
+	current: EvalReport,
+	baseline: EvalReport,
+): EvalDiff {
+	const summary: EvalDiff["summary"] = {};
+	for (const key of Object.keys(current.summary) as (keyof EvalMetrics)[]) {
+		const before = baseline.summary[key];
+		const after = current.summary[key];
+		summary[key] = {
+			baseline: before,
+			current: after,
+			delta:
+				before !== undefined && after !== undefined
+					? after - before
+					: undefined,
+		};
+	}
+
+	const previous = new Map(baseline.items.map((item) => [item.id, item]));
+	const regressed: string[] = [];
+	const fixed: string[] = [];
+	for (const item of current.items) {
+		const before = previous.get(item.id);
+		if (!before) {
+			continue;
+		}
+		if (passed(before) && !passed(item)) {
+			regressed.push(item.id);
+		} else if (!passed(before) && passed(item)) {
+			fixed.push(item.id);
+		}
+	}
+
+	return { baseline: baseline.startedAt, summary, regressed, fixed };
+}
+
+/**
+ * Builds a report with an overall summary and one per tag
+ */
+export function buildReport(
+	meta: Pick<EvalReport, "workflow" | "dataset" | "startedAt">,
+	results: EvalItemResult[],
+	baseline?: EvalReport,
+): EvalReport {
+	const tags = [...new Set(results.flatMap((result) => result.tags))].sort();
+	const report: EvalReport = {
+		...meta,
+		summary: summarize(results),
+		byTag: Object.fromEntries(
+			tags.map((tag) => [
+				tag,
+				summarize(results.filter((result) => result.tags.includes(tag))),
+			]),
+		),
+		items: results,
+	};
+	if (baseline) {
+		report.diff = diffReports(report, baseline);
+	}
+	return report;
+}
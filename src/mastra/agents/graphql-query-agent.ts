@@ -1,12 +1,14 @@
-import { openai } from "@ai-sdk/openai";
 import { Agent } from "@mastra/core/agent";
 import { Memory } from "@mastra/memory";
+import { createRoleModel } from "../config/models";
+import { listGraphQLEndpoints } from "../tools";
 import {
 	fixQueryAnalysisTool,
 	newQueryAnalysisTool,
 } from "../tools/workflow-tools";
 
 const tools = {
+	listGraphQLEndpoints,
 	newQueryAnalysis: newQueryAnalysisTool,
 	fixQueryAnalysis: fixQueryAnalysisTool,
 } as const;
@@ -20,16 +22,21 @@ You are an expert GraphQL query agent tasked with analyzing and executed GraphQL
 
 Follow these steps:
 
+0. ENDPOINT SELECTION:
+   - Use listGraphQLEndpoints to see which GraphQL APIs are available
+   - Pick the endpoint whose name and description match the question and pass its id as endpointId to the other tools
+   - If only one endpoint is registered, use it without asking
+   - If the question could be answered by more than one endpoint, or by none of them, ask the user which endpoint to use before querying
+
 1. INITIAL QUERY ANALYSIS:
    - Always start with newQueryAnalysis tool
    - This tool will: attempt to generate a graphql query based on the prompt then provide a concise explanation of the output.
 
-2. QUERY FIXING AND RETRY LOGIC:
-   - If the initial query analysis fails, use fixQueryAnalysis tool
-   - Continue using fixQueryAnalysis up to 5 times if needed
-   - For each retry:
-     * Use the previous error information to improve the query
-     * Only proceed if the analysis is successful
+2. QUERY FIXING:
+   - newQueryAnalysis already retries failed queries on its own and returns the trail of attempts and their errors
+   - Only use fixQueryAnalysis when you are given a specific failed query to repair
+   - Never use fixQueryAnalysis when errorCategory is network, rate_limit, server or endpoint: those failures come from the endpoint or its configuration, not the query
+   - Do not call the tools again in a loop; report the attempt trail instead when no query succeeded
 
 3. SUCCESS CRITERIA:
    - A query is considered successful when:
@@ -37,17 +44,15 @@ Follow these steps:
      * No syntax or schema validation errors are present
 
 4. ERROR HANDLING:
-   - Track the number of retry attempts
-   - Stop after 5 unsuccessful attempts
-   - Provide detailed error information for debugging
-   - Explain why each retry failed and what was changed
+   - When every attempt failed, summarize the errors from the attempt trail for debugging
+   - Explain what changed between attempts and why each one failed
 
 Remember to:
 - Always ensure that the query is executed
 - When you receive a successful response analyze the data and return a concise response summarizing its values in the context of the original query
 - The final output must contain a query result and an explanation of the output
 `,
-	model: openai("o3-mini-2025-01-31"),
+	model: createRoleModel("router"),
 	tools,
 	memory,
 });
@@ -1,12 +1,6 @@
-import { anthropic } from "@ai-sdk/anthropic";
-import { deepseek } from "@ai-sdk/deepseek";
-import { openai } from "@ai-sdk/openai";
 import { Agent } from "@mastra/core/agent";
-import { createOpenRouter } from "@openrouter/ai-sdk-provider";
-
-const openrouter = createOpenRouter({
-	apiKey: process.env.OPENROUTER_API_KEY,
-});
+import { renderDomainContext } from "../config/domain-profile";
+import { createRoleModel } from "../config/models";
 
 export const gqlIntrospectAgent = new Agent({
 	name: "GraphQL Agent",
@@ -14,7 +8,7 @@ export const gqlIntrospectAgent = new Agent({
     You are an AI assistant tasked with generating GraphQL queries based on user questions, a provided GraphQL schema, and useful knowledge about the queried service.
     Your goal is to create a query that can be executed against a GraphQL server to answer the user's question.
     `,
-	model: openai("o3-mini-2025-01-31"),
+	model: createRoleModel("generator"),
 });
 
 export const gqlExecutionAgent = new Agent({
@@ -25,9 +19,7 @@ export const gqlExecutionAgent = new Agent({
 
     IMPORTANT: Only use known properties within your query
     `,
-	// model: openai("gpt-4.1-mini-2025-04-14"),
-	model: anthropic("claude-3-7-sonnet-20250219"),
-	// model: deepseek("deepseek-chat"),
+	model: createRoleModel("fixer"),
 });
 
 export const analysisAgent = new Agent({
@@ -36,7 +28,7 @@ export const analysisAgent = new Agent({
     You are an AI assistant tasked with generating a detailed response to a user's query.
     You will be given the user's original question, a graphql query, and an explanation of that query, and the query result. Answer the user's question to the best of your ability.
     `,
-	model: openai("o3-mini-2025-01-31"),
+	model: createRoleModel("analyst"),
 });
 
 export const gitcoinAgent = new Agent({
@@ -46,20 +38,14 @@ export const gitcoinAgent = new Agent({
   Your task is to analyze user queries, determine appropriate GraphQL queries,
   and provide insightful answers based on the data.
   
-  When querying data about the latest grants rounds you need to filter by chainId and roundId.
-  
-  Here is further context for the active GG23 rounds:
-  - All rounds are currently active on Arbitrum network which has a chainId of 42161.
-  - The dApps and Apps round has a roundId of 867
-  - The Web3 Infrastructure round has a roundId of 865
-  - The Developer Tooling and Libraries has a roundId of 863
+  ${renderDomainContext()}
   
   Remember to:
   - Always introspect the GraphQL schema first to understand available queries
   - Ensure that you pass the correct arguments to GraphQL requests
-  - Do not request the 'project.metadata.credentials' field as it contains sensitive information
+  - Never request the fields listed above
   - If a query fails, analyze why and adjust parameters to try again`,
-	model: openai("o3-mini-2025-01-31"),
+	model: createRoleModel("router"),
 });
 
 export { graphqlQueryAgent } from "./graphql-query-agent";
@@ -0,0 +1,77 @@
+import * as path from "node:path";
+import { describe, expect, it } from "vitest";
+import {
+	getDomainProfile,
+	loadDomainProfile,
+	loadDomainProfiles,
+	renderDomainContext,
+} from "../domain-profile";
+
+const profilesDir = path.join(__dirname, "../endpoints");
+const profilePath = path.join(profilesDir, "gitcoin-indexer.toml");
+
+describe("loadDomainProfile", () => {
+	it("resolves header variables and drops headers whose variables are unset", () => {
+		expect(
+			loadDomainProfile(profilePath, { API_TOKEN: "secret" }).endpoint.headers,
+		).toEqual({ Authorization: "Bearer secret" });
+		expect(loadDomainProfile(profilePath, {}).endpoint.headers).toEqual({});
+	});
+
+	it("expands variables with defaults in the endpoint url and index names", () => {
+		const profile = loadDomainProfile(profilePath, {});
+		expect(profile.endpoint.url).toBe(
+			"https://beta.indexer.gitcoin.co/v1/graphql",
+		);
+		expect(profile.indexes.docs).toBe("gitcoin_docs");
+
+		expect(
+			loadDomainProfile(profilePath, {
+				GITCOIN_INDEXER_API_URL: "http://localhost:8080/graphql",
+			}).endpoint.url,
+		).toBe("http://localhost:8080/graphql");
+	});
+
+	it("reads each index's retrieval settings", () => {
+		expect(loadDomainProfile(profilePath, {}).retrieval).toEqual({
+			types: { mode: "hybrid" },
+			docs: { mode: "hybrid", mmr_lambda: 0.7 },
+		});
+	});
+
+	it("reports missing profiles", () => {
+		expect(() => loadDomainProfile("missing.toml")).toThrow(
+			"Domain profile not found at missing.toml",
+		);
+	});
+});
+
+describe("loadDomainProfiles", () => {
+	it("registers every profile in the directory by id", () => {
+		const profiles = loadDomainProfiles(profilesDir, {});
+		expect([...profiles.keys()]).toContain("gitcoin-indexer");
+		expect(profiles.get("gitcoin-indexer")?.name).toBe(
+			"Gitcoin Grants Stack indexer",
+		);
+	});
+});
+
+describe("getDomainProfile", () => {
+	it("names the known endpoints when the id is unknown", () => {
+		expect(() => getDomainProfile("missing")).toThrow(
+			'Unknown GraphQL endpoint "missing". Known endpoints: gitcoin-indexer',
+		);
+	});
+});
+
+describe("renderDomainContext", () => {
+	it("renders entities, glossary and forbidden fields", () => {
+		const context = renderDomainContext(loadDomainProfile(profilePath, {}));
+
+		expect(context).toContain(
+			'- Web3 Infrastructure round (GG23 round on Arbitrum): roundId "865", chainId 42161',
+		);
+		expect(context).toContain("- GG23: Gitcoin Grants round 23");
+		expect(context).toContain("- Project.metadata.credentials");
+	});
+});
@@ -0,0 +1,125 @@
+import * as path from "node:path";
+import { APICallError, generateText } from "ai";
+import { MockLanguageModelV1 } from "ai/test";
+import { describe, expect, it, vi } from "vitest";
+import { createFallbackModel, loadModelRegistry } from "../models";
+
+const registryPath = path.join(__dirname, "../models.toml");
+
+function answeringModel(text: string) {
+	return new MockLanguageModelV1({
+		doGenerate: async () => ({
+			rawCall: { rawPrompt: null, rawSettings: {} },
+			finishReason: "stop",
+			usage: { promptTokens: 10, completionTokens: 5 },
+			text,
+		}),
+	});
+}
+
+function rateLimitedModel() {
+	return new MockLanguageModelV1({
+		doGenerate: async () => {
+			throw new APICallError({
+				message: "Rate limit reached",
+				url: "https://api.example.com",
+				requestBodyValues: {},
+				statusCode: 429,
+				isRetryable: false,
+			});
+		},
+	});
+}
+
+describe("loadModelRegistry", () => {
+	it("reads every role's models in order", () => {
+		const registry = loadModelRegistry(registryPath, {});
+		expect(registry.fixer.map((spec) => spec.id)).toEqual([
+			"anthropic:claude-3-7-sonnet-20250219",
+			"openai:gpt-4.1-mini-2025-04-14",
+			"deepseek:deepseek-chat",
+		]);
+		expect(registry.fixer[0]).toMatchObject({
+			provider: "anthropic",
+			model: "claude-3-7-sonnet-20250219",
+		});
+		expect(registry.embedder[0].id).toBe("openai:text-embedding-3-small");
+	});
+
+	it("replaces a role's models from the environment", () => {
+		const registry = loadModelRegistry(registryPath, {
+			MODEL_GENERATOR: "openrouter:openai/o3-mini, deepseek:deepseek-chat",
+		});
+		expect(registry.generator).toEqual([
+			{
+				provider: "openrouter",
+				model: "openai/o3-mini",
+				id: "openrouter:openai/o3-mini",
+			},
+			{
+				provider: "deepseek",
+				model: "deepseek-chat",
+				id: "deepseek:deepseek-chat",
+			},
+		]);
+	});
+
+	it("rejects unknown providers and malformed models", () => {
+		expect(() =>
+			loadModelRegistry(registryPath, { MODEL_ANALYST: "mistral:large" }),
+		).toThrow('roles.analyst.0: Unknown provider "mistral"');
+		expect(() =>
+			loadModelRegistry(registryPath, { MODEL_EMBEDDER: "anthropic:claude" }),
+		).toThrow('roles.embedder.0: Unknown provider "anthropic"');
+		expect(() =>
+			loadModelRegistry(registryPath, { MODEL_ROUTER: "o3-mini" }),
+		).toThrow('roles.router.0: Expected "provider:model", got "o3-mini"');
+	});
+
+	it("reports missing registries", () => {
+		expect(() => loadModelRegistry("missing.toml")).toThrow(
+			"Model registry not found at missing.toml",
+		);
+	});
+});
+
+describe("createFallbackModel", () => {
+	it("falls back to the next model and reports the one that answered", async () => {
+		vi.spyOn(console, "log").mockImplementation(() => {});
+		const model = createFallbackModel("fixer", [
+			{ id: "anthropic:claude", model: rateLimitedModel() },
+			{ id: "openai:gpt", model: answeringModel("{ rounds { id } }") },
+		]);
+
+		const result = await generateText({ model, prompt: "Fix the query" });
+
+		expect(result.text).toBe("{ rounds { id } }");
+		expect(result.response.modelId).toBe("openai:gpt");
+	});
+
+	it("throws the last error when every model fails", async () => {
+		vi.spyOn(console, "log").mockImplementation(() => {});
+		const model = createFallbackModel("fixer", [
+			{ id: "anthropic:claude", model: rateLimitedModel() },
+			{ id: "openai:gpt", model: rateLimitedModel() },
+		]);
+
+		await expect(
+			generateText({ model, prompt: "Fix the query", maxRetries: 0 }),
+		).rejects.toThrow("Rate limit reached");
+	});
+
+	it("uses tool mode for structured output when the models disagree", () => {
+		const model = createFallbackModel("fixer", [
+			{
+				id: "openai:o3-mini",
+				model: new MockLanguageModelV1({ defaultObjectGenerationMode: "json" }),
+			},
+			{
+				id: "anthropic:claude",
+				model: new MockLanguageModelV1({ defaultObjectGenerationMode: "tool" }),
+			},
+		]);
+		expect(model.defaultObjectGenerationMode).toBe("tool");
+	});
+});
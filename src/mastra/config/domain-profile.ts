@@ -0,0 +1,332 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { fileURLToPath } from "node:url";
+import * as toml from "toml";
+import { z } from "zod";
+
+// Fix for __dirname in ES modules
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const DEFAULT_PROFILES_DIR = path.join(__dirname, "endpoints");
+
+const retrievalSchema = z.object({
+	mode: z.enum(["vector", "hybrid"]).optional(),
+	candidates: z.number().int().positive().optional(),
+	rrf_k: z.number().positive().optional(),
+	text_search_config: z
+		.string()
+		.regex(/^\w+$/, 'Use a Postgres text search configuration, e.g. "english"')
+		.optional(),
+	rerank: z.enum(["none", "llm", "cross-encoder"]).optional(),
+	rerank_model: z.string().optional(),
+	mmr_lambda: z.number().min(0).max(1).optional(),
+});
+
+const domainProfileSchema = z.object({
+	id: z
+		.string()
+		.regex(/^[\w-]+$/, "Use letters, digits, dashes and underscores")
+		.optional(),
+	name: z.string(),
+	description: z.string().default(""),
+	notes: z.array(z.string()).default([]),
+	endpoint: z.object({
+		url: z.string(),
+		headers: z.record(z.string()).default({}),
+		schema_cache_ttl_ms: z.number().int().positive().optional(),
+		timeout_ms: z.number().int().positive().optional(),
+		max_retries: z.number().int().nonnegative().optional(),
+	}),
+	indexes: z
+		.object({
+			types: z.string().optional(),
+			docs: z.string().optional(),
+			docs_description: z.string().optional(),
+			successful_queries: z.string().optional(),
+		})
+		.default({}),
+	retrieval: z
+		.object({
+			types: retrievalSchema.optional(),
+			docs: retrievalSchema.optional(),
+		})
+		.default({}),
+	limits: z
+		.object({
+			max_depth: z.number().int().positive(),
+			max_nodes: z.number().int().positive(),
+			max_aliases: z.number().int().nonnegative(),
+			default_list_size: z.number().int().positive(),
+			auto_limit: z.number().int().positive(),
+		})
+		.partial()
+		.default({}),
+	entities: z
+		.array(
+			z.object({
+				name: z.string(),
+				description: z.string().optional(),
+				ids: z.record(z.union([z.string(), z.number()])),
+			}),
+		)
+		.default([]),
+	glossary: z.record(z.string()).default({}),
+	forbidden_fields: z
+		.array(z.object({ path: z.string(), reason: z.string().optional() }))
+		.default([]),
+	examples: z
+		.array(
+			z.object({
+				question: z.string(),
+				query: z.string().trim(),
+				variables: z.string().trim().default("{}"),
+			}),
+		)
+		.default([]),
+});
+
+export type DomainProfile = Omit<z.infer<typeof domainProfileSchema>, "id"> & {
+	id: string;
+};
+
+/**
+ * Replaces ${NAME} and ${NAME:-default} references with environment variables.
+ * Returns undefined when a variable without a default is not set.
+ */
+function expandEnv(
+	template: string,
+	env: NodeJS.ProcessEnv,
+): string | undefined {
+	let missing = false;
+	const value = template.replace(
+		/\$\{(\w+)(?::-([^}]*))?\}/g,
+		(_, variable: string, fallback?: string) => {
+			const replacement = env[variable] || fallback;
+			if (replacement === undefined) {
+				missing = true;
+			}
+			return replacement ?? "";
+		},
+	);
+	return missing ? undefined : value;
+}
+
+/**
+ * Resolves header templates, dropping headers that reference a variable which is not set
+ */
+function resolveHeaders(
+	headers: Record<string, string>,
+	env: NodeJS.ProcessEnv,
+): Record<string, string> {
+	const resolved: Record<string, string> = {};
+	for (const [name, template] of Object.entries(headers)) {
+		const value = expandEnv(template, env);
+		if (value !== undefined) {
+			resolved[name] = value;
+		}
+	}
+	return resolved;
+}
+
+/**
+ * Resolves a setting that must be present, failing when it references an unset variable
+ */
+function resolveRequired(
+	template: string,
+	setting: string,
+	profilePath: string,
+	env: NodeJS.ProcessEnv,
+): string {
+	const value = expandEnv(template, env);
+	if (value === undefined) {
+		throw new Error(
+			`Invalid domain profile ${profilePath}: ${setting} references an unset environment variable`,
+		);
+	}
+	return value;
+}
+
+/**
+ * Loads and validates a domain profile from a TOML file
+ *
+ * @param profilePath Path to the profile
+ * @param env Environment used to resolve header values
+ */
+export function loadDomainProfile(
+	profilePath: string,
+	env: NodeJS.ProcessEnv = process.env,
+): DomainProfile {
+	let parsed: unknown;
+	try {
+		parsed = toml.parse(fs.readFileSync(profilePath, "utf-8"));
+	} catch (error) {
+		if (
+			error instanceof Error &&
+			"code" in error &&
+			(error as NodeJS.ErrnoException).code === "ENOENT"
+		) {
+			throw new Error(`Domain profile not found at ${profilePath}`);
+		}
+		throw new Error(
+			`Error parsing domain profile ${profilePath}: ${error instanceof Error ? error.message : String(error)}`,
+		);
+	}
+
+	const result = domainProfileSchema.safeParse(parsed);
+	if (!result.success) {
+		throw new Error(
+			`Invalid domain profile ${profilePath}: ${result.error.issues
+				.map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+				.join("; ")}`,
+		);
+	}
+
+	const { endpoint, indexes } = result.data;
+	const url = resolveRequired(endpoint.url, "endpoint.url", profilePath, env);
+	if (!z.string().url().safeParse(url).success) {
+		throw new Error(
+			`Invalid domain profile ${profilePath}: endpoint.url: Invalid url "${url}"`,
+		);
+	}
+
+	const resolvedIndexes: DomainProfile["indexes"] = { ...indexes };
+	for (const key of ["types", "docs", "successful_queries"] as const) {
+		const template = indexes[key];
+		if (template !== undefined) {
+			resolvedIndexes[key] = resolveRequired(
+				template,
+				`indexes.${key}`,
+				profilePath,
+				env,
+			);
+		}
+	}
+
+	return {
+		...result.data,
+		id: result.data.id ?? path.basename(profilePath, path.extname(profilePath)),
+		endpoint: {
+			...endpoint,
+			url,
+			headers: resolveHeaders(endpoint.headers, env),
+		},
+		indexes: resolvedIndexes,
+	};
+}
+
+/**
+ * Loads every TOML profile in a directory, keyed by endpoint id
+ *
+ * @param profilesDir Directory holding one profile per endpoint
+ * @param env Environment used to resolve profile values
+ */
+export function loadDomainProfiles(
+	profilesDir: string,
+	env: NodeJS.ProcessEnv = process.env,
+): Map<string, DomainProfile> {
+	let files: string[];
+	try {
+		files = fs
+			.readdirSync(profilesDir)
+			.filter((file) => file.endsWith(".toml"))
+			.sort();
+	} catch {
+		throw new Error(`Domain profile directory not found at ${profilesDir}`);
+	}
+	if (files.length === 0) {
+		throw new Error(`No domain profiles found in ${profilesDir}`);
+	}
+
+	const profiles = new Map<string, DomainProfile>();
+	for (const file of files) {
+		const profile = loadDomainProfile(path.join(profilesDir, file), env);
+		if (profiles.has(profile.id)) {
+			throw new Error(
+				`Duplicate endpoint id "${profile.id}" in ${path.join(profilesDir, file)}`,
+			);
+		}
+		profiles.set(profile.id, profile);
+	}
+	return profiles;
+}
+
+/**
+ * Every registered endpoint's profile, loaded once at startup
+ */
+export const domainProfiles = loadDomainProfiles(
+	process.env.DOMAIN_PROFILES_DIR || DEFAULT_PROFILES_DIR,
+);
+
+/**
+ * The endpoint used when a workflow or tool doesn't name one
+ */
+export const DEFAULT_ENDPOINT_ID =
+	process.env.DEFAULT_ENDPOINT_ID || [...domainProfiles.keys()][0];
+
+/**
+ * Looks up a registered endpoint's profile
+ *
+ * @param endpointId Endpoint id, defaults to DEFAULT_ENDPOINT_ID
+ */
+export function getDomainProfile(
+	endpointId: string = DEFAULT_ENDPOINT_ID,
+): DomainProfile {
+	const profile = domainProfiles.get(endpointId);
+	if (!profile) {
+		throw new Error(
+			`Unknown GraphQL endpoint "${endpointId}". Known endpoints: ${[
+				...domainProfiles.keys(),
+			].join(", ")}`,
+		);
+	}
+	return profile;
+}
+
+/**
+ * Renders the profile's domain knowledge as a prompt section
+ */
+export function renderDomainContext(
+	profile: DomainProfile = getDomainProfile(),
+): string {
+	const sections = [`Domain context for the ${profile.name}:`];
+	if (profile.description) {
+		sections.push(profile.description);
+	}
+	if (profile.notes.length > 0) {
+		sections.push(profile.notes.map((note) => `- ${note}`).join("\n"));
+	}
+	if (profile.entities.length > 0) {
+		sections.push(
+			`Known entities:\n${profile.entities
+				.map(
+					({ name, description, ids }) =>
+						`- ${name}${description ? ` (${description})` : ""}: ${Object.entries(
+							ids,
+						)
+							.map(([key, value]) => `${key} ${JSON.stringify(value)}`)
+							.join(", ")}`,
+				)
+				.join("\n")}`,
+		);
+	}
+	const glossary = Object.entries(profile.glossary);
+	if (glossary.length > 0) {
+		sections.push(
+			`Glossary:\n${glossary
+				.map(([term, definition]) => `- ${term}: ${definition}`)
+				.join("\n")}`,
+		);
+	}
+	if (profile.forbidden_fields.length > 0) {
+		sections.push(
+			`Never request these fields:\n${profile.forbidden_fields
+				.map(
+					({ path: fieldPath, reason }) =>
+						`- ${fieldPath}${reason ? ` (${reason})` : ""}`,
+				)
+				.join("\n")}`,
+		);
+	}
+	return sections.join("\n\n");
+}
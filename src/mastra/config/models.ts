@@ -0,0 +1,292 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { fileURLToPath } from "node:url";
+import { anthropic } from "@ai-sdk/anthropic";
+import { deepseek } from "@ai-sdk/deepseek";
+import { openai } from "@ai-sdk/openai";
+import { createOpenRouter } from "@openrouter/ai-sdk-provider";
+import type { LanguageModelV1, LanguageModelV1StreamPart } from "ai";
+import * as toml from "toml";
+import { z } from "zod";
+import { createLogger } from "../observability";
+
+// Fix for __dirname in ES modules
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const log = createLogger("Model Registry");
+
+const DEFAULT_REGISTRY_PATH = path.join(__dirname, "models.toml");
+
+export const MODEL_ROLES = [
+	"generator",
+	"fixer",
+	"analyst",
+	"router",
+	"reranker",
+	"embedder",
+] as const;
+
+export type ModelRole = (typeof MODEL_ROLES)[number];
+
+const MODEL_PROVIDERS = [
+	"openai",
+	"anthropic",
+	"deepseek",
+	"openrouter",
+] as const;
+
+export type ModelProvider = (typeof MODEL_PROVIDERS)[number];
+
+// "local" models run on this machine: a transformers.js model or the hashing embedder
+export const EMBEDDING_PROVIDERS = ["openai", "google", "local"] as const;
+
+export type EmbeddingProviderName = (typeof EMBEDDING_PROVIDERS)[number];
+
+export interface ModelSpec<TProvider extends string = ModelProvider> {
+	provider: TProvider;
+	model: string;
+	/** "provider:model", as written in the registry */
+	id: string;
+}
+
+export type ModelRegistry = Record<
+	Exclude<ModelRole, "embedder">,
+	ModelSpec[]
+> & { embedder: ModelSpec<EmbeddingProviderName>[] };
+
+function modelSpecSchema<TProvider extends string>(
+	providers: readonly TProvider[],
+) {
+	return z
+		.string()
+		.trim()
+		.transform((value, ctx): ModelSpec<TProvider> => {
+			const separator = value.indexOf(":");
+			const provider = value.slice(0, separator);
+			const model = value.slice(separator + 1);
+			if (separator < 0 || !model) {
+				ctx.addIssue({
+					code: z.ZodIssueCode.custom,
+					message: `Expected "provider:model", got "${value}"`,
+				});
+				return z.NEVER;
+			}
+			if (!(providers as readonly string[]).includes(provider)) {
+				ctx.addIssue({
+					code: z.ZodIssueCode.custom,
+					message: `Unknown provider "${provider}" in "${value}", expected one of ${providers.join(", ")}`,
+				});
+				return z.NEVER;
+			}
+			return { provider: provider as TProvider, model, id: value };
+		});
+}
+
+const modelListSchema = z.array(modelSpecSchema(MODEL_PROVIDERS)).min(1);
+
+const modelRegistrySchema = z.object({
+	roles: z.object({
+		generator: modelListSchema,
+		fixer: modelListSchema,
+		analyst: modelListSchema,
+		router: modelListSchema,
+		reranker: modelListSchema,
+		embedder: z.array(modelSpecSchema(EMBEDDING_PROVIDERS)).min(1),
+	}),
+});
+
+/**
+ * Loads the model registry from a TOML file. A MODEL_<ROLE> environment
+ * variable, holding a comma-separated list of models, replaces that role's list.
+ *
+ * @param registryPath Path to the registry
+ * @param env Environment holding the overrides
+ */
+export function loadModelRegistry(
+	registryPath: string,
+	env: NodeJS.ProcessEnv = process.env,
+): ModelRegistry {
+	let parsed: { roles?: Record<string, unknown> };
+	try {
+		parsed = toml.parse(fs.readFileSync(registryPath, "utf-8"));
+	} catch (error) {
+		if (
+			error instanceof Error &&
+			"code" in error &&
+			(error as NodeJS.ErrnoException).code === "ENOENT"
+		) {
+			throw new Error(`Model registry not found at ${registryPath}`);
+		}
+		throw new Error(
+			`Error parsing model registry ${registryPath}: ${error instanceof Error ? error.message : String(error)}`,
+		);
+	}
+
+	const roles = { ...parsed.roles };
+	for (const role of MODEL_ROLES) {
+		const override = env[`MODEL_${role.toUpperCase()}`];
+		if (override) {
+			roles[role] = override.split(",").filter((model) => model.trim());
+		}
+	}
+
+	const result = modelRegistrySchema.safeParse({ ...parsed, roles });
+	if (!result.success) {
+		throw new Error(
+			`Invalid model registry ${registryPath}: ${result.error.issues
+				.map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+				.join("; ")}`,
+		);
+	}
+	return result.data.roles;
+}
+
+/**
+ * The registry every agent and vector tool reads its models from, loaded once at startup
+ */
+export const modelRegistry = loadModelRegistry(
+	process.env.MODEL_REGISTRY_FILE || DEFAULT_REGISTRY_PATH,
+);
+
+let openrouter: ReturnType<typeof createOpenRouter> | undefined;
+
+function resolveLanguageModel(spec: ModelSpec): LanguageModelV1 {
+	switch (spec.provider) {
+		case "openai":
+			return openai(spec.model);
+		case "anthropic":
+			return anthropic(spec.model);
+		case "deepseek":
+			return deepseek(spec.model);
+		case "openrouter":
+			openrouter ??= createOpenRouter({
+				apiKey: process.env.OPENROUTER_API_KEY,
+			});
+			return openrouter(spec.model);
+	}
+}
+
+export interface ModelCandidate {
+	id: string;
+	model: LanguageModelV1;
+}
+
+/**
+ * Calls each candidate in turn until one answers. Errors from every candidate
+ * but the last are logged and skipped, unless the caller aborted.
+ */
+async function callWithFallback<T>(
+	role: string,
+	candidates: ModelCandidate[],
+	abortSignal: AbortSignal | undefined,
+	call: (candidate: ModelCandidate) => Promise<T>,
+): Promise<T> {
+	for (const [index, candidate] of candidates.entries()) {
+		const next = candidates[index + 1];
+		try {
+			return await call(candidate);
+		} catch (error) {
+			if (!next || abortSignal?.aborted) {
+				throw error;
+			}
+			log.warn(`${role}: ${candidate.id} failed, falling back to ${next.id}`, {
+				error,
+			});
+		}
+	}
+	throw new Error(`[Model Registry] ${role}: no models configured`);
+}
+
+/**
+ * Wraps an ordered list of models in a single model that falls back to the
+ * next one when a call fails, e.g. on a provider outage or rate limit.
+ * Responses carry the id of the model that actually answered as their modelId.
+ *
+ * @param role Name used in fallback logs
+ * @param candidates Models in order of preference
+ */
+export function createFallbackModel(
+	role: string,
+	candidates: ModelCandidate[],
+): LanguageModelV1 {
+	if (candidates.length === 0) {
+		throw new Error(`[Model Registry] ${role}: no models configured`);
+	}
+	const [primary] = candidates;
+	const modes = new Set(
+		candidates.map(({ model }) => model.defaultObjectGenerationMode),
+	);
+
+	return {
+		specificationVersion: "v1",
+		provider: primary.model.provider,
+		modelId: primary.id,
+		// Call options are built once for the whole chain, so structured output
+		// has to use a mode every candidate supports. Tool mode works everywhere.
+		defaultObjectGenerationMode:
+			modes.size === 1 ? primary.model.defaultObjectGenerationMode : "tool",
+		supportsStructuredOutputs: candidates.every(
+			({ model }) => model.supportsStructuredOutputs,
+		),
+		supportsImageUrls: candidates.every(
+			({ model }) => model.supportsImageUrls !== false,
+		),
+		doGenerate: (options) =>
+			callWithFallback(
+				role,
+				candidates,
+				options.abortSignal,
+				async ({ id, model }) => {
+					const result = await model.doGenerate(options);
+					return { ...result, response: { ...result.response, modelId: id } };
+				},
+			),
+		doStream: (options) =>
+			callWithFallback(
+				role,
+				candidates,
+				options.abortSignal,
+				async ({ id, model }) => {
+					const result = await model.doStream(options);
+					return {
+						...result,
+						stream: result.stream.pipeThrough(
+							new TransformStream<
+								LanguageModelV1StreamPart,
+								LanguageModelV1StreamPart
+							>({
+								transform(part, controller) {
+									controller.enqueue(
+										part.type === "response-metadata"
+											? { ...part, modelId: id }
+											: part,
+									);
+								},
+							}),
+						),
+					};
+				},
+			),
+	};
+}
+
+/**
+ * Builds the model for an agent role from the registry, falling back through
+ * the role's models in order
+ *
+ * @param role Agent role
+ * @param registry Registry to read, defaults to the one loaded at startup
+ */
+export function createRoleModel(
+	role: Exclude<ModelRole, "embedder">,
+	registry: ModelRegistry = modelRegistry,
+): LanguageModelV1 {
+	return createFallbackModel(
+		role,
+		registry[role].map((spec) => ({
+			id: spec.id,
+			model: resolveLanguageModel(spec),
+		})),
+	);
+}
@@ -0,0 +1,110 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { fileURLToPath } from "node:url";
+import * as toml from "toml";
+import { z } from "zod";
+import type { TokenUsage } from "../usage";
+
+// Fix for __dirname in ES modules
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const DEFAULT_PRICES_PATH = path.join(__dirname, "prices.toml");
+
+const priceTableSchema = z.object({
+	models: z.record(
+		z.object({
+			prompt: z.number().nonnegative(),
+			completion: z.number().nonnegative().default(0),
+		}),
+	),
+});
+
+/**
+ * USD per million prompt and completion tokens
+ */
+export type ModelPrice = z.infer<typeof priceTableSchema>["models"][string];
+
+/**
+ * Prices keyed by "provider:model"
+ */
+export type PriceTable = Record<string, ModelPrice>;
+
+/**
+ * Loads and validates a price table from a TOML file
+ *
+ * @param pricesPath Path to the price table
+ */
+export function loadPriceTable(pricesPath: string): PriceTable {
+	let parsed: unknown;
+	try {
+		parsed = toml.parse(fs.readFileSync(pricesPath, "utf-8"));
+	} catch (error) {
+		if (
+			error instanceof Error &&
+			"code" in error &&
+			(error as NodeJS.ErrnoException).code === "ENOENT"
+		) {
+			throw new Error(`Price table not found at ${pricesPath}`);
+		}
+		throw new Error(
+			`Error parsing price table ${pricesPath}: ${error instanceof Error ? error.message : String(error)}`,
+		);
+	}
+
+	const result = priceTableSchema.safeParse(parsed);
+	if (!result.success) {
+		throw new Error(
+			`Invalid price table ${pricesPath}: ${result.error.issues
+				.map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+				.join("; ")}`,
+		);
+	}
+	return result.data.models;
+}
+
+/**
+ * The prices usage ledgers are costed with, loaded once at startup
+ */
+export const priceTable = loadPriceTable(
+	process.env.MODEL_PRICES_FILE || DEFAULT_PRICES_PATH,
+);
+
+/**
+ * Looks up a model's price. Models reported without a provider, e.g. by agents
+ * built outside the model registry, match any provider's entry for that model.
+ */
+export function findModelPrice(
+	model: string,
+	prices: PriceTable = priceTable,
+): ModelPrice | undefined {
+	if (prices[model]) {
+		return prices[model];
+	}
+	if (!model.includes(":")) {
+		const key = Object.keys(prices).find((key) => key.endsWith(`:${model}`));
+		return key ? prices[key] : undefined;
+	}
+	return undefined;
+}
+
+/**
+ * Estimates the cost of a call in USD
+ *
+ * @returns The cost, or undefined when the model has no price
+ */
+export function estimateCost(
+	model: string | undefined,
+	usage: TokenUsage,
+	prices: PriceTable = priceTable,
+): number | undefined {
+	const price = model ? findModelPrice(model, prices) : undefined;
+	if (!price) {
+		return undefined;
+	}
+	return (
+		(usage.promptTokens * price.prompt +
+			usage.completionTokens * price.completion) /
+		1_000_000
+	);
+}
@@ -0,0 +1,148 @@
+import { PgVector } from "@mastra/pg";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	EmbeddingModelMismatchError,
+	checkIndexModel,
+	createEmbeddingProvider,
+	createHashingEmbeddingProvider,
+} from "../index";
+
+describe("createEmbeddingProvider", () => {
+	it("resolves models with known dimensions", () => {
+		expect(createEmbeddingProvider("text-embedding-3-small")).toMatchObject({
+			id: "openai:text-embedding-3-small",
+			dimension: 1536,
+		});
+		expect(createEmbeddingProvider("google:text-embedding-004").dimension).toBe(
+			768,
+		);
+		expect(
+			createEmbeddingProvider("local:Xenova/all-MiniLM-L6-v2").dimension,
+		).toBe(384);
+		expect(createEmbeddingProvider("local:my/model", 512).dimension).toBe(512);
+	});
+
+	it("rejects models of unknown dimension", () => {
+		expect(() => createEmbeddingProvider("local:my/model")).toThrow(
+			'Unknown dimension for embedding model "local:my/model"',
+		);
+	});
+});
+
+describe("createHashingEmbeddingProvider", () => {
+	it("embeds deterministically into unit vectors", async () => {
+		const provider = createHashingEmbeddingProvider(64);
+		const { embeddings, tokens } = await provider.embed([
+			"roundMetadataCid",
+			"roundMetadataCid",
+			"",
+		]);
+
+		expect(provider.id).toBe("local:hashing-64");
+		expect(tokens).toBe(0);
+		expect(embeddings[0]).toHaveLength(64);
+		expect(embeddings[0]).toEqual(embeddings[1]);
+		expect(Math.hypot(...embeddings[0])).toBeCloseTo(1);
+		expect(embeddings[2].every((value) => value === 0)).toBe(true);
+	});
+
+	it("scores texts sharing words above unrelated ones", async () => {
+		const {
+			embeddings: [query, related, unrelated],
+		} = await createHashingEmbeddingProvider(256).embed([
+			"matching funds of a round",
+			"Matching funds are split across the round's projects",
+			"Contract source code verified on Etherscan",
+		]);
+		const dot = (a: number[], b: number[]) =>
+			a.reduce((sum, value, i) => sum + value * b[i], 0);
+
+		expect(dot(query, related)).toBeGreaterThan(dot(query, unrelated));
+	});
+});
+
+describe("checkIndexModel", () => {
+	let records: Record<string, unknown>[];
+	let pgVector: PgVector;
+
+	beforeEach(() => {
+		records = [];
+		vi.restoreAllMocks();
+		vi.spyOn(PgVector.prototype, "createIndex").mockResolvedValue();
+		vi.spyOn(PgVector.prototype, "query").mockImplementation(
+			async (...args: unknown[]) => {
+				const { filter } = args[0] as { filter: { indexName: string } };
+				return records
+					.filter((metadata) => metadata.indexName === filter.indexName)
+					.map((metadata) => ({ id: filter.indexName, metadata, score: 1 }));
+			},
+		);
+		vi.spyOn(PgVector.prototype, "upsert").mockImplementation(
+			async (...args: unknown[]) => {
+				const { metadata = [] } = args[0] as {
+					metadata?: Record<string, unknown>[];
+				};
+				records.push(...metadata);
+				return [];
+			},
+		);
+		vi.spyOn(PgVector.prototype, "describeIndex").mockResolvedValue({
+			dimension: 1536,
+			count: 10,
+			metric: "cosine",
+			type: "ivfflat",
+			config: {},
+		});
+		pgVector = new PgVector("postgresql://localhost/test");
+	});
+
+	it("records the model that builds an index and refuses others", async () => {
+		const openai = createEmbeddingProvider("openai:text-embedding-3-small");
+		await checkIndexModel(pgVector, "docs", openai, { record: true });
+		expect(records).toEqual([
+			expect.objectContaining({
+				indexName: "docs",
+				model: "openai:text-embedding-3-small",
+				dimension: 1536,
+			}),
+		]);
+
+		await expect(
+			checkIndexModel(
+				pgVector,
+				"docs",
+				createEmbeddingProvider("local:my/model", 1536),
+			),
+		).rejects.toThrow(EmbeddingModelMismatchError);
+	});
+
+	it("compares the dimension of indexes built before models were recorded", async () => {
+		await expect(
+			checkIndexModel(pgVector, "legacy", createHashingEmbeddingProvider(384)),
+		).rejects.toThrow(
+			'Index "legacy" was built with an unrecorded model (dimension 1536) but is being used with local:hashing-384 (dimension 384)',
+		);
+		await expect(
+			checkIndexModel(
+				pgVector,
+				"legacy",
+				createEmbeddingProvider("text-embedding-3-small"),
+			),
+		).resolves.toBeUndefined();
+		expect(records).toEqual([]);
+	});
+
+	it("only reads when querying, treating a missing record index as no record", async () => {
+		vi.mocked(PgVector.prototype.query).mockRejectedValue(
+			Object.assign(
+				new Error('relation "embedding_index_models" does not exist'),
+				{ code: "42P01" },
+			),
+		);
+
+		await expect(
+			checkIndexModel(pgVector, "fresh", createHashingEmbeddingProvider(384)),
+		).rejects.toThrow(EmbeddingModelMismatchError);
+		expect(PgVector.prototype.createIndex).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,167 @@
+import type { PgVector } from "@mastra/pg";
+import { createLogger } from "../observability";
+import type { EmbeddingProvider } from "./index";
+
+const log = createLogger("Embeddings");
+
+// Index holding one row per vector index, naming the model that built it
+const INDEX_MODELS_INDEX = "embedding_index_models";
+
+/**
+ * The embedding model an index was built with
+ */
+export interface IndexModelRecord {
+	indexName: string;
+	/** "provider:model" of the embedding provider */
+	model: string;
+	dimension: number;
+	recordedAt: string;
+}
+
+/**
+ * Thrown when an index is embedded into or queried with a different model
+ * than the one that built it, since the vectors would not be comparable
+ */
+export class EmbeddingModelMismatchError extends Error {
+	constructor(
+		readonly indexName: string,
+		readonly expected: { model?: string; dimension: number },
+		readonly actual: { model: string; dimension: number },
+	) {
+		super(
+			`Index "${indexName}" was built with ${expected.model ?? "an unrecorded model"} (dimension ${expected.dimension}) but is being used with ${actual.model} (dimension ${actual.dimension}). Re-embed the index or configure the matching embedder model.`,
+		);
+		this.name = "EmbeddingModelMismatchError";
+	}
+}
+
+const ensuredRecordIndex = new WeakMap<PgVector, Promise<void>>();
+
+// Creating the record index is DDL, so only ingestion does it
+function ensureRecordIndex(pgVector: PgVector): Promise<void> {
+	let ready = ensuredRecordIndex.get(pgVector);
+	if (!ready) {
+		ready = pgVector
+			.createIndex({ indexName: INDEX_MODELS_INDEX, dimension: 1 })
+			.catch((error) => {
+				ensuredRecordIndex.delete(pgVector);
+				throw error;
+			});
+		ensuredRecordIndex.set(pgVector, ready);
+	}
+	return ready;
+}
+
+/**
+ * True for the error Postgres raises when a table does not exist
+ */
+function isMissingTable(error: unknown): boolean {
+	return (
+		(error as { code?: unknown })?.code === "42P01" ||
+		(error instanceof Error && /relation .* does not exist/.test(error.message))
+	);
+}
+
+/**
+ * Reads which model built an index
+ *
+ * @param options.create Creates the index of records first when missing; only ingestion sets it
+ * @returns The record, or undefined for indexes built before models were recorded
+ */
+export async function readIndexModel(
+	pgVector: PgVector,
+	indexName: string,
+	options: { create?: boolean } = {},
+): Promise<IndexModelRecord | undefined> {
+	if (options.create) {
+		await ensureRecordIndex(pgVector);
+	}
+	try {
+		const [row] = await pgVector.query({
+			indexName: INDEX_MODELS_INDEX,
+			queryVector: [1],
+			topK: 1,
+			filter: { indexName },
+			// The probe scores every row alike; keep the one the filter leaves
+			minScore: -2,
+		});
+		return row?.metadata as IndexModelRecord | undefined;
+	} catch (error) {
+		// Nothing was ever ingested with a recorded model
+		if (isMissingTable(error)) {
+			return undefined;
+		}
+		throw error;
+	}
+}
+
+// Indexes already checked against a model, per connection
+const checked = new WeakMap<PgVector, Set<string>>();
+
+/**
+ * Makes sure an index is used with the model that built it. An index without
+ * a record is compared by dimension only. Only reads unless options.record is set.
+ *
+ * @param pgVector Connection to the vector store
+ * @param indexName Index about to be embedded into or queried
+ * @param provider Embedding provider in use
+ * @param options.record Records the provider as the index's model when none is recorded yet; set when embedding into the index
+ * @throws EmbeddingModelMismatchError when the index was built with another model
+ */
+export async function checkIndexModel(
+	pgVector: PgVector,
+	indexName: string,
+	provider: EmbeddingProvider,
+	options: { record?: boolean } = {},
+): Promise<void> {
+	const key = `${indexName}\n${provider.id}`;
+	const seen = checked.get(pgVector) ?? new Set<string>();
+	if (seen.has(key)) {
+		return;
+	}
+
+	const actual = { model: provider.id, dimension: provider.dimension };
+	const record = await readIndexModel(pgVector, indexName, {
+		create: options.record,
+	});
+	if (record) {
+		if (
+			record.model !== provider.id ||
+			record.dimension !== provider.dimension
+		) {
+			throw new EmbeddingModelMismatchError(indexName, record, actual);
+		}
+	} else {
+		const stats = await pgVector
+			.describeIndex(indexName)
+			.catch(() => undefined);
+		if (stats && stats.dimension !== provider.dimension) {
+			throw new EmbeddingModelMismatchError(
+				indexName,
+				{ dimension: stats.dimension },
+				actual,
+			);
+		}
+		if (options.record) {
+			await pgVector.upsert({
+				indexName: INDEX_MODELS_INDEX,
+				vectors: [[1]],
+				metadata: [
+					{
+						indexName,
+						model: provider.id,
+						dimension: provider.dimension,
+						recordedAt: new Date().toISOString(),
+					} satisfies IndexModelRecord,
+				],
+				ids: [indexName],
+			});
+			log.info(
+				`Recorded ${provider.id} as the embedding model of '${indexName}'`,
+			);
+		}
+	}
+
+	seen.add(key);
+	checked.set(pgVector, seen);
+}
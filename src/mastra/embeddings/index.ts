@@ -0,0 +1,225 @@
+import { google } from "@ai-sdk/google";
+import { openai } from "@ai-sdk/openai";
+import type { FeatureExtractionPipeline } from "@huggingface/transformers";
+import { type EmbeddingModel, embedMany } from "ai";
+import {
+	EMBEDDING_PROVIDERS,
+	type EmbeddingProviderName,
+	type ModelRegistry,
+	modelRegistry,
+} from "../config/models";
+import { loadTransformers } from "./transformers";
+
+export {
+	EmbeddingModelMismatchError,
+	type IndexModelRecord,
+	checkIndexModel,
+	readIndexModel,
+} from "./index-models";
+export {
+	type TransformersModule,
+	loadTransformers,
+} from "./transformers";
+
+/**
+ * Turns text into vectors. Every vector index is built with one provider, and
+ * must be queried with the same one.
+ */
+export interface EmbeddingProvider {
+	/** "provider:model", as in the model registry */
+	readonly id: string;
+	/** Length of the vectors the model produces */
+	readonly dimension: number;
+	/**
+	 * Embeds the values in order. Tokens are those billed by the provider, 0 for local models.
+	 */
+	embed(values: string[]): Promise<{ embeddings: number[][]; tokens: number }>;
+}
+
+// Vector length of the models used so far. Other models need their dimension passed in.
+const EMBEDDING_DIMENSIONS: Record<string, number> = {
+	"openai:text-embedding-3-small": 1536,
+	"openai:text-embedding-3-large": 3072,
+	"openai:text-embedding-ada-002": 1536,
+	"google:text-embedding-004": 768,
+	"local:Xenova/all-MiniLM-L6-v2": 384,
+	"local:Xenova/bge-small-en-v1.5": 384,
+};
+
+/**
+ * Embeds with a model served through the AI SDK, e.g. OpenAI or Google
+ *
+ * @param id "provider:model" of the model
+ * @param model The AI SDK embedding model
+ * @param dimension Length of the model's vectors
+ */
+export function createAiSdkEmbeddingProvider(
+	id: string,
+	model: EmbeddingModel<string>,
+	dimension: number,
+): EmbeddingProvider {
+	return {
+		id,
+		dimension,
+		async embed(values) {
+			const { embeddings, usage } = await embedMany({ model, values });
+			return { embeddings, tokens: usage.tokens };
+		},
+	};
+}
+
+// FNV-1a, a fast and stable 32-bit string hash
+function fnv1a(text: string): number {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < text.length; i++) {
+		hash ^= text.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return hash >>> 0;
+}
+
+/**
+ * Embeds by hashing words into a fixed number of buckets. It needs no model
+ * files or network and is deterministic, so it suits offline ingestion and
+ * tests; similarity reflects shared words rather than meaning.
+ *
+ * @param dimension Number of buckets
+ */
+export function createHashingEmbeddingProvider(
+	dimension: number,
+): EmbeddingProvider {
+	const embedOne = (text: string): number[] => {
+		const vector = new Array<number>(dimension).fill(0);
+		// Whole identifiers, plus their camelCase parts, e.g. roundMetadataCid, round, metadata, cid
+		const identifiers = text.match(/[A-Za-z0-9_]+/g) ?? [];
+		const words = identifiers.flatMap((identifier) => [
+			identifier.toLowerCase(),
+			...(identifier
+				.replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+				.toLowerCase()
+				.match(/[a-z0-9]+/g) ?? []),
+		]);
+		for (const word of words) {
+			const hash = fnv1a(word);
+			vector[hash % dimension] += hash & 0x80000000 ? -1 : 1;
+		}
+		const norm = Math.hypot(...vector);
+		return norm > 0 ? vector.map((value) => value / norm) : vector;
+	};
+
+	return {
+		id: `local:hashing-${dimension}`,
+		dimension,
+		async embed(values) {
+			return { embeddings: values.map(embedOne), tokens: 0 };
+		},
+	};
+}
+
+// Texts embedded per model call, to bound memory use on CPU
+const LOCAL_BATCH_SIZE = 32;
+
+/**
+ * Embeds on the CPU with a transformers.js (ONNX) sentence model, e.g.
+ * Xenova/all-MiniLM-L6-v2, loaded as described in loadTransformers
+ *
+ * @param model Hugging Face model id
+ * @param dimension Length of the model's vectors
+ */
+export function createTransformersEmbeddingProvider(
+	model: string,
+	dimension: number,
+): EmbeddingProvider {
+	let extractor: Promise<FeatureExtractionPipeline> | undefined;
+	return {
+		id: `local:${model}`,
+		dimension,
+		async embed(values) {
+			extractor ??= loadTransformers(model)
+				.then((transformers) =>
+					transformers.pipeline("feature-extraction", model),
+				)
+				.catch((error) => {
+					extractor = undefined;
+					throw error;
+				});
+			const extract = await extractor;
+			const embeddings: number[][] = [];
+			for (let i = 0; i < values.length; i += LOCAL_BATCH_SIZE) {
+				const output = await extract(values.slice(i, i + LOCAL_BATCH_SIZE), {
+					pooling: "mean",
+					normalize: true,
+				});
+				embeddings.push(...output.tolist());
+			}
+			return { embeddings, tokens: 0 };
+		},
+	};
+}
+
+/**
+ * Creates the provider for an embedding model
+ *
+ * @param id "provider:model", e.g. "openai:text-embedding-3-small" or "local:hashing-384". A bare model name is taken as an OpenAI model.
+ * @param dimension Length of the model's vectors, needed for models not listed in EMBEDDING_DIMENSIONS
+ */
+export function createEmbeddingProvider(
+	id: string,
+	dimension?: number,
+): EmbeddingProvider {
+	const qualified = id.includes(":") ? id : `openai:${id}`;
+	const separator = qualified.indexOf(":");
+	const provider = qualified.slice(0, separator) as EmbeddingProviderName;
+	const model = qualified.slice(separator + 1);
+
+	const hashing = provider === "local" && model.match(/^hashing-(\d+)$/);
+	if (hashing) {
+		return createHashingEmbeddingProvider(Number(hashing[1]));
+	}
+
+	const size = dimension ?? EMBEDDING_DIMENSIONS[qualified];
+	if (!size) {
+		throw new Error(
+			`Unknown dimension for embedding model "${qualified}"; pass it explicitly or add it to EMBEDDING_DIMENSIONS`,
+		);
+	}
+	switch (provider) {
+		case "openai":
+			return createAiSdkEmbeddingProvider(
+				qualified,
+				openai.embedding(model),
+				size,
+			);
+		case "google":
+			return createAiSdkEmbeddingProvider(
+				qualified,
+				google.textEmbeddingModel(model),
+				size,
+			);
+		case "local":
+			return createTransformersEmbeddingProvider(model, size);
+		default:
+			throw new Error(
+				`Unknown embedding provider "${provider}" in "${id}", expected one of ${EMBEDDING_PROVIDERS.join(", ")}`,
+			);
+	}
+}
+
+const providers = new Map<string, EmbeddingProvider>();
+
+/**
+ * The provider of the registry's embedder model, which every index is built and queried with
+ *
+ * @param registry Registry to read, defaults to the one loaded at startup
+ */
+export function getEmbeddingProvider(
+	registry: ModelRegistry = modelRegistry,
+): EmbeddingProvider {
+	const { id } = registry.embedder[0];
+	let provider = providers.get(id);
+	if (!provider) {
+		provider = createEmbeddingProvider(id);
+		providers.set(id, provider);
+	}
+	return provider;
+}
@@ -0,0 +1,33 @@
+import * as path from "node:path";
+
+/**
+ * transformers.js, used by the local embedding and reranking models
+ */
+export type TransformersModule = typeof import("@huggingface/transformers");
+
+let transformers: Promise<TransformersModule> | undefined;
+
+/**
+ * Loads transformers.js for running ONNX models on the CPU. Models are
+ * downloaded into LOCAL_EMBEDDING_CACHE_DIR on first use; with
+ * HF_HUB_OFFLINE=1 only models already there are used, so runs need no network.
+ *
+ * @param model Model about to be loaded, named in the error when the package is missing
+ */
+export function loadTransformers(model: string): Promise<TransformersModule> {
+	transformers ??= (async () => {
+		const module = await import("@huggingface/transformers");
+		module.env.cacheDir =
+			process.env.LOCAL_EMBEDDING_CACHE_DIR ||
+			path.join(process.cwd(), ".cache", "embedding-models");
+		module.env.allowRemoteModels = process.env.HF_HUB_OFFLINE !== "1";
+		return module;
+	})();
+	return transformers.catch((error) => {
+		transformers = undefined;
+		throw new Error(
+			`Local model "${model}" needs the optional dependency @huggingface/transformers, which could not be loaded`,
+			{ cause: error },
+		);
+	});
+}
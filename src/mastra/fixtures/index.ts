@@ -0,0 +1,294 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { Agent } from "@mastra/core/agent";
+import type { ZodType } from "zod";
+import { withSpan } from "../observability";
+import { type TokenUsage, reportUsage } from "../usage";
+
+/**
+ * One captured call to an external service
+ */
+export interface FixtureInteraction {
+	kind: string;
+	request: unknown;
+	response?: unknown;
+	/** Error message the call failed with, rethrown on replay */
+	error?: string;
+	/** Replay this interaction for every matching request instead of once */
+	repeat?: boolean;
+}
+
+export interface FixtureCassette {
+	interactions: FixtureInteraction[];
+}
+
+type FixtureMode = "record" | "replay";
+
+let active:
+	| {
+			mode: FixtureMode;
+			file?: string;
+			interactions: FixtureInteraction[];
+			used: Set<FixtureInteraction>;
+	  }
+	| undefined;
+
+/**
+ * Starts recording calls to a fixture file, or replaying them from a file or an
+ * in-memory cassette. While replaying, no external service is contacted.
+ *
+ * @param source Fixture file path, or a cassette to replay
+ * @param mode "record" captures real calls, "replay" serves recorded ones
+ */
+export function useFixtures(
+	source: string | FixtureCassette,
+	mode: FixtureMode,
+): void {
+	if (typeof source !== "string") {
+		if (mode === "record") {
+			throw new Error("Recording fixtures requires a file path");
+		}
+		active = { mode, interactions: source.interactions, used: new Set() };
+		return;
+	}
+
+	let interactions: FixtureInteraction[] = [];
+	if (mode === "replay") {
+		try {
+			interactions = (
+				JSON.parse(fs.readFileSync(source, "utf-8")) as FixtureCassette
+			).interactions;
+		} catch (error) {
+			throw new Error(
+				`Error loading fixtures from ${source}: ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+	}
+	active = { mode, file: source, interactions, used: new Set() };
+}
+
+/**
+ * Stops recording or replaying; calls go to the real services again
+ */
+export function stopFixtures(): void {
+	active = undefined;
+}
+
+/**
+ * Returns the replayed interactions that were never used, so tests can check
+ * that a run made every call they expected
+ */
+export function unusedFixtures(): FixtureInteraction[] {
+	const fixtures = active;
+	if (fixtures?.mode !== "replay") {
+		return [];
+	}
+	return fixtures.interactions.filter(
+		(interaction) => !interaction.repeat && !fixtures.used.has(interaction),
+	);
+}
+
+/**
+ * A recorded request matches when every value it specifies equals the actual
+ * one, so hand-written fixtures can leave out fields such as long prompts
+ */
+function matchesRequest(recorded: unknown, actual: unknown): boolean {
+	if (Array.isArray(recorded)) {
+		return (
+			Array.isArray(actual) &&
+			recorded.length === actual.length &&
+			recorded.every((item, index) => matchesRequest(item, actual[index]))
+		);
+	}
+	if (typeof recorded === "object" && recorded !== null) {
+		return (
+			typeof actual === "object" &&
+			actual !== null &&
+			Object.entries(recorded).every(([key, value]) =>
+				matchesRequest(value, (actual as Record<string, unknown>)[key]),
+			)
+		);
+	}
+	return recorded === actual;
+}
+
+function saveRecording(): void {
+	if (!active?.file) {
+		return;
+	}
+	fs.mkdirSync(path.dirname(active.file), { recursive: true });
+	fs.writeFileSync(
+		active.file,
+		`${JSON.stringify({ interactions: active.interactions }, null, 2)}\n`,
+	);
+}
+
+/**
+ * Runs an external call through the active fixtures: recorded in record mode,
+ * answered from the first unused matching interaction in replay mode, and
+ * passed through when no fixtures are active
+ *
+ * @param kind Kind of call, e.g. "http" or "generation"
+ * @param request JSON-serializable description of the call used for matching
+ * @param call Performs the real call; its result must be JSON-serializable
+ */
+export async function withFixture<T>(
+	kind: string,
+	request: unknown,
+	call: () => Promise<T>,
+): Promise<T> {
+	if (!active) {
+		return call();
+	}
+
+	if (active.mode === "replay") {
+		const fixtures = active;
+		const interaction = fixtures.interactions.find(
+			(candidate) =>
+				candidate.kind === kind &&
+				!fixtures.used.has(candidate) &&
+				matchesRequest(candidate.request, request),
+		);
+		if (!interaction) {
+			throw new Error(
+				`No recorded "${kind}" interaction matches ${JSON.stringify(request).slice(0, 500)}`,
+			);
+		}
+		if (!interaction.repeat) {
+			fixtures.used.add(interaction);
+		}
+		if (interaction.error !== undefined) {
+			throw new Error(interaction.error);
+		}
+		return interaction.response as T;
+	}
+
+	const recording = active;
+	try {
+		const response = await call();
+		recording.interactions.push({ kind, request, response });
+		return response;
+	} catch (error) {
+		recording.interactions.push({
+			kind,
+			request,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		throw error;
+	} finally {
+		saveRecording();
+	}
+}
+
+function parseBody(body: RequestInit["body"]): unknown {
+	if (typeof body !== "string") {
+		return undefined;
+	}
+	try {
+		return JSON.parse(body);
+	} catch {
+		return body;
+	}
+}
+
+/**
+ * Drop-in replacement for fetch that goes through the active fixtures
+ */
+export async function fixtureFetch(
+	input: string | URL,
+	init: RequestInit = {},
+): Promise<Response> {
+	if (!active) {
+		return fetch(input, init);
+	}
+
+	const recorded = await withFixture(
+		"http",
+		{
+			method: init.method ?? "GET",
+			url: String(input),
+			body: parseBody(init.body),
+		},
+		async () => {
+			const response = await fetch(input, init);
+			return {
+				status: response.status,
+				statusText: response.statusText,
+				headers: Object.fromEntries(response.headers.entries()),
+				body: await response.text(),
+			};
+		},
+	);
+	return new Response(recorded.body, {
+		status: recorded.status,
+		statusText: recorded.statusText,
+		headers: recorded.headers,
+	});
+}
+
+/**
+ * Generates a response from an agent through the active fixtures, returning
+ * the structured object when an output schema is given and the text otherwise.
+ * Token usage and the model that answered are reported for replayed responses too.
+ */
+export async function generateWithFixtures<T = unknown>(
+	agent: Agent,
+	prompt: string,
+	output?: ZodType<T>,
+): Promise<{ text?: string; object?: T; usage?: TokenUsage; model?: string }> {
+	return withSpan(
+		"llm.generate",
+		{
+			kind: "client",
+			attributes: {
+				"llm.agent": agent.name,
+				"llm.structured": output !== undefined,
+				"llm.prompt_chars": prompt.length,
+			},
+		},
+		async (span) => {
+			const result = await withFixture(
+				"generation",
+				{ agent: agent.name, prompt, structured: output !== undefined },
+				async () => {
+					if (output) {
+						const res = await agent.generate(prompt, { output });
+						return {
+							object: res.object as T,
+							usage: res.usage,
+							model: res.response?.modelId,
+						};
+					}
+					const res = await agent.generate(prompt);
+					return {
+						text: res.text,
+						usage: res.usage,
+						model: res.response?.modelId,
+					};
+				},
+			);
+			span.setAttributes({
+				"llm.model": result.model,
+				"llm.prompt_tokens": result.usage?.promptTokens,
+				"llm.completion_tokens": result.usage?.completionTokens,
+			});
+			if (result.usage) {
+				reportUsage({
+					source: agent.name,
+					model: result.model,
+					...result.usage,
+				});
+			}
+			return result;
+		},
+	);
+}
+
+// Allow recording or replaying a whole run, e.g. `mastra dev`, from the environment
+if (
+	(process.env.FIXTURE_MODE === "record" ||
+		process.env.FIXTURE_MODE === "replay") &&
+	process.env.FIXTURE_FILE
+) {
+	useFixtures(process.env.FIXTURE_FILE, process.env.FIXTURE_MODE);
+}
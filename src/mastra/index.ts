@@ -7,6 +7,7 @@ import {
 	gqlIntrospectAgent,
 	graphqlQueryAgent,
 } from "./agents";
+import { logLevel } from "./observability";
 import { fixQueryAnalysis, newQueryAnalysis } from "./workflows";
 import { graphqlAnalysis1 } from "./workflows/graphql-execution-1";
 
@@ -21,6 +22,6 @@ export const mastra = new Mastra({
 	},
 	logger: createLogger({
 		name: "Mastra",
-		level: "info",
+		level: logLevel,
 	}),
 });
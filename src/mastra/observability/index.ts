@@ -0,0 +1,20 @@
+export {
+	type LogFields,
+	type LogLevel,
+	type Logger,
+	createLogger,
+	logLevel,
+	summarizePayload,
+} from "./logger";
+export {
+	type Span,
+	type SpanExporter,
+	type SpanRecord,
+	createFileSpanExporter,
+	createOtlpSpanExporter,
+	currentSpan,
+	flushSpans,
+	setSpanExporter,
+	traceStep,
+	withSpan,
+} from "./tracing";
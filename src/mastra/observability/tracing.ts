@@ -0,0 +1,328 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomBytes } from "node:crypto";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { createLogger } from "./logger";
+
+export type SpanAttributeValue = string | number | boolean;
+export type SpanAttributes = Record<string, SpanAttributeValue | undefined>;
+
+/**
+ * A finished span, in the shape written to trace files
+ */
+export interface SpanRecord {
+	traceId: string;
+	spanId: string;
+	parentSpanId?: string;
+	name: string;
+	kind: "internal" | "client";
+	startTimeUnixNano: string;
+	endTimeUnixNano: string;
+	attributes: Record<string, SpanAttributeValue>;
+	status: { code: "ok" | "error"; message?: string };
+}
+
+export interface Span {
+	readonly traceId: string;
+	readonly spanId: string;
+	setAttributes(attributes: SpanAttributes): void;
+}
+
+export interface SpanExporter {
+	export(spans: SpanRecord[]): Promise<void>;
+}
+
+export interface SpanOptions {
+	kind?: SpanRecord["kind"];
+	attributes?: SpanAttributes;
+	/** Fields added to every log line written inside the span, e.g. the run and step ids */
+	logFields?: Record<string, unknown>;
+	/** Trace to start when there is no parent span, e.g. one derived from a workflow run id */
+	traceId?: string;
+}
+
+interface ActiveSpan {
+	span: Span;
+	logFields: Record<string, unknown>;
+}
+
+const activeSpans = new AsyncLocalStorage<ActiveSpan>();
+
+function randomId(bytes: number): string {
+	return randomBytes(bytes).toString("hex");
+}
+
+function nowUnixNano(): string {
+	const ms = performance.timeOrigin + performance.now();
+	return (BigInt(Math.round(ms * 1000)) * 1000n).toString();
+}
+
+/**
+ * Turns a workflow run id into a trace id, so every step of a run lands in one trace
+ */
+export function traceIdFromRunId(runId: string): string | undefined {
+	const hex = runId.replace(/-/g, "").toLowerCase();
+	return /^[0-9a-f]{32}$/.test(hex) ? hex : undefined;
+}
+
+/**
+ * The span the current code runs in, if any
+ */
+export function currentSpan(): Span | undefined {
+	return activeSpans.getStore()?.span;
+}
+
+/**
+ * Log fields of the current span: its trace and span ids, and the fields of its ancestors
+ */
+export function currentLogFields(): Record<string, unknown> {
+	const active = activeSpans.getStore();
+	return active
+		? {
+				...active.logFields,
+				traceId: active.span.traceId,
+				spanId: active.span.spanId,
+			}
+		: {};
+}
+
+let exporter: SpanExporter | undefined;
+let pending: SpanRecord[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | undefined;
+
+const BATCH_SIZE = 64;
+const FLUSH_INTERVAL_MS = 2_000;
+
+/**
+ * Sends every finished span to the exporter
+ */
+export async function flushSpans(): Promise<void> {
+	clearTimeout(flushTimer);
+	flushTimer = undefined;
+	const batch = pending;
+	pending = [];
+	if (!exporter || batch.length === 0) {
+		return;
+	}
+	try {
+		await exporter.export(batch);
+	} catch (error) {
+		// Tracing must never break a run
+		createLogger("Tracing").error(`Failed to export ${batch.length} span(s)`, {
+			error,
+		});
+	}
+}
+
+function queueSpan(record: SpanRecord): void {
+	if (!exporter) {
+		return;
+	}
+	pending.push(record);
+	if (pending.length >= BATCH_SIZE) {
+		void flushSpans();
+	} else if (!flushTimer) {
+		flushTimer = setTimeout(() => void flushSpans(), FLUSH_INTERVAL_MS);
+		flushTimer.unref();
+	}
+}
+
+/**
+ * Sets where finished spans go. Without an exporter spans are not kept.
+ */
+export function setSpanExporter(next: SpanExporter | undefined): void {
+	exporter = next;
+	pending = [];
+}
+
+/**
+ * Runs a call inside a span. The span ends when the call settles, and records
+ * the error message if it throws.
+ *
+ * @param name Span name, e.g. "graphql.request"
+ * @param options Kind, attributes and log fields of the span
+ * @param call Work to trace; receives the span to add attributes to
+ */
+export async function withSpan<T>(
+	name: string,
+	options: SpanOptions,
+	call: (span: Span) => Promise<T>,
+): Promise<T> {
+	const parent = activeSpans.getStore();
+	const attributes: Record<string, SpanAttributeValue> = {};
+	const span: Span = {
+		traceId: parent?.span.traceId ?? options.traceId ?? randomId(16),
+		spanId: randomId(8),
+		setAttributes(values) {
+			for (const [key, value] of Object.entries(values)) {
+				if (value !== undefined) {
+					attributes[key] = value;
+				}
+			}
+		},
+	};
+	span.setAttributes(options.attributes ?? {});
+
+	const startTimeUnixNano = nowUnixNano();
+	const finish = (status: SpanRecord["status"]) =>
+		queueSpan({
+			traceId: span.traceId,
+			spanId: span.spanId,
+			parentSpanId: parent?.span.spanId,
+			name,
+			kind: options.kind ?? "internal",
+			startTimeUnixNano,
+			endTimeUnixNano: nowUnixNano(),
+			attributes,
+			status,
+		});
+
+	return activeSpans.run(
+		{ span, logFields: { ...parent?.logFields, ...options.logFields } },
+		async () => {
+			try {
+				const result = await call(span);
+				finish({ code: "ok" });
+				return result;
+			} catch (error) {
+				finish({
+					code: "error",
+					message: error instanceof Error ? error.message : String(error),
+				});
+				throw error;
+			}
+		},
+	);
+}
+
+/**
+ * Wraps a workflow step's execute function in a span carrying the run and step
+ * ids, which log lines written during the step include too
+ */
+export function traceStep<TArgs, TOutput>(
+	stepId: string,
+	execute: (args: TArgs) => Promise<TOutput>,
+): (args: TArgs & { runId?: string }) => Promise<TOutput> {
+	return (args) =>
+		withSpan(
+			`workflow.step ${stepId}`,
+			{
+				attributes: {
+					"workflow.run_id": args.runId,
+					"workflow.step_id": stepId,
+				},
+				logFields: { runId: args.runId, stepId },
+				traceId: args.runId ? traceIdFromRunId(args.runId) : undefined,
+			},
+			() => execute(args),
+		);
+}
+
+/**
+ * Appends spans to a file, one JSON object per line
+ */
+export function createFileSpanExporter(file: string): SpanExporter {
+	fs.mkdirSync(path.dirname(file), { recursive: true });
+	return {
+		async export(spans) {
+			await fs.promises.appendFile(
+				file,
+				spans.map((span) => `${JSON.stringify(span)}\n`).join(""),
+			);
+		},
+	};
+}
+
+function toOtlpValue(value: SpanAttributeValue) {
+	if (typeof value === "boolean") {
+		return { boolValue: value };
+	}
+	if (typeof value === "number") {
+		return Number.isInteger(value)
+			? { intValue: value }
+			: { doubleValue: value };
+	}
+	return { stringValue: value };
+}
+
+/**
+ * Sends spans to an OpenTelemetry collector over OTLP/HTTP with JSON encoding
+ *
+ * @param endpoint Collector base url, e.g. http://localhost:4318
+ * @param serviceName Reported as the service.name resource attribute
+ */
+export function createOtlpSpanExporter(
+	endpoint: string,
+	serviceName: string,
+): SpanExporter {
+	const url = `${endpoint.replace(/\/$/, "")}/v1/traces`;
+	return {
+		async export(spans) {
+			const response = await fetch(url, {
+				method: "POST",
+				headers: { "content-type": "application/json" },
+				body: JSON.stringify({
+					resourceSpans: [
+						{
+							resource: {
+								attributes: [
+									{ key: "service.name", value: { stringValue: serviceName } },
+								],
+							},
+							scopeSpans: [
+								{
+									scope: { name: serviceName },
+									spans: spans.map((span) => ({
+										traceId: span.traceId,
+										spanId: span.spanId,
+										parentSpanId: span.parentSpanId,
+										name: span.name,
+										// SPAN_KIND_INTERNAL and SPAN_KIND_CLIENT
+										kind: span.kind === "client" ? 3 : 1,
+										startTimeUnixNano: span.startTimeUnixNano,
+										endTimeUnixNano: span.endTimeUnixNano,
+										attributes: Object.entries(span.attributes).map(
+											([key, value]) => ({ key, value: toOtlpValue(value) }),
+										),
+										// STATUS_CODE_OK and STATUS_CODE_ERROR
+										status: {
+											code: span.status.code === "ok" ? 1 : 2,
+											message: span.status.message,
+										},
+									})),
+								},
+							],
+						},
+					],
+				}),
+				signal: AbortSignal.timeout(10_000),
+			});
+			if (!response.ok) {
+				throw new Error(
+					`Collector at ${url} responded ${response.status} ${response.statusText}`,
+				);
+			}
+		},
+	};
+}
+
+// Export spans when TRACE_EXPORTER asks for it: "otlp" sends them to
+// OTEL_EXPORTER_OTLP_ENDPOINT, "file" appends them to TRACE_FILE
+if (process.env.TRACE_EXPORTER === "otlp") {
+	setSpanExporter(
+		createOtlpSpanExporter(
+			process.env.OTEL_EXPORTER_OTLP_ENDPOINT || "http://localhost:4318",
+			process.env.OTEL_SERVICE_NAME || "graphql-agents",
+		),
+	);
+} else if (process.env.TRACE_EXPORTER === "file") {
+	setSpanExporter(
+		createFileSpanExporter(
+			process.env.TRACE_FILE ||
+				path.join(process.cwd(), ".cache", "traces", "spans.jsonl"),
+		),
+	);
+}
+if (exporter) {
+	process.once("beforeExit", () => void flushSpans());
+}
@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import {
+	type RetrievedChunk,
+	fuseResults,
+	maximalMarginalRelevance,
+	reciprocalRankFusion,
+	toSqlConditions,
+	toVectorFilter,
+} from "../index";
+
+describe("reciprocalRankFusion", () => {
+	it("ranks ids found by both rankings above ids found by one", () => {
+		const fused = reciprocalRankFusion(
+			[
+				["a", "b", "c"],
+				["c", "d"],
+			],
+			60,
+		);
+
+		expect(fused.get("c")).toBeCloseTo(1 / 63 + 1 / 61);
+		expect(
+			[...fused.entries()].sort((x, y) => y[1] - x[1]).map(([id]) => id),
+		).toEqual(["c", "a", "b", "d"]);
+		expect(fused.get("b")).toBe(fused.get("d"));
+	});
+});
+
+describe("fuseResults", () => {
+	it("reports every component score, computing similarity of keyword-only hits", () => {
+		const chunks = fuseResults(
+			[
+				{ id: "similar", score: 0.8, metadata: { text: "round funding" } },
+				{ id: "both", score: 0.6, metadata: { text: "roundMetadataCid" } },
+			],
+			[
+				{ id: "both", score: 0.4, metadata: { text: "roundMetadataCid" } },
+				{
+					id: "exact",
+					score: 0.2,
+					metadata: { text: "DonationVotingMerkleDistributionBaseStrategy" },
+					vector: [0, 1],
+				},
+			],
+			{ queryVector: [1, 1] },
+		);
+
+		expect(chunks.map(({ id }) => id)).toEqual(["both", "similar", "exact"]);
+		expect(chunks[0].scores).toEqual({
+			vector: 0.6,
+			keyword: 0.4,
+			fused: chunks[0].score,
+		});
+		expect(chunks[1].scores.keyword).toBeUndefined();
+		expect(chunks[2].scores.vector).toBeCloseTo(Math.SQRT1_2);
+	});
+});
+
+describe("maximalMarginalRelevance", () => {
+	const chunk = (
+		id: string,
+		score: number,
+		vector: number[],
+	): RetrievedChunk => ({
+		id,
+		metadata: {},
+		vector,
+		score,
+		scores: {},
+	});
+
+	const candidates = [
+		chunk("first", 1, [1, 0]),
+		chunk("duplicate", 0.95, [1, 0]),
+		chunk("different", 0.5, [0, 1]),
+	];
+
+	it("skips near duplicates of chunks already picked", () => {
+		const picked = maximalMarginalRelevance(candidates, 2, 0.5);
+
+		expect(picked.map(({ id }) => id)).toEqual(["first", "different"]);
+		expect(picked[0].scores.mmr).toBeCloseTo(0.5);
+	});
+
+	it("keeps the ranking when lambda is 1", () => {
+		expect(
+			maximalMarginalRelevance(candidates, 2, 1).map(({ id }) => id),
+		).toEqual(["first", "duplicate"]);
+	});
+});
+
+describe("metadata filters", () => {
+	const filter = {
+		elementType: { in: ["event", "struct"] },
+		containsFilterTypes: true,
+	};
+
+	it("translates { in } into PgVector's $in", () => {
+		expect(toVectorFilter(filter)).toEqual({
+			elementType: { $in: ["event", "struct"] },
+			containsFilterTypes: true,
+		});
+	});
+
+	it("builds parameterized SQL comparing values as text", () => {
+		expect(toSqlConditions(filter, 3)).toEqual({
+			sql: "metadata->>'elementType' = ANY($3::text[]) AND metadata->>'containsFilterTypes' = $4",
+			values: [["event", "struct"], "true"],
+		});
+		expect(toSqlConditions({}, 3)).toEqual({ sql: "true", values: [] });
+	});
+
+	it("rejects field names that are not identifiers", () => {
+		expect(() => toSqlConditions({ "x' OR '1'='1": "y" }, 1)).toThrow();
+	});
+});
@@ -0,0 +1,62 @@
+import { z } from "zod";
+
+const filterValue = z.union([z.string(), z.number(), z.boolean()]);
+
+/**
+ * Conditions on a chunk's metadata, all of which must hold: a value the field
+ * must equal, or { in: [...] } for values it may equal
+ */
+export const metadataFilterSchema = z.record(
+	z
+		.string()
+		.regex(
+			/^[A-Za-z_][A-Za-z0-9_]*$/,
+			"Use a metadata field name, e.g. elementType",
+		),
+	z.union([filterValue, z.object({ in: z.array(filterValue).min(1) })]),
+);
+
+export type MetadataFilter = z.infer<typeof metadataFilterSchema>;
+
+/**
+ * Translates a filter into PgVector's query filter
+ */
+export function toVectorFilter(
+	filter: MetadataFilter,
+): Record<string, unknown> {
+	return Object.fromEntries(
+		Object.entries(filter).map(([field, condition]) => [
+			field,
+			typeof condition === "object" ? { $in: condition.in } : condition,
+		]),
+	);
+}
+
+/**
+ * Translates a filter into SQL conditions on the metadata column. Values are
+ * compared as text, like PgVector does, so true matches a stored boolean true.
+ *
+ * @param firstParam Number of the first SQL parameter the conditions may use
+ * @returns The conditions joined with AND ("true" for an empty filter) and their parameters
+ */
+export function toSqlConditions(
+	filter: MetadataFilter,
+	firstParam: number,
+): { sql: string; values: unknown[] } {
+	const values: unknown[] = [];
+	// Field names end up in the SQL, so they must pass the schema
+	const conditions = Object.entries(metadataFilterSchema.parse(filter)).map(
+		([field, condition]) => {
+			values.push(
+				typeof condition === "object"
+					? condition.in.map(String)
+					: String(condition),
+			);
+			const param = `$${firstParam + values.length - 1}`;
+			return typeof condition === "object"
+				? `metadata->>'${field}' = ANY(${param}::text[])`
+				: `metadata->>'${field}' = ${param}`;
+		},
+	);
+	return { sql: conditions.join(" AND ") || "true", values };
+}
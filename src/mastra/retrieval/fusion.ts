@@ -0,0 +1,177 @@
+/**
+ * Scores of a retrieved chunk from each stage that ranked it
+ */
+export interface ComponentScores {
+	/** Cosine similarity between the query and the chunk */
+	vector?: number;
+	/** Full-text rank of the chunk, when keyword search matched it */
+	keyword?: number;
+	/** Reciprocal rank fusion of the vector and keyword rankings */
+	fused?: number;
+	/** Relevance assigned by the reranker */
+	rerank?: number;
+	/** Marginal relevance when MMR picked the chunk */
+	mmr?: number;
+}
+
+/**
+ * A candidate chunk moving through the retrieval stages
+ */
+export interface RetrievedChunk {
+	id: string;
+	metadata: Record<string, unknown>;
+	vector?: number[];
+	/** Score of the stage that ranked the chunk last */
+	score: number;
+	scores: ComponentScores;
+}
+
+interface RankedResult {
+	id: string;
+	score: number;
+	metadata?: Record<string, unknown>;
+	vector?: number[];
+}
+
+/**
+ * Cosine similarity of two vectors, 0 when either is all zeros
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+	let dot = 0;
+	let normA = 0;
+	let normB = 0;
+	for (let i = 0; i < a.length; i++) {
+		dot += a[i] * b[i];
+		normA += a[i] * a[i];
+		normB += b[i] * b[i];
+	}
+	return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Combines rankings by reciprocal rank fusion: each ranking adds 1 / (k + rank)
+ * to the score of every id it holds, so ids ranked well by several rankings
+ * come first without having to compare their scores.
+ *
+ * @param rankings Ids in ranked order, best first
+ * @param k Damping constant; larger values flatten the difference between ranks
+ */
+export function reciprocalRankFusion(
+	rankings: string[][],
+	k = 60,
+): Map<string, number> {
+	const fused = new Map<string, number>();
+	for (const ranking of rankings) {
+		ranking.forEach((id, index) => {
+			fused.set(id, (fused.get(id) ?? 0) + 1 / (k + index + 1));
+		});
+	}
+	return fused;
+}
+
+/**
+ * Merges vector and keyword results into one list ordered by their fused rank.
+ * Chunks only keyword search found get their vector similarity computed from
+ * the stored vector, so every chunk reports both scores where possible.
+ *
+ * @param vectorResults Vector search results, most similar first
+ * @param keywordResults Full-text search results, best match first
+ * @param options.queryVector Embedding of the query
+ * @param options.rrfK Damping constant of reciprocal rank fusion
+ */
+export function fuseResults(
+	vectorResults: RankedResult[],
+	keywordResults: RankedResult[],
+	options: { queryVector: number[]; rrfK?: number },
+): RetrievedChunk[] {
+	const fused = reciprocalRankFusion(
+		[vectorResults.map(({ id }) => id), keywordResults.map(({ id }) => id)],
+		options.rrfK,
+	);
+
+	const chunks = new Map<string, RetrievedChunk>();
+	for (const result of vectorResults) {
+		chunks.set(result.id, {
+			id: result.id,
+			metadata: result.metadata ?? {},
+			vector: result.vector,
+			score: 0,
+			scores: { vector: result.score },
+		});
+	}
+	for (const result of keywordResults) {
+		const chunk = chunks.get(result.id) ?? {
+			id: result.id,
+			metadata: result.metadata ?? {},
+			vector: result.vector,
+			score: 0,
+			scores: {
+				vector: result.vector
+					? cosineSimilarity(options.queryVector, result.vector)
+					: undefined,
+			},
+		};
+		chunk.vector ??= result.vector;
+		chunk.scores.keyword = result.score;
+		chunks.set(result.id, chunk);
+	}
+
+	return [...chunks.values()]
+		.map((chunk) => {
+			const score = fused.get(chunk.id) ?? 0;
+			return { ...chunk, score, scores: { ...chunk.scores, fused: score } };
+		})
+		.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Picks chunks by maximal marginal relevance: each pick trades the chunk's
+ * relevance against its similarity to the chunks already picked, so near
+ * duplicates don't fill every slot.
+ *
+ * @param chunks Candidates ranked by relevance; their score is the relevance
+ * @param topK Number of chunks to pick
+ * @param lambda 1 ranks by relevance alone, 0 by diversity alone
+ */
+export function maximalMarginalRelevance(
+	chunks: RetrievedChunk[],
+	topK: number,
+	lambda: number,
+): RetrievedChunk[] {
+	if (chunks.length === 0) {
+		return [];
+	}
+	// Relevance scores differ in scale between stages, so bring them to [0, 1]
+	const scores = chunks.map(({ score }) => score);
+	const min = Math.min(...scores);
+	const range = Math.max(...scores) - min || 1;
+	const relevance = new Map(
+		chunks.map((chunk) => [chunk, (chunk.score - min) / range]),
+	);
+
+	const remaining = [...chunks];
+	const picked: RetrievedChunk[] = [];
+	while (picked.length < topK && remaining.length > 0) {
+		let best = 0;
+		let bestScore = Number.NEGATIVE_INFINITY;
+		remaining.forEach((chunk, index) => {
+			const redundancy = Math.max(
+				0,
+				...picked.map((other) =>
+					chunk.vector && other.vector
+						? cosineSimilarity(chunk.vector, other.vector)
+						: 0,
+				),
+			);
+			const score =
+				lambda * (relevance.get(chunk) ?? 0) - (1 - lambda) * redundancy;
+			if (score > bestScore) {
+				best = index;
+				bestScore = score;
+			}
+		});
+		const [chunk] = remaining.splice(best, 1);
+		picked.push({ ...chunk, scores: { ...chunk.scores, mmr: bestScore } });
+	}
+	return picked;
+}
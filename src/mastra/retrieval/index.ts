@@ -0,0 +1,53 @@
+export {
+	type ComponentScores,
+	type RetrievedChunk,
+	cosineSimilarity,
+	fuseResults,
+	maximalMarginalRelevance,
+	reciprocalRankFusion,
+} from "./fusion";
+export {
+	type MetadataFilter,
+	metadataFilterSchema,
+	toSqlConditions,
+	toVectorFilter,
+} from "./filter";
+export {
+	DEFAULT_TEXT_SEARCH_CONFIG,
+	type KeywordMatch,
+	type KeywordSearch,
+	createKeywordSearch,
+	createTextIndex,
+} from "./keyword-search";
+export { SQL_IDENTIFIER, getPool } from "./pool";
+export {
+	type Reranker,
+	type RerankerKind,
+	createCrossEncoderReranker,
+	createLlmReranker,
+	createReranker,
+} from "./rerank";
+
+/**
+ * How a vector index is searched. Every stage after the first is optional.
+ */
+export interface RetrievalOptions {
+	/**
+	 * "vector" ranks by embedding similarity alone; "hybrid" also runs a
+	 * Postgres full-text search and fuses both rankings by reciprocal rank
+	 * fusion, which finds exact identifiers embeddings miss (default: vector)
+	 */
+	mode?: "vector" | "hybrid";
+	/** Results each search contributes to fusion, reranking and MMR (default: 4 × topK) */
+	candidates?: number;
+	/** Damping constant of reciprocal rank fusion (default: 60) */
+	rrfK?: number;
+	/** Postgres text search configuration of the keyword search (default: english) */
+	textSearchConfig?: string;
+	/** Reorders the candidates with an LLM or a local cross-encoder */
+	rerank?: "none" | "llm" | "cross-encoder";
+	/** Cross-encoder model, e.g. Xenova/ms-marco-MiniLM-L-6-v2 */
+	rerankModel?: string;
+	/** Diversifies the final results by MMR; 1 keeps the ranking, lower values favour diversity */
+	mmrLambda?: number;
+}
@@ -0,0 +1,117 @@
+import { type MetadataFilter, toSqlConditions } from "./filter";
+import { SQL_IDENTIFIER, getPool } from "./pool";
+
+/** Text search configuration used when an index's retrieval settings name none */
+export const DEFAULT_TEXT_SEARCH_CONFIG = "english";
+
+/**
+ * A chunk matched by full-text search
+ */
+export interface KeywordMatch {
+	id: string;
+	/** ts_rank_cd of the chunk's text against the query */
+	score: number;
+	metadata: Record<string, unknown>;
+	vector?: number[];
+}
+
+export interface KeywordSearch {
+	/**
+	 * Finds the chunks whose text shares words with the query, best matches first
+	 *
+	 * @param params.textSearchConfig Postgres text search configuration, e.g. "english" or "simple"
+	 * @param params.filter Conditions the chunks' metadata must meet
+	 */
+	search(params: {
+		indexName: string;
+		query: string;
+		topK: number;
+		textSearchConfig: string;
+		filter?: MetadataFilter;
+	}): Promise<KeywordMatch[]>;
+}
+
+/**
+ * The chunk text as a tsvector. The GIN index is built on this exact
+ * expression, so queries must use it verbatim to be served by the index.
+ */
+function documentVector(textSearchConfig: string): string {
+	return `to_tsvector('${textSearchConfig}'::regconfig, coalesce(metadata->>'text', metadata->>'content', ''))`;
+}
+
+/**
+ * Builds the GIN index the keyword search of an index is served by. This is
+ * DDL, so it runs at ingestion; searching works without it, just slower.
+ *
+ * @param pgConnectionString PostgreSQL connection string
+ * @param textSearchConfig Text search configuration the index will be searched with
+ */
+export async function createTextIndex(
+	pgConnectionString: string,
+	indexName: string,
+	textSearchConfig = DEFAULT_TEXT_SEARCH_CONFIG,
+): Promise<void> {
+	if (!SQL_IDENTIFIER.test(indexName)) {
+		throw new Error(`Invalid index name "${indexName}"`);
+	}
+	if (!SQL_IDENTIFIER.test(textSearchConfig)) {
+		throw new Error(`Invalid text search configuration "${textSearchConfig}"`);
+	}
+	await getPool(pgConnectionString).query(
+		`CREATE INDEX IF NOT EXISTS ${indexName}_${textSearchConfig}_text_idx ON ${indexName} USING gin ((${documentVector(textSearchConfig)}))`,
+	);
+}
+
+/**
+ * Creates a Postgres full-text search over the text stored with each chunk of
+ * a vector index. Any word of the query can match, so natural language
+ * questions still find chunks naming an exact identifier like roundMetadataCid.
+ * It only reads; the full-text index is built by createTextIndex at ingestion.
+ *
+ * @param pgConnectionString PostgreSQL connection string
+ */
+export function createKeywordSearch(pgConnectionString: string): KeywordSearch {
+	const pool = getPool(pgConnectionString);
+
+	return {
+		async search({ indexName, query, topK, textSearchConfig, filter = {} }) {
+			if (!SQL_IDENTIFIER.test(indexName)) {
+				throw new Error(`Invalid index name "${indexName}"`);
+			}
+			if (!SQL_IDENTIFIER.test(textSearchConfig)) {
+				throw new Error(
+					`Invalid text search configuration "${textSearchConfig}"`,
+				);
+			}
+			const conditions = toSqlConditions(filter, 3);
+
+			// plainto_tsquery joins the words with AND; match any of them instead
+			const { rows } = await pool.query<{
+				id: string;
+				score: number;
+				metadata: Record<string, unknown> | null;
+				embedding: string | null;
+			}>(
+				`WITH query AS (
+					SELECT replace(plainto_tsquery('${textSearchConfig}'::regconfig, $1)::text, ' & ', ' | ')::tsquery AS q
+				)
+				SELECT vector_id AS id,
+					ts_rank_cd(${documentVector(textSearchConfig)}, query.q) AS score,
+					metadata,
+					embedding::text AS embedding
+				FROM ${indexName}, query
+				WHERE query.q::text <> '' AND ${documentVector(textSearchConfig)} @@ query.q
+					AND ${conditions.sql}
+				ORDER BY score DESC
+				LIMIT $2`,
+				[query, topK, ...conditions.values],
+			);
+			return rows.map(({ id, score, metadata, embedding }) => ({
+				id,
+				score: Number(score),
+				metadata: metadata ?? {},
+				vector: embedding ? (JSON.parse(embedding) as number[]) : undefined,
+			}));
+		},
+	};
+}
@@ -0,0 +1,24 @@
+import pg from "pg";
+
+/**
+ * Names that may be interpolated into SQL. PgVector names each index's table
+ * after the index, so index names must match this too.
+ */
+export const SQL_IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const pools = new Map<string, pg.Pool>();
+
+/**
+ * Connection pool of a database, shared by everything that reads the vector
+ * tables directly. Connections are only opened by the first query.
+ *
+ * @param pgConnectionString PostgreSQL connection string
+ */
+export function getPool(pgConnectionString: string): pg.Pool {
+	let pool = pools.get(pgConnectionString);
+	if (!pool) {
+		pool = new pg.Pool({ connectionString: pgConnectionString, max: 4 });
+		pools.set(pgConnectionString, pool);
+	}
+	return pool;
+}
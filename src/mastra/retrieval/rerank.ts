@@ -0,0 +1,145 @@
+import type {
+	PreTrainedModel,
+	PreTrainedTokenizer,
+	Tensor,
+} from "@huggingface/transformers";
+import { Agent } from "@mastra/core/agent";
+import { z } from "zod";
+import { createRoleModel } from "../config/models";
+import { loadTransformers } from "../embeddings";
+import { generateWithFixtures } from "../fixtures";
+
+/**
+ * Scores how well passages answer a query, to reorder retrieved chunks
+ */
+export interface Reranker {
+	/** Name shown in logs and span attributes */
+	readonly id: string;
+	/**
+	 * Scores each passage against the query, higher is more relevant. Scores are
+	 * only comparable within one call.
+	 */
+	score(query: string, passages: string[]): Promise<number[]>;
+}
+
+export type RerankerKind = "llm" | "cross-encoder";
+
+const DEFAULT_CROSS_ENCODER = "Xenova/ms-marco-MiniLM-L-6-v2";
+
+// Longer passages are cut, the start of a chunk says what it is about
+const MAX_PASSAGE_CHARS = 1_200;
+
+// Pairs scored per model call, to bound memory use on CPU
+const CROSS_ENCODER_BATCH_SIZE = 16;
+
+const rerankOutput = z.object({
+	scores: z.array(
+		z.object({
+			passage: z.number().int().describe("Number of the passage"),
+			score: z
+				.number()
+				.min(0)
+				.max(10)
+				.describe(
+					"0 when the passage is irrelevant, 10 when it answers the query",
+				),
+		}),
+	),
+});
+
+let rerankAgent: Agent | undefined;
+
+/**
+ * Reranks with the registry's reranker models, which grade every passage in one call
+ */
+export function createLlmReranker(): Reranker {
+	return {
+		id: "llm",
+		async score(query, passages) {
+			rerankAgent ??= new Agent({
+				name: "Reranker",
+				instructions:
+					"You grade how relevant retrieved passages are to a search query. Grade every passage on its own, from 0 (irrelevant) to 10 (directly answers the query). Exact matches of identifiers, type or field names in the query are strong evidence of relevance.",
+				model: createRoleModel("reranker"),
+			});
+			const prompt = `Query: ${query}\n\n${passages
+				.map(
+					(passage, index) =>
+						`Passage ${index + 1}:\n${passage.slice(0, MAX_PASSAGE_CHARS)}`,
+				)
+				.join("\n\n")}\n\nGrade each of the ${passages.length} passages.`;
+			const { object } = await generateWithFixtures(
+				rerankAgent,
+				prompt,
+				rerankOutput,
+			);
+			const scores = new Array<number>(passages.length).fill(0);
+			for (const { passage, score } of object?.scores ?? []) {
+				if (passage >= 1 && passage <= passages.length) {
+					scores[passage - 1] = score;
+				}
+			}
+			return scores;
+		},
+	};
+}
+
+/**
+ * Reranks on the CPU with a transformers.js cross-encoder, which reads the
+ * query and passage together and so judges relevance better than comparing
+ * their embeddings
+ *
+ * @param model Hugging Face model id of a cross-encoder with a single relevance logit
+ */
+export function createCrossEncoderReranker(
+	model = DEFAULT_CROSS_ENCODER,
+): Reranker {
+	let loaded:
+		| Promise<{ tokenizer: PreTrainedTokenizer; classifier: PreTrainedModel }>
+		| undefined;
+
+	return {
+		id: `cross-encoder:${model}`,
+		async score(query, passages) {
+			loaded ??= loadTransformers(model)
+				.then(async (transformers) => ({
+					tokenizer: await transformers.AutoTokenizer.from_pretrained(model),
+					classifier:
+						await transformers.AutoModelForSequenceClassification.from_pretrained(
+							model,
+						),
+				}))
+				.catch((error) => {
+					loaded = undefined;
+					throw error;
+				});
+			const { tokenizer, classifier } = await loaded;
+
+			const scores: number[] = [];
+			for (let i = 0; i < passages.length; i += CROSS_ENCODER_BATCH_SIZE) {
+				const batch = passages
+					.slice(i, i + CROSS_ENCODER_BATCH_SIZE)
+					.map((passage) => passage.slice(0, MAX_PASSAGE_CHARS));
+				const inputs = tokenizer(
+					batch.map(() => query),
+					{ text_pair: batch, padding: true, truncation: true },
+				);
+				// One row of logits per pair, holding the single relevance logit
+				const { logits }: { logits: Tensor } = await classifier(inputs);
+				scores.push(...(logits.tolist() as number[][]).map(([logit]) => logit));
+			}
+			return scores;
+		},
+	};
+}
+
+/**
+ * Creates a reranker of the given kind
+ *
+ * @param model Cross-encoder model; the LLM reranker uses the registry's reranker role
+ */
+export function createReranker(kind: RerankerKind, model?: string): Reranker {
+	return kind === "llm"
+		? createLlmReranker()
+		: createCrossEncoderReranker(model);
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import {
+	type QueryAttempt,
+	findRepeatedAttempt,
+	formatAttemptHistory,
+} from "../attempts";
+
+const attempts: QueryAttempt[] = [
+	{
+		attempt: 1,
+		query: "query Rounds($id: String!) { rounds(id: $id) { id } }",
+		variables: '{"id": "865"}',
+		success: false,
+		error: 'Cannot query field "rounds"',
+	},
+];
+
+describe("findRepeatedAttempt", () => {
+	it("matches failed attempts regardless of formatting", () => {
+		const repeated = findRepeatedAttempt(
+			attempts,
+			`query Rounds($id: String!) {
+				rounds(id: $id) {
+					id
+				}
+			}`,
+			'{ "id":"865" }',
+		);
+
+		expect(repeated?.attempt).toBe(1);
+		expect(
+			findRepeatedAttempt(attempts, attempts[0].query, '{"id": "867"}'),
+		).toBeUndefined();
+	});
+});
+
+describe("formatAttemptHistory", () => {
+	it("includes each attempt's query and error", () => {
+		const history = formatAttemptHistory(attempts);
+
+		expect(history).toContain('<attempt number="1">');
+		expect(history).toContain('Cannot query field "rounds"');
+	});
+});
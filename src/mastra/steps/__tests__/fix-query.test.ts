@@ -1,7 +1,79 @@
-import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { WorkflowContext } from "@mastra/core";
+import { describe, expect, it, vi } from "vitest";
+// The agents import the workflows built from these steps, so load those first
+import "../../workflows";
+import { getQueryAttempts, isQueryResolved } from "../fix-query";
 
-describe("newQueryAnalysis Workflow", () => {
-	it("should pass", () => {
-		expect(true).toBe(true);
+vi.hoisted(() => {
+	// The tools refuse to load without a connection string; nothing connects here
+	process.env.POSTGRES_URL = "postgres://fixtures@localhost:5432/fixtures";
+});
+
+function createContext(
+	steps: Record<string, unknown>,
+	triggerData: Record<string, unknown> = {},
+): WorkflowContext {
+	return {
+		triggerData,
+		getStepResult: (id: string) => steps[id],
+	} as unknown as WorkflowContext;
+}
+
+const failed = {
+	query: "{ rounds { name } }",
+	variables: "{}",
+	explanation: "",
+	response: "",
+	success: false,
+	errors: 'Cannot query field "name" on type "Round".',
+};
+
+describe("getQueryAttempts", () => {
+	it("starts from the initial query before any retry ran", () => {
+		const context = createContext({ generateQuery: failed });
+
+		expect(getQueryAttempts(context)).toEqual([
+			{
+				attempt: 1,
+				query: failed.query,
+				variables: "{}",
+				success: false,
+				error: failed.errors,
+			},
+		]);
+	});
+});
+
+describe("isQueryResolved", () => {
+	it("continues while fix attempts remain", async () => {
+		const context = createContext(
+			{ generateQuery: failed },
+			{ maxAttempts: 1 },
+		);
+
+		expect(await isQueryResolved({ context })).toBe(false);
+	});
+
+	it("stops once the attempts run out", async () => {
+		const attempts = [1, 2].map((attempt) => ({
+			attempt,
+			query: failed.query,
+			variables: "{}",
+			success: false,
+		}));
+		const context = createContext(
+			{ retryQuery: { ...failed, attempts } },
+			{ maxAttempts: 1 },
+		);
+
+		expect(await isQueryResolved({ context })).toBe(true);
+	});
+
+	it("stops on transient errors without rewriting the query", async () => {
+		const context = createContext({
+			generateQuery: { ...failed, errorCategory: "rate_limit" },
+		});
+
+		expect(await isQueryResolved({ context })).toBe(true);
 	});
 });
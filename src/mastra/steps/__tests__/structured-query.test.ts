@@ -0,0 +1,104 @@
+import type { Agent } from "@mastra/core/agent";
+import { buildSchema } from "graphql";
+import { describe, expect, it, vi } from "vitest";
+import {
+	createValidatedQuerySchema,
+	generateStructuredQuery,
+} from "../structured-query";
+
+const schema = buildSchema(`
+	type Round {
+		id: String!
+	}
+
+	type Query {
+		rounds(id: String, chainId: Int): [Round!]!
+	}
+`);
+
+const query =
+	"query Rounds($roundId: String!, $chainId: Int!) { rounds(id: $roundId, chainId: $chainId) { id } }";
+
+describe("createValidatedQuerySchema", () => {
+	it("accepts a query whose variables match its definitions", () => {
+		const result = createValidatedQuerySchema(schema).safeParse({
+			query,
+			variables: '{ "roundId": "865", "chainId": 42161 }',
+			explanation: "Fetches round 865",
+		});
+
+		expect(result.success).toBe(true);
+	});
+
+	it("rejects unparsable queries, invalid JSON and mismatched variables", () => {
+		const validated = createValidatedQuerySchema(schema);
+		const issues = (value: { query: string; variables: string }) =>
+			validated
+				.safeParse({ ...value, explanation: "" })
+				.error?.issues.map((issue) => issue.message);
+
+		expect(issues({ query: "query {", variables: "{}" })?.[0]).toMatch(
+			/^Query does not parse/,
+		);
+		expect(issues({ query, variables: "{ roundId: 865 }" })?.[0]).toMatch(
+			/^Variables are not valid JSON/,
+		);
+		expect(
+			issues({
+				query,
+				variables: '{ "roundId": "865", "chainId": "arbitrum", "extra": 1 }',
+			}),
+		).toEqual([
+			'Variable "$extra" is not declared by the query',
+			expect.stringContaining('Variable "$chainId" got invalid value'),
+		]);
+		expect(
+			createValidatedQuerySchema().safeParse({
+				query,
+				variables: '{ "roundId": "865" }',
+				explanation: "",
+			}).error?.issues[0].message,
+		).toBe('Missing value for required variable "$chainId"');
+	});
+});
+
+describe("generateStructuredQuery", () => {
+	it("gives the agent one repair attempt with the validation issues", async () => {
+		const generate = vi
+			.fn()
+			.mockResolvedValueOnce({
+				object: { query, variables: "{}", explanation: "" },
+			})
+			.mockResolvedValueOnce({
+				object: {
+					query,
+					variables: '{ "roundId": "865", "chainId": 42161 }',
+					explanation: "Fetches round 865",
+				},
+			});
+		const agent = { generate } as unknown as Agent;
+
+		const result = await generateStructuredQuery(agent, "Round 865?", schema);
+
+		expect(result.success).toBe(true);
+		expect(generate).toHaveBeenCalledTimes(2);
+		expect(generate.mock.calls[1][0]).toContain(
+			'Variable "$roundId" of required type "String!" was not provided.',
+		);
+	});
+
+	it("fails after the repair attempt is also rejected", async () => {
+		const generate = vi
+			.fn()
+			.mockRejectedValue(new Error("No object generated"));
+		const agent = { generate } as unknown as Agent;
+
+		const result = await generateStructuredQuery(agent, "Round 865?");
+
+		expect(result).toMatchObject({
+			success: false,
+			error: expect.stringContaining("No object generated"),
+		});
+		expect(generate).toHaveBeenCalledTimes(2);
+	});
+});
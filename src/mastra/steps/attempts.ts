@@ -0,0 +1,74 @@
+import { parse, print } from "graphql";
+import { z } from "zod";
+import { GraphQLErrorCategoryType } from "../tools/http-retry";
+
+export const DEFAULT_MAX_FIX_ATTEMPTS =
+	Number(process.env.GRAPHQL_MAX_FIX_ATTEMPTS) || 5;
+
+export const queryAttempt = z.object({
+	attempt: z.number(),
+	query: z.string(),
+	variables: z.string(),
+	success: z.boolean(),
+	error: z.string().optional(),
+	errorCategory: GraphQLErrorCategoryType.optional(),
+	rejected: z
+		.boolean()
+		.optional()
+		.describe("True when the query repeated an earlier one and was not sent"),
+});
+
+export type QueryAttempt = z.infer<typeof queryAttempt>;
+
+/**
+ * Normalizes a query and its variables so formatting differences don't hide a repeat
+ */
+function attemptKey(query: string, variables: string): string {
+	let normalizedQuery = query.trim();
+	try {
+		normalizedQuery = print(parse(query));
+	} catch {}
+
+	let normalizedVariables = variables.trim();
+	try {
+		normalizedVariables = JSON.stringify(JSON.parse(variables || "{}"));
+	} catch {}
+
+	return `${normalizedQuery}\n${normalizedVariables}`;
+}
+
+/**
+ * Returns the earlier failed attempt that sent the same query and variables, if any
+ */
+export function findRepeatedAttempt(
+	attempts: QueryAttempt[],
+	query: string,
+	variables: string,
+): QueryAttempt | undefined {
+	const key = attemptKey(query, variables);
+	return attempts.find(
+		(attempt) =>
+			!attempt.success && attemptKey(attempt.query, attempt.variables) === key,
+	);
+}
+
+/**
+ * Renders previous attempts and their errors for a fix prompt
+ */
+export function formatAttemptHistory(attempts: QueryAttempt[]): string {
+	return attempts
+		.map(
+			({ attempt, query, variables, error }) => `<attempt number="${attempt}">
+<query>
+${query}
+</query>
+<variables>
+${variables}
+</variables>
+<error>
+${error ?? "No error recorded"}
+</error>
+</attempt>`,
+		)
+		.join("\n\n");
+}
@@ -0,0 +1,46 @@
+import { type DomainProfile, getDomainProfile } from "../config/domain-profile";
+import type { QueryExample } from "../tools";
+
+function formatVariables(variables: string): string {
+	try {
+		return JSON.stringify(JSON.parse(variables), null, 2);
+	} catch {
+		return variables;
+	}
+}
+
+/**
+ * Renders past successful queries as prompt examples, falling back to the
+ * domain profile's examples when none were retrieved.
+ */
+export function renderQueryExamples(
+	examples: QueryExample[],
+	profile: DomainProfile = getDomainProfile(),
+): string {
+	const rendered =
+		examples.length > 0
+			? examples
+			: profile.examples.map(({ question, query, variables }) => ({
+					prompt: question,
+					query,
+					variables,
+				}));
+
+	return rendered
+		.map(
+			({ prompt, query, variables }) => `<example>
+<question>
+${prompt}
+</question>
+
+<successful_query>
+${query}
+</successful_query>
+
+<successful_variables>
+${formatVariables(variables)}
+</successful_variables>
+</example>`,
+		)
+		.join("\n\n");
+}
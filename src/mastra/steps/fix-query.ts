@@ -1,15 +1,38 @@
 import { Step, type WorkflowContext } from "@mastra/core";
+import type { IntrospectionQuery } from "graphql";
 import { z } from "zod";
 import { generateMermaidDiagram } from "../../scripts/diagram-gql-schema";
+import { renderDomainContext } from "../config/domain-profile";
 import { gqlExecutionAgent } from "../agents";
-import { graphqlQuery } from "../tools";
+import { createLogger, traceStep } from "../observability";
+import {
+	type GraphQLEndpoint,
+	type GraphQLErrorCategory,
+	type QueryExample,
+	describeOmissions,
+	getEndpoint,
+	isTransientError,
+} from "../tools";
 import { fetchSchemaDefinition, sourceCode } from "./generate-query";
+import {
+	DEFAULT_MAX_FIX_ATTEMPTS,
+	type QueryAttempt,
+	findRepeatedAttempt,
+	formatAttemptHistory,
+	queryAttempt,
+} from "./attempts";
+import { renderQueryExamples } from "./examples";
+import { generateStructuredQuery } from "./structured-query";
 import { fixQueryInputSchema, queryOutput } from "./types";
+import { isOverBudget, withStepUsage } from "./usage";
+
+const log = createLogger("Fix Query");
 
 // Define the structure of the trigger data expected by the fixQuery step
 const FixQueryTriggerDataSchema = z.object({
 	prompt: z.string(),
 	schema: z.string(),
+	typeNames: z.array(z.string()).optional(),
 	relevantSourceCode: z.string().optional(),
 	failedQuery: z.object({
 		query: z.string(),
@@ -17,18 +40,17 @@ const FixQueryTriggerDataSchema = z.object({
 		explanation: z.string().optional(),
 		error: z.any(),
 	}),
+	previousAttempts: z.array(queryAttempt).optional(),
 });
 
 type FixQueryTriggerData = z.infer<typeof FixQueryTriggerDataSchema>;
-type ParsedAgentResponse = {
-	query: string;
-	variables: string;
-	rawResponse: string;
-};
+type QueryOutput = z.infer<typeof queryOutput>;
 type ExecuteQueryResult = {
 	success: boolean;
 	data?: unknown;
 	errors?: unknown;
+	errorCategory?: GraphQLErrorCategory;
+	truncation?: string;
 };
 
 /**
@@ -37,39 +59,53 @@ type ExecuteQueryResult = {
 function validateInputData(
 	context: WorkflowContext,
 ): FixQueryTriggerData | null {
-	console.log("Validating input data for fixQuery...");
+	log.debug("Validating input data for fixQuery");
 	const schema = context.getStepResult(fetchSchemaDefinition);
 	const relevantSourceCode = context.getStepResult(sourceCode);
 	const inputData = {
 		prompt: context.triggerData.prompt,
 		schema: schema.schema,
+		typeNames: schema.typeNames,
 		relevantSourceCode: relevantSourceCode.relevantSourceCode,
-		failedQuery: {
-			query: context.triggerData.query,
-			variables: context.triggerData.variables,
-			explanation: context.triggerData.explanation,
-			error: context.triggerData.error,
-		},
+		failedQuery: context.triggerData.failedQuery,
 	};
 
 	const result = FixQueryTriggerDataSchema.safeParse(inputData);
 	if (!result.success) {
-		console.error("Invalid input data for fixQuery:", result.error.flatten());
+		log.error("Invalid input data for fixQuery", {
+			issues: result.error.flatten(),
+		});
 		return null;
 	}
-	console.log("Input data validated successfully for fixQuery.");
+	log.debug("Input data validated successfully for fixQuery");
 	return result.data;
 }
 
 /**
  * Generates the prompt for the AI agent to fix the GraphQL query.
  */
-function generateFixQueryPrompt(data: FixQueryTriggerData): string {
-	const { prompt, schema, relevantSourceCode, failedQuery } = data;
+function generateFixQueryPrompt(
+	endpoint: GraphQLEndpoint,
+	data: FixQueryTriggerData,
+	introspection: IntrospectionQuery,
+	examples: QueryExample[],
+): string {
+	const {
+		prompt,
+		schema,
+		typeNames,
+		relevantSourceCode,
+		failedQuery,
+		previousAttempts,
+	} = data;
 	const { query, variables, explanation, error } = failedQuery;
 
-	const parsedSchema = JSON.parse(schema);
-	const mermaid = generateMermaidDiagram(parsedSchema);
+	const sliceTypes = new Set(typeNames);
+	const mermaid = generateMermaidDiagram({
+		types: introspection.__schema.types.filter((type) =>
+			sliceTypes.has(type.name),
+		),
+	});
 
 	return `
 You are an AI assistant specialized in fixing GraphQL queries that have failed to execute. Your task is to analyze the error, review the schema, and provide a corrected version of the query and variables that will successfully run against the GraphQL server.
@@ -95,68 +131,31 @@ ${explanation || "No explanation provided."}
 <error_message>
 ${typeof error === "string" ? error : JSON.stringify(error)}
 </error_message>
-
-Here's an example of a successful query for reference:
-
-<successful_query>
-query getRoundForExplorer($roundId: String!, $chainId: Int!) {
-  rounds(
-    limit: 1
-    where: {
-      id: { _eq: $roundId }
-      chainId: { _eq: $chainId }
-      roundMetadata: { _isNull: false }
-    }
-  ) {
-    id
-    chainId
-    uniqueDonorsCount
-    applicationsStartTime
-    applicationsEndTime
-    donationsStartTime
-    donationsEndTime
-    matchTokenAddress
-    roundMetadata
-    roundMetadataCid
-    applicationMetadata
-    applicationMetadataCid
-    strategyId
-    projectId
-    strategyAddress
-    strategyName
-    readyForPayoutTransaction
-    applications(where: { status: { _eq: APPROVED } }) {
-      id
-      projectId
-      status
-      metadata
-      anchorAddress
-      project {
-        id
-        anchorAddress
-      }
-    }
-  }
+${
+	previousAttempts?.length
+		? `
+Earlier attempts that also failed. Do not repeat any of them:
+
+<previous_attempts>
+${formatAttemptHistory(previousAttempts)}
+</previous_attempts>
+`
+		: ""
 }
-</successful_query>
+Here are examples of successful queries for reference, with the questions they answered:
 
-<successful_variables>
-{
-  "roundId": "865",
-  "chainId": 42161
-}
-</successful_variables>
+${renderQueryExamples(examples, endpoint.profile)}
 
-Additional context for active GG23 rounds:
-- All rounds are currently active on Arbitrum network (chainId: 42161)
-- dApps and Apps round (roundId: 867)
-- Web3 Infrastructure round (roundId: 865)
-- Developer Tooling and Libraries round (roundId: 863)
+${renderDomainContext(endpoint.profile)}
 
 <graphql_schema>
-${mermaid}
+${schema}
 </graphql_schema>
 
+<entity_relationships>
+${mermaid}
+</entity_relationships>
+
 <relevant_source_code_comments>
 ${relevantSourceCode || "No relevant source code comments found."}
 </relevant_source_code_comments>
@@ -175,27 +174,8 @@ Now, please follow these steps to analyze and fix the query:
 4. Brainstorm multiple potential fixes that would result in a different query from the original.
 5. Choose the most appropriate fix that addresses the error and improves the query.
 6. Implement the chosen fix in both the query and variables.
-7. Ensure the new query is different from the original query.
-8. Format your response as shown in the example below.
-
-Please wrap your output as described below. Do not deviate from the format
-
-Only return output that matches the below structure:
-
-Example output structure:
-<query>
-query ExampleQuery($exampleVar: String!) {
-  exampleField(input: $exampleVar) {
-    subField1
-    subField2
-  }
-}
-</query>
-<variables>
-{
-  "exampleVar": "exampleValue"
-}
-</variables>
+7. Ensure the new query is different from the failed query and every previous attempt; identical queries are rejected without being sent.
+8. Return the corrected query with its variable definitions, the variables as a stringified JSON object containing a value for every declared variable, and a brief explanation of what you changed and why.
 
 Now, please proceed with your analysis and correction of the failed GraphQL query.
 You are an AI assistant tasked with fixing a GraphQL query that failed to execute. Your goal is to correct the query and variables so they can successfully run against the GraphQL server.
@@ -203,99 +183,143 @@ You are an AI assistant tasked with fixing a GraphQL query that failed to execut
 }
 
 /**
- * Calls the AI agent to generate the fixed query and variables.
+ * Executes the potentially fixed GraphQL query.
  */
-async function generateFixedQuery(prompt: string): Promise<string | null> {
-	console.log("Calling AI agent to fix query...");
-	const res = await gqlExecutionAgent.generate(prompt);
-	if (!res?.text) {
-		console.error("AI agent failed to generate response text for fixQuery.");
-		return null;
+async function executeFixedQuery(
+	endpoint: GraphQLEndpoint,
+	query: string,
+	variables: string,
+	prompt: string,
+): Promise<ExecuteQueryResult> {
+	if (!query || !variables) {
+		log.error("Cannot execute fixed query: missing query or variables");
+		return { success: false, errors: "Missing query or variables" };
 	}
-	console.log(
-		`AI agent returned response of length: ${res.text.length} for fixQuery`,
-	);
-	return res.text;
-}
+	log.info("Executing potentially fixed GraphQL query", { query, variables });
 
-/**
- * Parses the AI agent's response to extract the query and variables.
- */
-function parseAgentResponse(
-	responseText: string | null,
-	originalQuery: string,
-	originalVariables: string,
-): ParsedAgentResponse | null {
-	if (!responseText) {
-		console.error("Cannot parse agent response: responseText is null.");
-		return null;
+	const gqlResponse = await endpoint.graphqlQuery?.execute?.({
+		context: { query, variables, prompt },
+	});
+
+	const success = gqlResponse?.success ?? false;
+	log.info(`Fixed query execution result: ${success ? "Success" : "Failure"}`);
+	if (!success) {
+		log.error("Fixed query execution failed", { errors: gqlResponse?.errors });
 	}
-	console.log("Parsing AI agent response for fixQuery...");
 
-	const queryPattern = /<query>([\s\S]*?)<\/query>/;
-	const variablesPattern = /<variables>([\s\S]*?)<\/variables>/;
+	return {
+		success: success,
+		data: gqlResponse?.data,
+		errors: gqlResponse?.validationErrors ?? gqlResponse?.errors,
+		errorCategory: gqlResponse?.errorCategory,
+		truncation: gqlResponse?.truncation
+			? describeOmissions(gqlResponse.truncation.omitted)
+			: undefined,
+	};
+}
 
-	const queryMatch = responseText.match(queryPattern);
-	const variablesMatch = responseText.match(variablesPattern);
+/**
+ * Asks the agent for a corrected query and executes it, refusing to resend a
+ * query that already failed.
+ */
+async function fixAndExecuteQuery(
+	endpoint: GraphQLEndpoint,
+	inputData: FixQueryTriggerData,
+): Promise<QueryOutput & { rejected?: boolean }> {
+	const { introspection } = await endpoint.loadSchema();
+	const examples = await endpoint.findQueryExamples(inputData.prompt);
+	const fixPrompt = generateFixQueryPrompt(
+		endpoint,
+		inputData,
+		introspection,
+		examples,
+	);
+	log.debug("Generated fix query prompt");
+	const generated = await generateStructuredQuery(
+		gqlExecutionAgent,
+		fixPrompt,
+		await endpoint.loadClientSchema(),
+	);
 
-	if (!queryMatch || !variablesMatch) {
-		console.error(
-			"AI did not return query and variables in the expected format for fixQuery.",
-		);
+	if (!generated.success) {
+		log.error("fixQuery step failed: AI agent did not return a valid query");
 		return {
+			response: "AI did not generate a valid fixed query",
 			query: "",
 			variables: "",
-			rawResponse: responseText,
+			explanation: "Failed to generate fixed query from AI agent",
+			success: false,
+			errors: generated.error,
 		};
 	}
 
-	const correctedQuery = queryMatch[1] ? queryMatch[1].trim() : originalQuery;
-	const correctedVariables = variablesMatch[1]
-		? variablesMatch[1].trim()
-		: originalVariables;
-
-	const result = {
+	const {
 		query: correctedQuery,
 		variables: correctedVariables,
-		rawResponse: responseText,
-	};
-	console.log(
-		`Parsed agent response for fixQuery. Query found: ${!!result.query}, Variables found: ${!!result.variables}`,
+		explanation,
+	} = generated.query;
+
+	const repeated = findRepeatedAttempt(
+		[
+			...(inputData.previousAttempts ?? []),
+			{
+				attempt: 0,
+				query: inputData.failedQuery.query,
+				variables: inputData.failedQuery.variables,
+				success: false,
+			},
+		],
+		correctedQuery,
+		correctedVariables,
 	);
-	return result;
-}
-
-/**
- * Executes the potentially fixed GraphQL query.
- */
-async function executeFixedQuery(
-	query: string,
-	variables: string,
-): Promise<ExecuteQueryResult> {
-	if (!query || !variables) {
-		console.error("Cannot execute fixed query: Missing query or variables.");
-		return { success: false, errors: "Missing query or variables" };
+	if (repeated) {
+		log.warn(
+			"fixQuery step rejected the corrected query: it repeats a failed attempt",
+		);
+		return {
+			response: "",
+			query: correctedQuery,
+			variables: correctedVariables,
+			explanation,
+			success: false,
+			errors: repeated.attempt
+				? `Identical to attempt ${repeated.attempt}, which already failed; not resubmitted`
+				: "Identical to the failed query; not resubmitted",
+			rejected: true,
+		};
 	}
-	console.log("Executing potentially fixed GraphQL query...");
-	console.log(`Query: ${query}`);
-	console.log(`Variables: ${variables}`);
-
-	const gqlResponse = await graphqlQuery?.execute?.({
-		context: { query, variables },
-	});
 
-	const success = gqlResponse?.success ?? false;
-	console.log(
-		`Fixed query execution result: ${success ? "Success" : "Failure"}`,
+	const executionResult = await executeFixedQuery(
+		endpoint,
+		correctedQuery,
+		correctedVariables,
+		inputData.prompt,
 	);
-	if (!success) {
-		console.error("Fixed query execution failed:", gqlResponse?.errors);
-	}
 
+	log.debug("Fixed query execution completed");
+
+	if (executionResult.success) {
+		log.info("fixQuery step succeeded: corrected query executed successfully");
+		return {
+			response: JSON.stringify(executionResult.data),
+			truncation: executionResult.truncation,
+			query: correctedQuery,
+			variables: correctedVariables,
+			explanation,
+			success: true,
+		};
+	}
+	log.warn(
+		"fixQuery step finished, but the corrected query still failed to execute",
+	);
 	return {
-		success: success,
-		data: gqlResponse?.data,
-		errors: gqlResponse?.errors,
+		response: "Corrected query failed to execute",
+		query: correctedQuery, // Return the attempted query
+		variables: correctedVariables, // Return the attempted variables
+		explanation,
+		success: false,
+		errors: JSON.stringify(executionResult.errors),
+		errorCategory: executionResult.errorCategory,
 	};
 }
 
@@ -304,90 +328,149 @@ export const fixQuery = new Step({
 	id: "fixQuery",
 	inputSchema: fixQueryInputSchema,
 	outputSchema: queryOutput,
-	execute: async ({ context }) => {
-		console.log("Executing fixQuery step...");
-		const inputData = validateInputData(context);
-		if (!inputData) {
-			console.error("fixQuery step failed: Invalid input data.");
-			return {
-				response: "",
-				query: "",
-				variables: "",
-				explanation: "Missing required data for fixQuery step",
-				success: false,
-				errors: "Invalid input data",
-			};
-		}
-
-		const { failedQuery } = inputData;
-		const { query: originalQuery, variables: originalVariables } = failedQuery;
-
-		const fixPrompt = generateFixQueryPrompt(inputData);
-		console.log("Generated fix query prompt.");
-		const agentResponseText = await generateFixedQuery(fixPrompt);
-
-		if (!agentResponseText) {
-			console.error("fixQuery step failed: AI agent did not return text.");
-			return {
-				response: "",
-				query: "",
-				variables: "",
-				explanation: "Failed to generate fixed query from AI agent",
-				success: false,
-			};
-		}
-
-		const parsedResponse = parseAgentResponse(
-			agentResponseText,
-			originalQuery,
-			originalVariables,
-		);
-
-		if (!parsedResponse || !parsedResponse.query || !parsedResponse.variables) {
-			console.error(
-				"fixQuery step failed: Could not parse query/variables from agent response.",
+	execute: traceStep(
+		"fixQuery",
+		withStepUsage(async ({ context }) => {
+			log.info("Executing fixQuery step");
+			const inputData = validateInputData(context);
+			if (!inputData) {
+				log.error("fixQuery step failed: invalid input data");
+				return {
+					response: "",
+					query: "",
+					variables: "",
+					explanation: "Missing required data for fixQuery step",
+					success: false,
+					errors: "Invalid input data",
+				};
+			}
+
+			return fixAndExecuteQuery(
+				getEndpoint(context.triggerData.endpointId),
+				inputData,
 			);
-			return {
-				response: "AI Did not generate a fixed query in the expected format",
-				query: "",
-				variables: "",
-				explanation: agentResponseText, // Return the raw response for debugging
-				success: false,
-			};
-		}
+		}),
+	),
+});
 
-		const { query: correctedQuery, variables: correctedVariables } =
-			parsedResponse;
+/**
+ * Returns the most recent query result of the workflow run: the latest retry,
+ * then a one-off fix, then the initial execution or generated query.
+ */
+export function getLatestQueryResult(
+	context: WorkflowContext,
+): QueryOutput | undefined {
+	return (
+		context.getStepResult<QueryOutput>("retryQuery") ??
+		context.getStepResult<QueryOutput>("fixQuery") ??
+		context.getStepResult<QueryOutput>("executeQuery") ??
+		context.getStepResult<QueryOutput>("generateQuery")
+	);
+}
 
-		const executionResult = await executeFixedQuery(
-			correctedQuery,
-			correctedVariables,
-		);
+/**
+ * Returns every query attempted so far in the workflow run, oldest first
+ */
+export function getQueryAttempts(context: WorkflowContext): QueryAttempt[] {
+	const latest = context.getStepResult<QueryOutput>("retryQuery");
+	if (latest?.attempts) {
+		return latest.attempts;
+	}
 
-		console.log("Fixed query execution completed.");
+	const initial = getLatestQueryResult(context);
+	return initial
+		? [
+				{
+					attempt: 1,
+					query: initial.query,
+					variables: initial.variables,
+					success: initial.success,
+					error: initial.success ? undefined : initial.errors,
+					errorCategory: initial.errorCategory,
+				},
+			]
+		: [];
+}
 
-		if (executionResult.success) {
-			console.log(
-				"fixQuery step succeeded: Corrected query executed successfully.",
-			);
-			return {
-				response: JSON.stringify(executionResult.data),
-				query: correctedQuery,
-				variables: correctedVariables,
-				explanation: parsedResponse.rawResponse,
-				success: true,
-			};
-		}
-		console.warn(
-			"fixQuery step finished, but the corrected query still failed to execute.",
-		);
-		return {
-			response: "Corrected query failed to execute",
-			query: correctedQuery, // Return the attempted query
-			variables: correctedVariables, // Return the attempted variables
-			explanation: parsedResponse.rawResponse,
-			success: false,
-			errors: JSON.stringify(executionResult.errors),
-		};
-	},
+/**
+ * Loop condition for the retry loop: stop on success, on a transient error,
+ * once the fix attempts run out, or once the run has spent its budget
+ */
+export async function isQueryResolved({
+	context,
+}: { context: WorkflowContext }): Promise<boolean> {
+	const maxAttempts =
+		context.triggerData.maxAttempts ?? DEFAULT_MAX_FIX_ATTEMPTS;
+	const attempts = getQueryAttempts(context);
+	const latest = getLatestQueryResult(context);
+
+	// Transient failures were already retried by the query tool; rewriting the query won't help
+	return (
+		!!latest?.success ||
+		isTransientError(latest?.errorCategory) ||
+		attempts.length > maxAttempts ||
+		isOverBudget(context)
+	);
+}
+
+// Step that makes one fix-and-execute attempt per iteration of the retry loop
+export const retryQuery = new Step({
+	id: "retryQuery",
+	outputSchema: queryOutput,
+	execute: traceStep(
+		"retryQuery",
+		withStepUsage(
+			async ({ context }) => {
+				const attempts = getQueryAttempts(context);
+				log.info(`Executing retryQuery step (attempt ${attempts.length + 1})`);
+
+				// Fix the most recent query that was actually generated
+				const failedAttempt = [...attempts]
+					.reverse()
+					.find((attempt) => attempt.query) ?? {
+					query: "",
+					variables: "{}",
+					error: "No query was generated",
+				};
+				const schema = context.getStepResult(fetchSchemaDefinition);
+				const relevantSourceCode = context.getStepResult(sourceCode);
+
+				const result = await fixAndExecuteQuery(
+					getEndpoint(context.triggerData.endpointId),
+					{
+						prompt: context.triggerData.prompt,
+						schema: schema.schema,
+						typeNames: schema.typeNames,
+						relevantSourceCode: relevantSourceCode?.relevantSourceCode,
+						failedQuery: {
+							query: failedAttempt.query,
+							variables: failedAttempt.variables,
+							error: failedAttempt.error,
+						},
+						previousAttempts: attempts.filter(
+							(attempt) => attempt !== failedAttempt,
+						),
+					},
+				);
+
+				const { rejected, ...output } = result;
+				return {
+					...output,
+					attempts: [
+						...attempts,
+						{
+							attempt: attempts.length + 1,
+							query: output.query,
+							variables: output.variables,
+							success: output.success,
+							error: output.success ? undefined : output.errors,
+							errorCategory: output.errorCategory,
+							rejected,
+						},
+					],
+				};
+			},
+			{ accumulateFrom: "retryQuery" },
+		),
+	),
 });
@@ -1,117 +1,129 @@
 import { Step, type WorkflowContext } from "@mastra/core";
+import type { IntrospectionQuery } from "graphql";
 import { z } from "zod";
 import { generateMermaidDiagram } from "../../scripts/diagram-gql-schema";
+import { renderDomainContext } from "../config/domain-profile";
 import { gqlIntrospectAgent } from "../agents";
+import { createLogger, traceStep } from "../observability";
 import {
+	type GraphQLEndpoint,
+	type GraphQLErrorCategory,
+	type QueryExample,
 	alloGithubSmartContract,
-	dynamicGitcoinDocs,
-	graphqlIntrospection,
-	graphqlQuery,
-	graphqlSourceTypes,
+	describeOmissions,
+	getEndpoint,
 } from "../tools";
+import { renderQueryExamples } from "./examples";
+import { generateStructuredQuery } from "./structured-query";
 import { queryOutput, schemaOutput, sourceCodeOutput } from "./types";
+import { withStepUsage } from "./usage";
+
+const log = createLogger("Generate Query");
 
 // Step to fetch relevant source code for the query
 export const sourceCode = new Step({
 	id: "sourceCode",
 	outputSchema: sourceCodeOutput,
-	execute: async ({ context }) => {
-		const prompt = context?.getStepResult<{ prompt: string }>(
-			"trigger",
-		)?.prompt;
-
-		if (!prompt) {
-			throw new Error("Prompt not found in sourceCode step");
-		}
-
-		// const eventDocuments = await alloGithubSmartContract?.execute?.({
-		// 	context: {
-		// 		query: `Events with @param or @notice similar to: ${prompt}`,
-		// 	},
-		// });
-
-		// const structDocuments = await alloGithubSmartContract?.execute?.({
-		// 	context: {
-		// 		query: `Structs with @param or @notice similar to: ${prompt}`,
-		// 	},
-		// });
-
-		// const functionDocuments = await alloGithubSmartContract?.execute?.({
-		// 	context: {
-		// 		query: `Functions with @param or @notice similar to: ${prompt}`,
-		// 	},
-		// });
-
-		const docsResult = await dynamicGitcoinDocs?.execute?.({
-			context: { query: prompt },
-		});
+	execute: traceStep(
+		"sourceCode",
+		withStepUsage(async ({ context }) => {
+			const prompt = context?.getStepResult<{ prompt: string }>(
+				"trigger",
+			)?.prompt;
+
+			if (!prompt) {
+				throw new Error("Prompt not found in sourceCode step");
+			}
+
+			// Events and structs mirror what the indexer stores, so fetch only those
+			const eventDocuments = await alloGithubSmartContract?.execute?.({
+				context: {
+					query: `Events with @param or @notice similar to: ${prompt}`,
+					filter: { containsEvents: true },
+				},
+			});
+
+			const structDocuments = await alloGithubSmartContract?.execute?.({
+				context: {
+					query: `Structs with @param or @notice similar to: ${prompt}`,
+					filter: { containsStructs: true },
+				},
+			});
+
+			const endpoint = getEndpoint(context?.triggerData?.endpointId);
+			const docsResult = await endpoint.docs?.execute?.({
+				context: { query: prompt },
+			});
+
+			const relevantSourceCode = [
+				eventDocuments?.context,
+				structDocuments?.context,
+				docsResult?.context,
+			]
+				.filter(
+					(context) =>
+						!context?.includes(
+							"No relevant context found in the vector databas",
+						) && !context?.startsWith("Error fetching context"),
+				)
+				.join("\n");
 
-		const relevantSourceCode = [
-			// eventDocuments?.context,
-			// structDocuments?.context,
-			// functionDocuments?.context,
-			docsResult?.context,
-		]
-			.filter(
-				(context) =>
-					!context?.includes("No relevant context found in the vector databas"),
-			)
-			.join("\n");
-
-		return {
-			relevantSourceCode,
-		};
-	},
+			return {
+				relevantSourceCode,
+			};
+		}),
+	),
 });
 
-// Step to fetch GraphQL schema
+// Step to fetch the part of the GraphQL schema relevant to the prompt
 export const fetchSchemaDefinition = new Step({
 	id: "fetchSchemaDefinition",
 	outputSchema: schemaOutput,
-	execute: async ({ context }) => {
-		const prompt = context?.getStepResult<{ prompt: string }>(
-			"trigger",
-		)?.prompt;
-
-		const result = await graphqlSourceTypes?.execute?.({
-			context: {
-				query: `Type definitions similar to: ${prompt}`,
-			},
-		});
+	execute: traceStep(
+		"fetchSchemaDefinition",
+		withStepUsage(async ({ context }) => {
+			const prompt = context?.getStepResult<{ prompt: string }>(
+				"trigger",
+			)?.prompt;
 
-		if (!result?.context) {
-			throw new Error("Failed to fetch GraphQL schema types");
-		}
+			if (!prompt) {
+				throw new Error("Prompt not found in fetchSchemaDefinition step");
+			}
 
-		return {
-			schema: result.context,
-		};
-	},
+			const slice = await getEndpoint(
+				context?.triggerData?.endpointId,
+			).sliceSchema(prompt);
+
+			if (!slice.sdl) {
+				throw new Error("Failed to fetch GraphQL schema types");
+			}
+
+			return {
+				schema: slice.sdl,
+				typeNames: slice.types,
+			};
+		}),
+	),
 });
 
 // Define the structure for input data retrieved from the context
 const GenerateQueryInputDataSchema = z.object({
 	prompt: z.string(),
 	schema: z.string(),
+	typeNames: z.array(z.string()).optional(),
 	relevantSourceCode: z.string().optional(),
 });
 
 type GenerateQueryInputData = z.infer<typeof GenerateQueryInputDataSchema>;
 
-// Define the structure for the parsed AI agent response
-type ParsedAgentResponse = {
-	query: string;
-	variables: string;
-	explanation: string;
-	rawResponse: string;
-};
-
 // Define the structure for the GraphQL execution result
 type ExecuteQueryResult = {
 	success: boolean;
 	data?: unknown;
 	message?: string;
 	errors?: unknown;
+	errorCategory?: GraphQLErrorCategory;
+	truncation?: string;
 };
 
 /**
@@ -127,19 +139,19 @@ function getAndValidateInputData(
 	const inputData = {
 		prompt,
 		schema: schemaResult?.schema,
+		typeNames: schemaResult?.typeNames,
 		relevantSourceCode: sourceCodeResult?.relevantSourceCode,
 	};
 
 	const result = GenerateQueryInputDataSchema.safeParse(inputData);
 
 	if (!result.success) {
-		console.error(
-			"Failed to validate input data for generateQuery:",
-			result.error.flatten(),
-		);
+		log.error("Failed to validate input data for generateQuery", {
+			issues: result.error.flatten(),
+		});
 		return null;
 	}
-	console.log("Input data validated successfully for generateQuery.");
+	log.debug("Input data validated successfully for generateQuery");
 
 	return result.data;
 }
@@ -147,81 +159,43 @@ function getAndValidateInputData(
 /**
  * Generates the prompt for the AI agent to create a GraphQL query.
  */
-function generateAgentPrompt(data: GenerateQueryInputData): string {
-	const { prompt, schema, relevantSourceCode } = data;
-
-	const parsedSchema = JSON.parse(schema);
-	const mermaid = generateMermaidDiagram(parsedSchema);
+function generateAgentPrompt(
+	endpoint: GraphQLEndpoint,
+	data: GenerateQueryInputData,
+	introspection: IntrospectionQuery,
+	examples: QueryExample[],
+): string {
+	const { prompt, schema, typeNames, relevantSourceCode } = data;
+
+	const sliceTypes = new Set(typeNames);
+	const mermaid = generateMermaidDiagram({
+		types: introspection.__schema.types.filter((type) =>
+			sliceTypes.has(type.name),
+		),
+	});
 
 	return `
 You are an AI assistant tasked with generating GraphQL queries based on user questions and a provided GraphQL schema. Your goal is to create a query that can be executed against a GraphQL server to answer the user's question.
 
-First, I will provide you with relevant context including the GraphQL schema represented as a mermaid diagram and potentially relevant source code comments:
+First, I will provide you with relevant context including the relevant part of the GraphQL schema as SDL, its entity relationships represented as a mermaid diagram and potentially relevant source code comments:
 
 <graphql_schema>
-${mermaid}
+${schema}
 </graphql_schema>
 
+<entity_relationships>
+${mermaid}
+</entity_relationships>
+
 <relevant_source_code_comments>
 ${relevantSourceCode || "No relevant source code comments found."}
 </relevant_source_code_comments>
 
-Below you will find an example query that is known to be valid. It is important to craft your query with a similar syntax, including proper variable definitions:
-
-<successful_query>
-query getRoundForExplorer($roundId: String!, $chainId: Int!) {
-  rounds(
-    limit: 1
-    where: {
-      id: { _eq: $roundId }
-      chainId: { _eq: $chainId }
-      roundMetadata: { _isNull: false }
-    }
-  ) {
-    id
-    chainId
-    uniqueDonorsCount
-    applicationsStartTime
-    applicationsEndTime
-    donationsStartTime
-    donationsEndTime
-    matchTokenAddress
-    roundMetadata
-    roundMetadataCid
-    applicationMetadata
-    applicationMetadataCid
-    strategyId
-    projectId
-    strategyAddress
-    strategyName
-    readyForPayoutTransaction
-    applications(where: { status: { _eq: APPROVED } }) {
-      id
-      projectId
-      status
-      metadata
-      anchorAddress
-      project {
-        id
-        anchorAddress
-      }
-    }
-  }
-}
-</successful_query>
+Below you will find example queries that are known to be valid, with the questions they answered. It is important to craft your query with a similar syntax, including proper variable definitions:
 
-<successful_variables>
-{
-  "roundId": "865",
-  "chainId": 42161
-}
-</successful_variables>
+${renderQueryExamples(examples, endpoint.profile)}
 
-Here is further context for the active GG23 rounds:
-- All rounds are currently active on Arbitrum network which has a chainId of 42161.
-- The dApps and Apps round has a roundId of 867
-- The Web3 Infrastructure round has a roundId of 865
-- The Developer Tooling and Libraries has a roundId of 863
+${renderDomainContext(endpoint.profile)}
 
 Now, follow these steps to generate an appropriate GraphQL query:
 
@@ -240,51 +214,7 @@ Now, follow these steps to generate an appropriate GraphQL query:
 
 5. If the schema doesn't contain the necessary fields to fully answer the question, create a query with the most relevant available information.
 
-6. Provide your response in the following format:
-   <query>
-   Your generated GraphQL query here with variable definitions
-   </query>
-   <variables>
-   Your JSON variables here
-   </variables>
-   <explanation>
-   A brief explanation of how this query relates to the user's question and how it can be used to obtain the desired information
-   </explanation>
-
-Here's an example of how your output should be formatted:
-
-<example>
-User question: "What are the details for the Web3 Infrastructure round?"
-</example>
-
-<query>
-query getRoundDetails($roundId: String!, $chainId: Int!) {
-  rounds(
-    limit: 1
-    where: {
-      id: { _eq: $roundId }
-      chainId: { _eq: $chainId }
-    }
-  ) {
-    id
-    chainId
-    roundMetadata
-    applicationsStartTime
-    applicationsEndTime
-    donationsStartTime
-    donationsEndTime
-  }
-}
-</query>
-<variables>
-{
-  "roundId": "865",
-  "chainId": 42161
-}
-</variables>
-<explanation>
-This query fetches details about the Web3 Infrastructure round (ID: 865) on the Arbitrum network (chainID: 42161). It includes key fields like application periods, donation periods, and metadata that will provide information about the round.
-</explanation>
+6. Return the query with its variable definitions, the variables as a stringified JSON object containing a value for every declared variable, and a brief explanation of how the query answers the user's question.
 
 
 Now, please generate a GraphQL query to answer the following question:
@@ -295,84 +225,39 @@ ${prompt}
     `;
 }
 
-/**
- * Calls the AI agent to generate the GraphQL query details.
- */
-async function callAIAgent(prompt: string): Promise<string | null> {
-	console.log("Calling AI agent to generate query...");
-	const res = await gqlIntrospectAgent.generate(prompt);
-	if (!res?.text) {
-		console.error("AI agent failed to generate response text.");
-		return null;
-	}
-	console.log(`AI agent returned response of length: ${res.text.length}`);
-	return res.text;
-}
-
-/**
- * Parses the AI agent's response text to extract query, variables, and explanation.
- */
-function parseAgentResponse(responseText: string | null): ParsedAgentResponse {
-	const defaultResponse = {
-		query: "",
-		variables: "{}",
-		explanation: "",
-		rawResponse: responseText || "",
-	};
-
-	if (!responseText) {
-		return defaultResponse;
-	}
-	console.log("Parsing AI agent response...");
-
-	const queryPattern = /<query>([\s\S]*?)<\/query>/;
-	const variablesPattern = /<variables>([\s\S]*?)<\/variables>/;
-	const explanationPattern = /<explanation>([\s\S]*?)<\/explanation>/;
-
-	const queryMatch = responseText.match(queryPattern);
-	const variablesMatch = responseText.match(variablesPattern);
-	const explanationMatch = responseText.match(explanationPattern);
-
-	const result = {
-		query: queryMatch?.[1]?.trim() ?? defaultResponse.query,
-		variables: variablesMatch?.[1]?.trim() ?? defaultResponse.variables,
-		explanation: explanationMatch?.[1]?.trim() ?? defaultResponse.explanation,
-		rawResponse: responseText,
-	};
-	console.log(
-		`Parsed agent response. Query found: ${!!result.query}, Variables found: ${!!result.variables}`,
-	);
-	return result;
-}
-
 /**
  * Executes the generated GraphQL query.
  */
 async function executeGeneratedQuery(
+	endpoint: GraphQLEndpoint,
 	query: string,
 	variables: string,
+	prompt: string,
 ): Promise<ExecuteQueryResult> {
 	if (!query) {
-		console.error("Cannot execute query: Query string is empty.");
+		log.error("Cannot execute query: query string is empty");
 		return { success: false, message: "No query provided", errors: null };
 	}
-	console.log("Executing generated GraphQL query...");
-	console.log(`Query: ${query}`);
-	console.log(`Variables: ${variables}`);
+	log.info("Executing generated GraphQL query", { query, variables });
 
 	try {
-		const gqlResponse = await graphqlQuery?.execute?.({
-			context: { query, variables },
+		const gqlResponse = await endpoint.graphqlQuery?.execute?.({
+			context: { query, variables, prompt },
 		});
 
 		return {
 			success: gqlResponse?.success ?? false,
 			data: gqlResponse?.data,
 			message: gqlResponse?.message,
-			errors: gqlResponse?.errors,
+			// Prefer the structured schema validation errors so the fixer sees suggestions
+			errors: gqlResponse?.validationErrors ?? gqlResponse?.errors,
+			errorCategory: gqlResponse?.errorCategory,
+			truncation: gqlResponse?.truncation
+				? describeOmissions(gqlResponse.truncation.omitted)
+				: undefined,
 		};
 	} catch (error) {
-		console.error("Exception caught during GraphQL query execution:", error);
+		log.error("Exception caught during GraphQL query execution", { error });
 		return {
 			success: false,
 			message: "Exception during query execution",
@@ -385,86 +270,91 @@ async function executeGeneratedQuery(
 export const generateQuery = new Step({
 	id: "generateQuery",
 	outputSchema: queryOutput,
-	execute: async ({ context }) => {
-		console.log("Executing generateQuery step...");
-		console.log("Executing generateQuery step...");
-		const defaultResult = {
-			query: "",
-			variables: "{}",
-			explanation: "",
-			response: "",
-			success: false,
-			errors: "Failed to generate query",
-		};
-
-		const inputData = getAndValidateInputData(context);
-		if (!inputData) {
-			console.error(
-				"generateQuery step failed: Invalid or missing input data.",
-			);
-			return { ...defaultResult, errors: "Invalid or missing input data" };
-		}
-		console.log("Successfully retrieved and validated input data.");
-
-		const agentPrompt = generateAgentPrompt(inputData);
-		console.log("Generated agent prompt.");
-		const agentResponseText = await callAIAgent(agentPrompt);
-
-		if (!agentResponseText) {
-			console.error("generateQuery step failed: AI agent did not return text.");
-			return {
-				...defaultResult,
-				explanation: "AI agent failed to generate a response",
-				errors: "AI agent failed to generate a response",
+	execute: traceStep(
+		"generateQuery",
+		withStepUsage(async ({ context }) => {
+			log.info("Executing generateQuery step");
+			const defaultResult = {
+				query: "",
+				variables: "{}",
+				explanation: "",
+				response: "",
+				success: false,
+				errors: "Failed to generate query",
 			};
-		}
-
-		const parsedResponse = parseAgentResponse(agentResponseText);
 
-		if (!parsedResponse.query) {
-			console.error(
-				"generateQuery step failed: Could not parse query from agent response.",
+			const inputData = getAndValidateInputData(context);
+			if (!inputData) {
+				log.error("generateQuery step failed: invalid or missing input data");
+				return { ...defaultResult, errors: "Invalid or missing input data" };
+			}
+			log.debug("Successfully retrieved and validated input data");
+
+			const endpoint = getEndpoint(context.triggerData.endpointId);
+			const { introspection } = await endpoint.loadSchema();
+			const examples = await endpoint.findQueryExamples(inputData.prompt);
+			const agentPrompt = generateAgentPrompt(
+				endpoint,
+				inputData,
+				introspection,
+				examples,
 			);
-			return {
-				...defaultResult,
-				explanation: parsedResponse.rawResponse, // Return raw response if parsing failed
-				errors: "AI agent did not return a query in the expected format",
-			};
-		}
-
-		const executionResult = await executeGeneratedQuery(
-			parsedResponse.query,
-			parsedResponse.variables,
-		);
-
-		console.log("GraphQL execution completed.");
-		if (executionResult.errors) {
-			console.error(
-				"GraphQL execution returned errors:",
-				executionResult.errors,
+			log.debug("Generated agent prompt");
+			const generated = await generateStructuredQuery(
+				gqlIntrospectAgent,
+				agentPrompt,
+				await endpoint.loadClientSchema(),
+			);
+
+			if (!generated.success) {
+				log.error(
+					"generateQuery step failed: AI agent did not return a valid query",
+				);
+				return {
+					...defaultResult,
+					errors: generated.error,
+				};
+			}
+
+			const generatedQuery = generated.query;
+
+			const executionResult = await executeGeneratedQuery(
+				endpoint,
+				generatedQuery.query,
+				generatedQuery.variables,
+				inputData.prompt,
 			);
-		}
 
-		if (executionResult.success) {
-			console.log("generateQuery step succeeded.");
+			log.debug("GraphQL execution completed");
+			if (executionResult.errors) {
+				log.error("GraphQL execution returned errors", {
+					errors: executionResult.errors,
+				});
+			}
+
+			if (executionResult.success) {
+				log.info("generateQuery step succeeded");
+				return {
+					query: generatedQuery.query,
+					variables: generatedQuery.variables,
+					explanation: generatedQuery.explanation,
+					response: JSON.stringify(executionResult.data),
+					truncation: executionResult.truncation,
+					success: true,
+					errors: "",
+				};
+			}
+			// If execution failed, return the generated query but indicate failure
+			log.warn("generateQuery step finished, but query execution failed");
 			return {
-				query: parsedResponse.query,
-				variables: parsedResponse.variables,
-				explanation: parsedResponse.explanation,
-				response: JSON.stringify(executionResult.data),
-				success: true,
-				errors: "",
+				query: generatedQuery.query,
+				variables: generatedQuery.variables,
+				explanation: generatedQuery.explanation,
+				response: JSON.stringify(executionResult.message), // Include potential message
+				success: false,
+				errors: JSON.stringify(executionResult.errors),
+				errorCategory: executionResult.errorCategory,
 			};
-		}
-		// If execution failed, return the generated query but indicate failure
-		console.warn("generateQuery step finished, but query execution failed.");
-		return {
-			query: parsedResponse.query,
-			variables: parsedResponse.variables,
-			explanation: parsedResponse.explanation,
-			response: JSON.stringify(executionResult.message), // Include potential message
-			success: false,
-			errors: JSON.stringify(executionResult.errors),
-		};
-	},
+		}),
+	),
 });
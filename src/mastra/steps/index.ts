@@ -1,8 +1,25 @@
 import { Step } from "@mastra/core/workflows";
 import { z } from "zod";
 import { analysisAgent } from "../agents";
-import { generateQuery } from "./generate-query";
+import { generateWithFixtures } from "../fixtures";
+import { createLogger, traceStep } from "../observability";
+import { isTransientError } from "../tools/http-retry";
+import { getLatestQueryResult, getQueryAttempts } from "./fix-query";
 import { analysisData, queryOutput } from "./types";
+import { getRunBudget, isOverBudget, withRunUsage } from "./usage";
+
+const log = createLogger("Analyze Query");
+
+/**
+ * Pretty-prints the JSON response string, leaving non-JSON responses untouched
+ */
+function formatResponse(response: string): string {
+	try {
+		return JSON.stringify(JSON.parse(response), null, 2);
+	} catch {
+		return response;
+	}
+}
 
 // Step to analyze query results
 export const analyzeQuery = new Step({
@@ -12,13 +29,37 @@ export const analyzeQuery = new Step({
 		queryData: queryOutput,
 	}),
 	outputSchema: analysisData,
-	execute: async ({ context }) => {
-		try {
-			const { prompt, queryData } = context.inputData;
-			const { query, variables, explanation, response } =
-				context.getStepResult(generateQuery);
+	execute: traceStep(
+		"analyzeQuery",
+		withRunUsage(async ({ context }) => {
+			try {
+				const { prompt, queryData } = context.inputData;
+				const latest = getLatestQueryResult(context);
+				const attempts = getQueryAttempts(context);
+
+				if (!latest?.success) {
+					const budgetExceeded =
+						!isTransientError(latest?.errorCategory) && isOverBudget(context);
+					return {
+						analysis:
+							latest?.errorCategory === "endpoint"
+								? `The GraphQL endpoint rejected the request itself, so the query was not rewritten. Check the endpoint URL and configuration. Last error: ${latest?.errors || "unknown"}`
+								: isTransientError(latest?.errorCategory)
+									? `The GraphQL endpoint failed with a ${latest?.errorCategory} error after retries, so the query was not rewritten. Try again later. Last error: ${latest?.errors || "unknown"}`
+									: budgetExceeded
+										? `No query succeeded after ${attempts.length} attempt(s), and the run spent its $${getRunBudget(context)} budget, so no further fixes were tried. Last error: ${latest?.errors || "unknown"}`
+										: `No query succeeded after ${attempts.length} attempt(s). Last error: ${latest?.errors || "unknown"}`,
+						relevance: 0,
+						success: false,
+						errorCategory: latest?.errorCategory,
+						attempts,
+						budgetExceeded: budgetExceeded || undefined,
+					};
+				}
 
-			const analysisPrompt = `
+				const { query, variables, explanation, response, truncation } = latest;
+
+				const analysisPrompt = `
 You are an expert GraphQL analyst who can interpret query results and provide clear insights.
 You'll be given a user's original question, the GraphQL query that was executed, and the query results.
 Your job is to analyze the data and provide meaningful insights that directly answer the user's original question.
@@ -41,9 +82,17 @@ ${explanation || "No explanation provided."}
 
 Query results:
 \`\`\`json
-${JSON.stringify(response, null, 2)}
+${formatResponse(response)}
 \`\`\`
-
+${
+	truncation
+		? `
+The results were sampled to fit the context window. Omitted per path:
+${truncation}
+Account for the omitted items and do not treat the sample as the full data set.
+`
+		: ""
+}
 Please provide a comprehensive analysis of these results that:
 1. Clearly explains what the data shows in relation to the original question
 2. Highlights key insights extracted from the data
@@ -59,38 +108,46 @@ how well these results answer the original question, where 0 means "not at all r
 "completely answers the question". Format this as "Relevance score: X/10".
       `;
 
-			const res = await analysisAgent.generate(analysisPrompt);
+				const res = await generateWithFixtures(analysisAgent, analysisPrompt);
+
+				if (!res || !res.text) {
+					return {
+						analysis: "Failed to analyze the query results.",
+						relevance: 0,
+						success: false,
+						attempts,
+					};
+				}
 
-			if (!res || !res.text) {
+				let relevanceScore = 5;
+				const relevanceMatch = res.text.match(/Relevance score:\s*(\d+)\/10/i);
+				if (relevanceMatch?.[1]) {
+					relevanceScore = Number.parseInt(relevanceMatch[1], 10);
+					relevanceScore = Math.min(10, Math.max(0, relevanceScore));
+				}
+
+				return {
+					analysis: res.text,
+					relevance: relevanceScore,
+					success: true,
+					attempts,
+				};
+			} catch (error) {
+				log.error("Error in analyzeQuery step", { error });
 				return {
-					analysis: "Failed to analyze the query results.",
+					analysis: `Failed to analyze query results: ${error instanceof Error ? error.message : String(error)}`,
 					relevance: 0,
 					success: false,
 				};
 			}
-
-			let relevanceScore = 5;
-			const relevanceMatch = res.text.match(/Relevance score:\s*(\d+)\/10/i);
-			if (relevanceMatch?.[1]) {
-				relevanceScore = Number.parseInt(relevanceMatch[1], 10);
-				relevanceScore = Math.min(10, Math.max(0, relevanceScore));
-			}
-
-			return {
-				analysis: res.text,
-				relevance: relevanceScore,
-				success: true,
-			};
-		} catch (error) {
-			console.error("Error in analyzeQuery step:", error);
-			return {
-				analysis: `Failed to analyze query results: ${error instanceof Error ? error.message : String(error)}`,
-				relevance: 0,
-				success: false,
-			};
-		}
-	},
+		}),
+	),
 });
 
-export { fixQuery } from "./fix-query";
+export {
+	fixQuery,
+	getQueryAttempts,
+	isQueryResolved,
+	retryQuery,
+} from "./fix-query";
 export { generateQuery } from "./generate-query";
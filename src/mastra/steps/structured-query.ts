@@ -0,0 +1,220 @@
+import type { Agent } from "@mastra/core/agent";
+import {
+	type DocumentNode,
+	type GraphQLSchema,
+	Kind,
+	type OperationDefinitionNode,
+	getVariableValues,
+	parse,
+} from "graphql";
+import { z } from "zod";
+import { generateWithFixtures } from "../fixtures";
+import { createLogger } from "../observability";
+
+const log = createLogger("Structured Query");
+
+// Shape the agent is asked to produce
+export const generatedQuerySchema = z.object({
+	query: z
+		.string()
+		.describe("The GraphQL query, including its variable definitions"),
+	variables: z
+		.string()
+		.describe(
+			"Stringified JSON object with a value for every variable declared by the query",
+		),
+	explanation: z
+		.string()
+		.describe(
+			"A brief explanation of how the query answers the user's question",
+		),
+});
+
+export type GeneratedQuery = z.infer<typeof generatedQuerySchema>;
+
+export type StructuredQueryResult =
+	| { success: true; query: GeneratedQuery }
+	| { success: false; error: string; output?: unknown };
+
+function parseQuery(query: string): DocumentNode | string {
+	try {
+		return parse(query);
+	} catch (error) {
+		return error instanceof Error ? error.message : String(error);
+	}
+}
+
+/**
+ * Extends the agent output schema with checks that the query parses and the
+ * variables are a JSON object matching the operation's variable definitions.
+ * When a schema is given, variable values are also coerced against it.
+ */
+export function createValidatedQuerySchema(schema?: GraphQLSchema) {
+	return generatedQuerySchema.superRefine((value, ctx) => {
+		const document = parseQuery(value.query);
+		if (typeof document === "string") {
+			ctx.addIssue({
+				code: z.ZodIssueCode.custom,
+				path: ["query"],
+				message: `Query does not parse: ${document}`,
+			});
+			return;
+		}
+
+		const operation = document.definitions.find(
+			(definition): definition is OperationDefinitionNode =>
+				definition.kind === Kind.OPERATION_DEFINITION,
+		);
+		if (!operation) {
+			ctx.addIssue({
+				code: z.ZodIssueCode.custom,
+				path: ["query"],
+				message: "Query does not contain an operation",
+			});
+			return;
+		}
+
+		let variables: unknown;
+		try {
+			variables = JSON.parse(value.variables.trim() || "{}");
+		} catch (error) {
+			ctx.addIssue({
+				code: z.ZodIssueCode.custom,
+				path: ["variables"],
+				message: `Variables are not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+			});
+			return;
+		}
+		if (
+			!variables ||
+			typeof variables !== "object" ||
+			Array.isArray(variables)
+		) {
+			ctx.addIssue({
+				code: z.ZodIssueCode.custom,
+				path: ["variables"],
+				message: "Variables must be a JSON object",
+			});
+			return;
+		}
+
+		const definitions = operation.variableDefinitions ?? [];
+		const declared = new Set(
+			definitions.map((definition) => definition.variable.name.value),
+		);
+		for (const name of Object.keys(variables)) {
+			if (!declared.has(name)) {
+				ctx.addIssue({
+					code: z.ZodIssueCode.custom,
+					path: ["variables", name],
+					message: `Variable "$${name}" is not declared by the query`,
+				});
+			}
+		}
+
+		if (schema) {
+			const coerced = getVariableValues(
+				schema,
+				definitions,
+				variables as Record<string, unknown>,
+			);
+			for (const error of coerced.errors ?? []) {
+				ctx.addIssue({
+					code: z.ZodIssueCode.custom,
+					path: ["variables"],
+					message: error.message,
+				});
+			}
+			return;
+		}
+
+		for (const definition of definitions) {
+			const name = definition.variable.name.value;
+			if (
+				definition.type.kind === Kind.NON_NULL_TYPE &&
+				!definition.defaultValue &&
+				(variables as Record<string, unknown>)[name] == null
+			) {
+				ctx.addIssue({
+					code: z.ZodIssueCode.custom,
+					path: ["variables", name],
+					message: `Missing value for required variable "$${name}"`,
+				});
+			}
+		}
+	});
+}
+
+async function requestQuery(
+	agent: Agent,
+	prompt: string,
+): Promise<{ output?: unknown; error?: string }> {
+	try {
+		const res = await generateWithFixtures(agent, prompt, generatedQuerySchema);
+		return { output: res.object };
+	} catch (error) {
+		return {
+			error: `Response did not match the expected structure: ${error instanceof Error ? error.message : String(error)}`,
+		};
+	}
+}
+
+function buildRepairPrompt(
+	prompt: string,
+	output: unknown,
+	issues: string,
+): string {
+	return `${prompt}
+
+Your previous response was rejected:
+<previous_response>
+${output === undefined ? "No structured response was returned." : JSON.stringify(output, null, 2)}
+</previous_response>
+
+<validation_issues>
+${issues}
+</validation_issues>
+
+Return a corrected response that resolves every issue above.`;
+}
+
+/**
+ * Asks the agent for a query as structured output and validates it, giving
+ * the agent a single repair attempt with the validation issues when it fails.
+ *
+ * @param agent Agent that writes the query
+ * @param prompt Prompt describing the query to write
+ * @param schema Optional schema used to coerce the variables
+ */
+export async function generateStructuredQuery(
+	agent: Agent,
+	prompt: string,
+	schema?: GraphQLSchema,
+): Promise<StructuredQueryResult> {
+	const validatedQuerySchema = createValidatedQuerySchema(schema);
+
+	let request = prompt;
+	let failure: { error: string; output?: unknown } = { error: "" };
+	for (let attempt = 1; attempt <= 2; attempt++) {
+		log.info(`Requesting structured query from agent (attempt ${attempt})`);
+		const { output, error } = await requestQuery(agent, request);
+		const result = error ? undefined : validatedQuerySchema.safeParse(output);
+
+		if (result?.success) {
+			return { success: true, query: result.data };
+		}
+
+		const issues =
+			error ??
+			result?.error.issues
+				.map((issue) => `- ${issue.path.join(".")}: ${issue.message}`)
+				.join("\n") ??
+			"Unknown validation failure";
+		log.warn("Agent query was rejected", { issues });
+
+		failure = { error: issues, output };
+		request = buildRepairPrompt(prompt, output, issues);
+	}
+
+	return { success: false, ...failure };
+}
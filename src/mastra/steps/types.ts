@@ -1,16 +1,27 @@
 import { z } from "zod";
+import { GraphQLErrorCategoryType } from "../tools/http-retry";
+import { usageLedger } from "../usage/ledger";
+import { queryAttempt } from "./attempts";
+
+const stepUsage = usageLedger
+	.optional()
+	.describe("Token usage and estimated cost of the step's model calls");
 
 // Define schemas for data passing between steps
 export const schemaOutput = z.object({
 	schema: z.string(),
+	typeNames: z.array(z.string()).optional(),
+	usage: stepUsage,
 });
 
 export const typesOutput = z.object({
 	types: z.string(),
+	usage: stepUsage,
 });
 
 export const sourceCodeOutput = z.object({
 	relevantSourceCode: z.string(),
+	usage: stepUsage,
 });
 
 export const queryOutput = z.object({
@@ -19,13 +30,34 @@ export const queryOutput = z.object({
 	variables: z.string(),
 	explanation: z.string(),
 	response: z.string(),
+	truncation: z
+		.string()
+		.optional()
+		.describe("What was left out of the response to fit the token budget"),
 	errors: z.string().optional(),
+	errorCategory: GraphQLErrorCategoryType.optional(),
+	attempts: z
+		.array(queryAttempt)
+		.optional()
+		.describe("Every query tried so far, oldest first"),
+	usage: stepUsage,
 });
 
 export const analysisData = z.object({
 	analysis: z.string(),
 	relevance: z.number(),
 	success: z.boolean(),
+	errorCategory: GraphQLErrorCategoryType.optional(),
+	attempts: z.array(queryAttempt).optional(),
+	budgetExceeded: z
+		.boolean()
+		.optional()
+		.describe(
+			"True when fix attempts stopped because the run spent its budget",
+		),
+	usage: usageLedger
+		.optional()
+		.describe("Token usage and estimated cost of the whole run"),
 });
 
 export const generateInputSchema = z.object({
@@ -34,8 +66,24 @@ export const generateInputSchema = z.object({
 	relevantSourceCode: z.string(),
 });
 
+export const endpointIdInput = z
+	.string()
+	.optional()
+	.describe(
+		"Registered GraphQL endpoint to query, defaults to DEFAULT_ENDPOINT_ID",
+	);
+
+export const maxCostUsdInput = z
+	.number()
+	.nonnegative()
+	.optional()
+	.describe(
+		"Budget in USD; no further fix attempts are made once the run has spent it. Defaults to WORKFLOW_MAX_COST_USD",
+	);
+
 export const fixQueryInputSchema = z.object({
 	prompt: z.string(),
+	endpointId: endpointIdInput,
 	failedQuery: z.object({
 		query: z.string(),
 		variables: z.string(),
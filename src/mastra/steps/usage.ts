@@ -0,0 +1,97 @@
+import type { WorkflowContext } from "@mastra/core";
+import { createLogger } from "../observability";
+import { trackUsage } from "../usage";
+import {
+	type UsageLedger,
+	createLedger,
+	formatLedger,
+	mergeLedgers,
+	priceUsage,
+} from "../usage/ledger";
+
+const log = createLogger("Usage");
+
+export const DEFAULT_MAX_COST_USD =
+	Number(process.env.WORKFLOW_MAX_COST_USD) || undefined;
+
+/**
+ * Wraps a step's execute function so its output carries the usage of every
+ * model and embedding call the step made
+ *
+ * @param execute The step's execute function
+ * @param options.accumulateFrom Step whose earlier usage to carry forward, for steps that run in a loop
+ */
+export function withStepUsage<
+	TArgs extends { context: WorkflowContext },
+	TOutput extends object,
+>(
+	execute: (args: TArgs) => Promise<TOutput>,
+	options: { accumulateFrom?: string } = {},
+): (args: TArgs) => Promise<TOutput & { usage: UsageLedger }> {
+	return async (args) => {
+		const previous = options.accumulateFrom
+			? args.context.getStepResult<{ usage?: UsageLedger }>(
+					options.accumulateFrom,
+				)?.usage
+			: undefined;
+		const { result, records } = await trackUsage(() => execute(args));
+		return {
+			...result,
+			usage: mergeLedgers(
+				previous,
+				createLedger(records.map((record) => priceUsage(record))),
+			),
+		};
+	};
+}
+
+/**
+ * Wraps the execute function of the step that ends a workflow so its output
+ * carries the usage of the whole run, including the step's own calls
+ */
+export function withRunUsage<
+	TArgs extends { context: WorkflowContext },
+	TOutput extends object,
+>(
+	execute: (args: TArgs) => Promise<TOutput>,
+): (args: TArgs) => Promise<TOutput & { usage: UsageLedger }> {
+	const step = withStepUsage(execute);
+	return async (args) => {
+		const before = getRunUsage(args.context);
+		const output = await step(args);
+		const usage = mergeLedgers(before, output.usage);
+		log.info(`Workflow run used ${formatLedger(usage)}`, {
+			costUsd: usage.costUsd,
+			totalTokens: usage.totalTokens,
+		});
+		return { ...output, usage };
+	};
+}
+
+/**
+ * Adds up the usage of every step that has run so far in the workflow run
+ */
+export function getRunUsage(context: WorkflowContext): UsageLedger {
+	return mergeLedgers(
+		...Object.values(context.steps).map((step) =>
+			step.status === "success"
+				? (step.output as { usage?: UsageLedger } | undefined)?.usage
+				: undefined,
+		),
+	);
+}
+
+/**
+ * The run's budget in USD: the maxCostUsd trigger value, else WORKFLOW_MAX_COST_USD
+ */
+export function getRunBudget(context: WorkflowContext): number | undefined {
+	return context.triggerData.maxCostUsd ?? DEFAULT_MAX_COST_USD;
+}
+
+/**
+ * Whether the run has spent its budget. Runs without a budget never have.
+ */
+export function isOverBudget(context: WorkflowContext): boolean {
+	const budget = getRunBudget(context);
+	return budget !== undefined && getRunUsage(context).costUsd >= budget;
+}
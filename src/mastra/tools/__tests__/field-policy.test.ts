@@ -0,0 +1,80 @@
+import { buildSchema, parse } from "graphql";
+import { describe, expect, it } from "vitest";
+import { redactResponse } from "../field-policy";
+import { validateQueryAgainstSchema } from "../validate-graphql";
+
+const schema = buildSchema(`
+	scalar JSON
+
+	type Project {
+		id: String!
+		metadata: JSON
+		secret: String
+	}
+
+	type Application {
+		id: String!
+		project: Project
+	}
+
+	type Query {
+		applications: [Application!]!
+	}
+`);
+
+const deniedFields = [
+	{ path: "Project.secret", reason: "internal" },
+	{ path: "Project.metadata.credentials" },
+];
+
+describe("validateQueryAgainstSchema with denied fields", () => {
+	it("reports denied fields as structured errors", () => {
+		const document = parse("{ applications { project { id secret } } }");
+
+		const [error] = validateQueryAgainstSchema(schema, document, deniedFields);
+
+		expect(error.deniedField).toBe("Project.secret");
+		expect(error.path).toEqual(["applications", "project", "secret"]);
+		expect(error.message).toContain("internal");
+	});
+
+	it("allows fields only denied below a JSON sub-path", () => {
+		const document = parse("{ applications { project { metadata } } }");
+
+		expect(validateQueryAgainstSchema(schema, document, deniedFields)).toEqual(
+			[],
+		);
+	});
+});
+
+describe("redactResponse", () => {
+	const data = {
+		applications: [
+			{
+				project: {
+					meta: { title: "A", credentials: { github: "token" } },
+					hidden: "x",
+				},
+			},
+		],
+	};
+	const document = parse(
+		"{ applications { project { meta: metadata hidden: secret } } }",
+	);
+
+	it("strips denied fields and JSON sub-paths through aliases", () => {
+		const result = redactResponse(data, document, deniedFields, schema);
+
+		expect(result.redacted).toBe(2);
+		expect(result.data).toEqual({
+			applications: [{ project: { meta: { title: "A" } } }],
+		});
+		expect(data.applications[0].project.hidden).toBe("x");
+	});
+
+	it("matches keys by field name when no schema is available", () => {
+		expect(redactResponse(data, document, deniedFields).data).toEqual({
+			applications: [{ project: { meta: { title: "A" } } }],
+		});
+	});
+});
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import {
+	GraphQLRequestError,
+	classifyStatus,
+	fetchWithRetry,
+	isTransientError,
+	parseRetryAfter,
+} from "../http-retry";
+
+function respond(status: number, headers: Record<string, string> = {}) {
+	return new Response("{}", { status, headers });
+}
+
+describe("fetchWithRetry", () => {
+	it("retries retriable statuses, honoring Retry-After", async () => {
+		const delays: number[] = [];
+		const statuses = [429, 503, 200];
+		const response = await fetchWithRetry(
+			async () => {
+				const status = statuses.shift() ?? 200;
+				return respond(status, status === 429 ? { "Retry-After": "2" } : {});
+			},
+			{
+				baseDelayMs: 100,
+				sleep: async (ms) => {
+					delays.push(ms);
+				},
+			},
+		);
+
+		expect(response.status).toBe(200);
+		expect(delays[0]).toBe(2000);
+		expect(delays[1]).toBeLessThanOrEqual(200);
+	});
+
+	it("returns non-retriable responses immediately", async () => {
+		let calls = 0;
+		const response = await fetchWithRetry(async () => {
+			calls++;
+			return respond(400);
+		});
+
+		expect(response.status).toBe(400);
+		expect(calls).toBe(1);
+	});
+
+	it("reports timeouts as network errors once retries run out", async () => {
+		const request = fetchWithRetry(() => new Promise<Response>(() => {}), {
+			timeoutMs: 10,
+			maxRetries: 1,
+			sleep: async () => {},
+		});
+
+		await expect(request).rejects.toBeInstanceOf(GraphQLRequestError);
+		await expect(request).rejects.toMatchObject({ category: "network" });
+	});
+});
+
+describe("classifyStatus", () => {
+	it("separates transient statuses from query errors", () => {
+		expect(classifyStatus(429)).toBe("rate_limit");
+		expect(classifyStatus(502)).toBe("server");
+		expect(classifyStatus(400)).toBe("validation");
+		expect(classifyStatus(422)).toBe("validation");
+	});
+
+	it("does not blame the query for endpoint problems", () => {
+		expect(classifyStatus(404)).toBe("endpoint");
+		expect(classifyStatus(405)).toBe("endpoint");
+		expect(isTransientError(classifyStatus(404))).toBe(true);
+	});
+});
+
+describe("parseRetryAfter", () => {
+	it("accepts seconds and HTTP dates", () => {
+		const now = Date.parse("2025-01-01T00:00:00Z");
+
+		expect(parseRetryAfter("3", now)).toBe(3000);
+		expect(parseRetryAfter("Wed, 01 Jan 2025 00:00:05 GMT", now)).toBe(5000);
+		expect(parseRetryAfter(null, now)).toBeUndefined();
+	});
+});
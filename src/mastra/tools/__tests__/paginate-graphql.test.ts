@@ -0,0 +1,100 @@
+import { parse } from "graphql";
+import { describe, expect, it, vi } from "vitest";
+import {
+	type ExecutePage,
+	fetchAllPages,
+	isPaginatable,
+} from "../paginate-graphql";
+
+const donations = Array.from({ length: 7 }, (_, index) => ({ id: index }));
+
+describe("fetchAllPages", () => {
+	it("follows limit/offset until a short page and merges the rows", async () => {
+		const document = parse(`
+			query Donations($roundId: String!, $limit: Int!, $offset: Int) {
+				donations(where: { roundId: { _eq: $roundId } }, limit: $limit, offset: $offset) { id }
+				rounds(limit: 1) { id }
+			}
+		`);
+		const executePage = vi.fn<ExecutePage>(async (query, variables) => {
+			const offset = Number(variables.offset ?? 0);
+			const roundsOffset = Number(query.match(/offset: (\d+)/)?.[1] ?? 0);
+			const skipsRounds = query.includes("@skip(if: true)");
+			return {
+				data: {
+					donations: donations.slice(offset, offset + 3),
+					...(skipsRounds
+						? {}
+						: { rounds: roundsOffset === 0 ? [{ id: "865" }] : [] }),
+				},
+			};
+		});
+
+		const { result, report } = await fetchAllPages(
+			document,
+			{ roundId: "865", limit: 3 },
+			executePage,
+			{ maxRows: 100, maxPages: 10 },
+		);
+
+		expect(result.data?.donations).toEqual(donations);
+		expect(result.data?.rounds).toEqual([{ id: "865" }]);
+		expect(report).toEqual({
+			pages: 3,
+			rows: 8,
+			capped: false,
+			fields: ["donations", "rounds"],
+		});
+		expect(executePage.mock.calls[2][1]).toMatchObject({ offset: 6 });
+	});
+
+	it("keeps paging when the server caps limit below the requested size", async () => {
+		const document = parse(
+			"query Donations($offset: Int) { donations(limit: 5, offset: $offset) { id } }",
+		);
+		const executePage = vi.fn<ExecutePage>(async (query, variables) => {
+			const limit = Math.min(Number(query.match(/limit: (\d+)/)?.[1]), 2);
+			const offset = Number(variables.offset ?? 0);
+			return { data: { donations: donations.slice(offset, offset + limit) } };
+		});
+
+		const { result, report } = await fetchAllPages(document, {}, executePage, {
+			maxRows: 100,
+			maxPages: 10,
+		});
+
+		expect(result.data?.donations).toEqual(donations);
+		expect(report).toMatchObject({ pages: 4, rows: 7, capped: false });
+	});
+
+	it("follows Relay cursors and reports when the row cap is hit", async () => {
+		const document = parse("{ projects(first: 2) { edges { node { id } } } }");
+		const executePage: ExecutePage = async (query) => {
+			const after = Number(query.match(/after: "(\d+)"/)?.[1] ?? 0);
+			return {
+				data: {
+					projects: {
+						edges: [{ node: { id: after } }, { node: { id: after + 1 } }],
+						pageInfo: { hasNextPage: true, endCursor: String(after + 2) },
+					},
+				},
+			};
+		};
+
+		const { result, report } = await fetchAllPages(document, {}, executePage, {
+			maxRows: 5,
+			maxPages: 10,
+		});
+
+		const projects = result.data?.projects as { edges: unknown[] };
+		expect(projects.edges).toHaveLength(5);
+		expect(report).toMatchObject({ pages: 3, rows: 5, capped: true });
+	});
+});
+
+describe("isPaginatable", () => {
+	it("ignores queries without paging arguments", () => {
+		expect(isPaginatable(parse("{ rounds { id } }"))).toBe(false);
+		expect(isPaginatable(parse("{ rounds(limit: 10) { id } }"))).toBe(true);
+	});
+});
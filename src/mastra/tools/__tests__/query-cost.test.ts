@@ -0,0 +1,80 @@
+import { buildSchema, parse, print } from "graphql";
+import { describe, expect, it } from "vitest";
+import { enforceQueryCost, estimateQueryCost } from "../query-cost";
+
+const schema = buildSchema(`
+	type Project {
+		id: String!
+		applications(limit: Int): [Application!]!
+	}
+
+	type Application {
+		id: String!
+		project: Project
+	}
+
+	type Round {
+		id: String!
+		applications(limit: Int): [Application!]!
+	}
+
+	type Query {
+		rounds(limit: Int): [Round!]!
+	}
+`);
+
+describe("estimateQueryCost", () => {
+	it("multiplies nested lists by their limits or the default list size", () => {
+		const cost = estimateQueryCost(
+			parse("query($n: Int) { rounds(limit: $n) { id applications { id } } }"),
+			{ n: 2 },
+			schema,
+			10,
+		);
+
+		// 2 rounds + 2 ids + 20 applications + 20 ids
+		expect(cost.nodes).toBe(44);
+		expect(cost.depth).toBe(3);
+		expect(cost.unboundedLists.map(({ path }) => path)).toEqual([
+			"rounds.applications",
+		]);
+	});
+});
+
+describe("enforceQueryCost", () => {
+	const document = parse(
+		"{ rounds { applications { project { applications { id } } } } }",
+	);
+
+	it("names the list fields that need a limit when rejecting", () => {
+		const { errors } = enforceQueryCost(document, {}, schema, {
+			maxNodes: 1000,
+		});
+
+		expect(errors.map(({ path }) => path.join("."))).toEqual([
+			"rounds",
+			"rounds.applications",
+			"rounds.applications.project.applications",
+		]);
+		expect(errors[0].message).toContain("limit");
+	});
+
+	it("injects limits into unbounded lists when autoLimit is set", () => {
+		const result = enforceQueryCost(document, {}, schema, {
+			maxNodes: 1000,
+			autoLimit: 5,
+		});
+
+		expect(result.errors).toEqual([]);
+		expect(result.injectedLimits).toHaveLength(3);
+		expect(print(result.document)).toContain("rounds(limit: 5)");
+	});
+
+	it("rejects queries nested deeper than maxDepth", () => {
+		const { errors } = enforceQueryCost(document, {}, schema, {
+			maxDepth: 3,
+		});
+
+		expect(errors[0].message).toContain("nested 5 levels deep");
+	});
+});
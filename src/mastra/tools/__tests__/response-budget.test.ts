@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import {
+	countJsonTokens,
+	describeOmissions,
+	reduceToTokenBudget,
+} from "../response-budget";
+
+const rounds = Array.from({ length: 200 }, (_, index) => ({
+	id: String(index),
+	description: "A long round description. ".repeat(200),
+	donations: Array.from({ length: 50 }, (_, donation) => ({
+		id: `${index}-${donation}`,
+		amountInUsd: donation * 1.5,
+	})),
+}));
+
+describe("reduceToTokenBudget", () => {
+	it("returns small payloads untouched", () => {
+		const data = { rounds: [{ id: "865" }] };
+		const reduced = reduceToTokenBudget(data, 1000);
+
+		expect(reduced.data).toBe(data);
+		expect(reduced.truncated).toBe(false);
+		expect(reduced.omitted).toEqual([]);
+	});
+
+	it("samples lists and shortens strings into valid JSON within budget", () => {
+		const reduced = reduceToTokenBudget({ rounds }, 2000);
+		const data = reduced.data as { rounds: typeof rounds };
+
+		expect(reduced.truncated).toBe(true);
+		expect(reduced.tokens).toBeLessThanOrEqual(2000);
+		expect(countJsonTokens(JSON.parse(JSON.stringify(data)))).toBe(
+			reduced.tokens,
+		);
+		expect(data.rounds[0].id).toBe("0");
+		expect(data.rounds.at(-1)?.id).toBe("199");
+		expect(data.rounds[0].description).toContain("chars omitted]");
+		expect(reduced.omitted).toEqual(
+			expect.arrayContaining([
+				expect.objectContaining({ path: "rounds", kind: "array", total: 200 }),
+				expect.objectContaining({
+					path: "rounds[].donations",
+					kind: "array",
+					occurrences: data.rounds.length,
+				}),
+				expect.objectContaining({
+					path: "rounds[].description",
+					kind: "string",
+				}),
+			]),
+		);
+		expect(describeOmissions(reduced.omitted)).toMatch(
+			/- rounds: kept \d+ of 200 items/,
+		);
+	});
+});
@@ -0,0 +1,73 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+	createMemoryCacheBackend,
+	createResponseCache,
+	responseCacheKey,
+} from "../response-cache";
+
+describe("responseCacheKey", () => {
+	it("ignores query formatting and variable order", () => {
+		expect(
+			responseCacheKey("https://example.com/graphql", "{ rounds { id } }", {
+				a: 1,
+				b: { c: 2, d: 3 },
+			}),
+		).toBe(
+			responseCacheKey(
+				"https://example.com/graphql",
+				"query {\n  rounds {\n    id\n  }\n}",
+				{ b: { d: 3, c: 2 }, a: 1 },
+			),
+		);
+	});
+
+	it("separates endpoints and options", () => {
+		const key = responseCacheKey("https://a.example/graphql", "{ id }");
+
+		expect(responseCacheKey("https://b.example/graphql", "{ id }")).not.toBe(
+			key,
+		);
+		expect(
+			responseCacheKey(
+				"https://a.example/graphql",
+				"{ id }",
+				{},
+				{
+					paginate: true,
+				},
+			),
+		).not.toBe(key);
+	});
+});
+
+describe("createMemoryCacheBackend", () => {
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it("expires entries after the TTL", async () => {
+		vi.useFakeTimers();
+		const cache = createResponseCache<{ id: number }>(
+			createMemoryCacheBackend(),
+			{ ttlMs: 1000 },
+		);
+
+		await cache.set("key", { id: 1 });
+		expect(await cache.get("key")).toEqual({ id: 1 });
+
+		vi.advanceTimersByTime(1001);
+		expect(await cache.get("key")).toBeUndefined();
+	});
+
+	it("evicts the least recently used entry once full", async () => {
+		const backend = createMemoryCacheBackend(2);
+
+		await backend.set("a", "1", 1000);
+		await backend.set("b", "2", 1000);
+		await backend.get("a");
+		await backend.set("c", "3", 1000);
+
+		expect(await backend.get("a")).toBe("1");
+		expect(await backend.get("b")).toBeUndefined();
+	});
+});
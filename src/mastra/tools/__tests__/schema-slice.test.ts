@@ -0,0 +1,93 @@
+import { buildSchema } from "graphql";
+import { describe, expect, it } from "vitest";
+import { sliceSchemaForPrompt } from "../schema-slice";
+
+const schema = buildSchema(`
+	scalar jsonb
+
+	enum OrderBy {
+		ASC
+		DESC
+	}
+
+	input StringComparisonExp {
+		_eq: String
+	}
+
+	input RoundsBoolExp {
+		id: StringComparisonExp
+		_and: [RoundsBoolExp!]
+	}
+
+	input RoundsOrderBy {
+		id: OrderBy
+	}
+
+	type Donation {
+		id: String!
+		amount: Int!
+	}
+
+	type Round {
+		id: String!
+		roundMetadata: jsonb
+		donations: [Donation!]!
+	}
+
+	type RoundsAggregate {
+		count: Int!
+	}
+
+	type Project {
+		id: String!
+	}
+
+	type Query {
+		rounds(where: RoundsBoolExp, orderBy: [RoundsOrderBy!], limit: Int): [Round!]!
+		roundsAggregate(where: RoundsBoolExp): RoundsAggregate!
+		projects: [Project!]!
+	}
+`);
+
+describe("sliceSchemaForPrompt", () => {
+	it("keeps matching root fields with their filter and ordering inputs", () => {
+		const slice = sliceSchemaForPrompt(
+			schema,
+			"Which donations did round 865 receive?",
+		);
+
+		expect(slice.rootFields).toEqual(["rounds"]);
+		expect(slice.types).toEqual(
+			expect.arrayContaining([
+				"Query",
+				"Round",
+				"RoundsBoolExp",
+				"RoundsOrderBy",
+				"OrderBy",
+				"StringComparisonExp",
+				"Donation",
+				"jsonb",
+			]),
+		);
+		expect(slice.types).not.toContain("Project");
+		expect(slice.sdl).not.toContain("scalar String");
+		expect(slice.truncated).toBe(false);
+	});
+
+	it("only offers aggregate fields when the prompt asks for counts", () => {
+		const slice = sliceSchemaForPrompt(schema, "How many rounds are there?");
+
+		expect(slice.rootFields).toEqual(["rounds", "roundsAggregate"]);
+	});
+
+	it("respects the depth limit and token budget", () => {
+		const full = sliceSchemaForPrompt(schema, "rounds");
+		const shallow = sliceSchemaForPrompt(schema, "rounds", { maxDepth: 0 });
+		expect(full.types).toContain("Donation");
+		expect(shallow.types).not.toContain("Donation");
+
+		const tight = sliceSchemaForPrompt(schema, "rounds", { tokenBudget: 60 });
+		expect(tight.truncated).toBe(true);
+		expect(tight.types.length).toBeLessThan(full.types.length);
+	});
+});
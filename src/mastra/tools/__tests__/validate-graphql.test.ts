@@ -0,0 +1,47 @@
+import { buildSchema, parse } from "graphql";
+import { describe, expect, it } from "vitest";
+import { validateQueryAgainstSchema } from "../validate-graphql";
+
+const schema = buildSchema(`
+	type Project {
+		id: String!
+		name: String
+	}
+
+	type Round {
+		id: String!
+		chainId: Int!
+		projects(limit: Int): [Project!]!
+	}
+
+	type Query {
+		rounds(limit: Int, offset: Int): [Round!]!
+	}
+`);
+
+describe("validateQueryAgainstSchema", () => {
+	it("returns no errors for a valid query", () => {
+		const document = parse("{ rounds(limit: 1) { id projects { id } } }");
+
+		expect(validateQueryAgainstSchema(schema, document)).toEqual([]);
+	});
+
+	it("reports the field path and suggestions for unknown fields", () => {
+		const document = parse("{ rounds { id projects { nam } } }");
+
+		const [error] = validateQueryAgainstSchema(schema, document);
+
+		expect(error.path).toEqual(["rounds", "projects", "nam"]);
+		expect(error.suggestions).toEqual(["name"]);
+		expect(error.locations).toEqual([{ line: 1, column: 26 }]);
+	});
+
+	it("reports unknown arguments on the owning field", () => {
+		const document = parse("{ rounds(first: 1) { id } }");
+
+		const [error] = validateQueryAgainstSchema(schema, document);
+
+		expect(error.message).toContain('Unknown argument "first"');
+		expect(error.path).toEqual(["rounds"]);
+	});
+});
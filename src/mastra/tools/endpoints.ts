@@ -0,0 +1,155 @@
+import type { DomainProfile } from "../config/domain-profile";
+import type { RetrievalOptions } from "../retrieval";
+import { createVectorQueryTool } from "./get-vector-context";
+import { createGraphQLIntrospectionTool } from "./introspect-graphql";
+import { createQueryExampleRetriever } from "./query-examples";
+import { createGraphQLQueryTool } from "./query-graphql";
+import { getDefaultCacheBackend } from "./response-cache";
+import {
+	type SchemaCacheOptions,
+	loadCachedSchema,
+	loadClientSchema,
+} from "./schema-cache";
+import { type SchemaSliceOptions, sliceSchemaForPrompt } from "./schema-slice";
+
+/**
+ * Everything the workflows need to query one registered GraphQL API
+ */
+export type GraphQLEndpoint = ReturnType<typeof createGraphQLEndpoint>;
+
+/**
+ * Index names default to the endpoint id, since pgvector index names can't contain dashes
+ */
+function defaultIndexName(profile: DomainProfile, suffix: string): string {
+	return `${profile.id.replace(/-/g, "_")}_${suffix}`;
+}
+
+/**
+ * Search settings of an index, from the profile's [retrieval.<index>] table
+ */
+function retrievalOptions(
+	settings: DomainProfile["retrieval"]["types"],
+): RetrievalOptions | undefined {
+	return (
+		settings && {
+			mode: settings.mode,
+			candidates: settings.candidates,
+			rrfK: settings.rrf_k,
+			textSearchConfig: settings.text_search_config,
+			rerank: settings.rerank,
+			rerankModel: settings.rerank_model,
+			mmrLambda: settings.mmr_lambda,
+		}
+	);
+}
+
+/**
+ * Creates the query, introspection, schema and retrieval tools for an endpoint
+ * described by a domain profile
+ *
+ * @param profile Domain profile declaring the endpoint's URL, auth and indexes
+ * @param pgConnectionString PostgreSQL connection string for the vector indexes
+ */
+export const createGraphQLEndpoint = (
+	profile: DomainProfile,
+	pgConnectionString: string,
+) => {
+	const {
+		url,
+		headers,
+		schema_cache_ttl_ms: ttlMs,
+		timeout_ms: timeoutMs,
+		max_retries: maxRetries,
+	} = profile.endpoint;
+	const { limits } = profile;
+	const successfulQueriesIndex =
+		profile.indexes.successful_queries ??
+		defaultIndexName(profile, "successful_queries");
+
+	return {
+		id: profile.id,
+		profile,
+
+		graphqlQuery: createGraphQLQueryTool(url, {
+			allowMutations: false,
+			defaultHeaders: headers,
+			successfulQueriesIndexName: successfulQueriesIndex,
+			pgConnectionString,
+			deniedFields: profile.forbidden_fields,
+			costLimits: {
+				maxDepth: limits.max_depth,
+				maxNodes: limits.max_nodes,
+				maxAliases: limits.max_aliases,
+				defaultListSize: limits.default_list_size,
+				autoLimit: limits.auto_limit,
+			},
+			cache: getDefaultCacheBackend(),
+			retry: { timeoutMs, maxRetries },
+		}),
+
+		graphqlIntrospection: createGraphQLIntrospectionTool(url, {
+			defaultHeaders: headers,
+		}),
+
+		/**
+		 * Read the schema (SDL and raw introspection) through the per-endpoint cache
+		 */
+		loadSchema: (options: Omit<SchemaCacheOptions, "headers"> = {}) =>
+			loadCachedSchema(url, { ttlMs, ...options, headers }),
+
+		/**
+		 * The schema as a GraphQLSchema, built once per cached introspection
+		 */
+		loadClientSchema: () => loadClientSchema(url, { ttlMs, headers }),
+
+		/**
+		 * Extract the part of the schema relevant to a prompt
+		 */
+		sliceSchema: async (prompt: string, options: SchemaSliceOptions = {}) =>
+			sliceSchemaForPrompt(
+				await loadClientSchema(url, { ttlMs, headers }),
+				prompt,
+				options,
+			),
+
+		/**
+		 * Retrieve past successful queries with prompts similar to a new one
+		 */
+		findQueryExamples: createQueryExampleRetriever(
+			pgConnectionString,
+			successfulQueriesIndex,
+			{
+				topK: 3,
+				threshold: 0.5,
+			},
+		),
+
+		types: createVectorQueryTool(
+			pgConnectionString,
+			profile.indexes.types ?? defaultIndexName(profile, "gql_types"),
+			{
+				description: `Retrieve relevant type definitions relating to the ${profile.name} GraphQL endpoint`,
+				topK: 10,
+				threshold: 0.3,
+				retrieval: retrievalOptions(profile.retrieval.types),
+				filterFields: {
+					containsEntityTypes: "true for chunks defining object types",
+					containsFilterTypes:
+						"true for chunks defining *BoolExp where-filter input types",
+					containsOrderTypes: "true for chunks defining *OrderBy types",
+				},
+			},
+		),
+
+		docs: profile.indexes.docs
+			? createVectorQueryTool(pgConnectionString, profile.indexes.docs, {
+					description:
+						profile.indexes.docs_description ??
+						`Retrieve relevant documentation about the ${profile.name}`,
+					topK: 3,
+					threshold: 0.3,
+					retrieval: retrievalOptions(profile.retrieval.docs),
+				})
+			: undefined,
+	};
+};
@@ -0,0 +1,296 @@
+import {
+	type ASTVisitor,
+	type DocumentNode,
+	type FragmentDefinitionNode,
+	type GraphQLCompositeType,
+	GraphQLError,
+	type GraphQLSchema,
+	Kind,
+	type SelectionSetNode,
+	type ValidationContext,
+	getNamedType,
+	isCompositeType,
+	isInterfaceType,
+	isObjectType,
+	visit,
+} from "graphql";
+
+/**
+ * A field that must never be selected or returned, as a schema coordinate
+ * (`Type.field`) optionally followed by a path into a JSON value
+ * (`Project.metadata.credentials`)
+ */
+export interface DeniedField {
+	path: string;
+	reason?: string;
+}
+
+interface ParsedDeniedField {
+	coordinate: string;
+	typeName: string;
+	fieldName: string;
+	subPath: string[];
+	reason?: string;
+}
+
+function parseDeniedField({ path, reason }: DeniedField): ParsedDeniedField {
+	const [typeName, fieldName, ...subPath] = path.split(".");
+	if (!typeName || !fieldName || subPath.some((key) => !key)) {
+		throw new Error(
+			`Invalid denied field "${path}": expected Type.field or Type.field.json.path`,
+		);
+	}
+	return {
+		coordinate: `${typeName}.${fieldName}`,
+		typeName,
+		fieldName,
+		subPath,
+		reason,
+	};
+}
+
+/**
+ * Creates a validation rule rejecting selections of denied fields. Entries with a
+ * JSON sub-path only restrict part of a field's value, so they are left to redaction.
+ */
+export function createDeniedFieldsRule(deniedFields: DeniedField[]) {
+	const rejected = deniedFields
+		.map(parseDeniedField)
+		.filter(({ subPath }) => subPath.length === 0);
+
+	return (context: ValidationContext): ASTVisitor => ({
+		Field(node) {
+			const parentType = context.getParentType();
+			const denied =
+				parentType &&
+				rejected.find(
+					({ typeName, fieldName }) =>
+						typeName === parentType.name && fieldName === node.name.value,
+				);
+			if (denied) {
+				context.reportError(
+					new GraphQLError(
+						`Field "${denied.coordinate}" is denied${denied.reason ? ` (${denied.reason})` : ""}. Remove it from the query.`,
+						{ nodes: node, extensions: { deniedField: denied.coordinate } },
+					),
+				);
+			}
+		},
+	});
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Removes a path from a JSON value, descending into every element of arrays
+ */
+function deletePath(value: unknown, path: string[]): number {
+	if (Array.isArray(value)) {
+		return value.reduce<number>(
+			(count, item) => count + deletePath(item, path),
+			0,
+		);
+	}
+	if (!isRecord(value) || !(path[0] in value)) {
+		return 0;
+	}
+	const [key, ...rest] = path;
+	if (rest.length === 0) {
+		delete value[key];
+		return 1;
+	}
+	return deletePath(value[key], rest);
+}
+
+/**
+ * Strips denied fields (or their JSON sub-paths) from one selection set's data
+ */
+function redactSelectionSet(
+	value: unknown,
+	selectionSet: SelectionSetNode,
+	parentType: GraphQLCompositeType,
+	context: {
+		schema: GraphQLSchema;
+		fragments: Map<string, FragmentDefinitionNode>;
+		denied: ParsedDeniedField[];
+	},
+): number {
+	if (Array.isArray(value)) {
+		return value.reduce<number>(
+			(count, item) =>
+				count + redactSelectionSet(item, selectionSet, parentType, context),
+			0,
+		);
+	}
+	if (!isRecord(value)) {
+		return 0;
+	}
+
+	let count = 0;
+	for (const selection of selectionSet.selections) {
+		if (selection.kind !== Kind.FIELD) {
+			const fragment =
+				selection.kind === Kind.INLINE_FRAGMENT
+					? selection
+					: context.fragments.get(selection.name.value);
+			const fragmentType = fragment?.typeCondition
+				? context.schema.getType(fragment.typeCondition.name.value)
+				: parentType;
+			if (fragment && fragmentType && isCompositeType(fragmentType)) {
+				count += redactSelectionSet(
+					value,
+					fragment.selectionSet,
+					fragmentType,
+					context,
+				);
+			}
+			continue;
+		}
+
+		const key = selection.alias?.value ?? selection.name.value;
+		if (!(key in value)) {
+			continue;
+		}
+
+		for (const denied of context.denied) {
+			if (
+				denied.typeName !== parentType.name ||
+				denied.fieldName !== selection.name.value
+			) {
+				continue;
+			}
+			if (denied.subPath.length === 0) {
+				delete value[key];
+				count++;
+			} else {
+				count += deletePath(value[key], denied.subPath);
+			}
+		}
+
+		if (
+			key in value &&
+			selection.selectionSet &&
+			(isObjectType(parentType) || isInterfaceType(parentType))
+		) {
+			const field = parentType.getFields()[selection.name.value];
+			const fieldType = field && getNamedType(field.type);
+			if (fieldType && isCompositeType(fieldType)) {
+				count += redactSelectionSet(
+					value[key],
+					selection.selectionSet,
+					fieldType,
+					context,
+				);
+			}
+		}
+	}
+	return count;
+}
+
+/**
+ * Without a schema the parent types are unknown, so every key selecting a denied
+ * field name (directly or through an alias) is stripped wherever it appears
+ */
+function redactByFieldName(
+	value: unknown,
+	denied: ParsedDeniedField[],
+	aliases: Map<string, Set<string>>,
+): number {
+	if (Array.isArray(value)) {
+		return value.reduce<number>(
+			(count, item) => count + redactByFieldName(item, denied, aliases),
+			0,
+		);
+	}
+	if (!isRecord(value)) {
+		return 0;
+	}
+
+	let count = 0;
+	for (const key of Object.keys(value)) {
+		for (const { fieldName, subPath } of denied) {
+			if (
+				!(key in value) ||
+				(key !== fieldName && !aliases.get(key)?.has(fieldName))
+			) {
+				continue;
+			}
+			if (subPath.length === 0) {
+				delete value[key];
+				count++;
+			} else {
+				count += deletePath(value[key], subPath);
+			}
+		}
+		if (key in value) {
+			count += redactByFieldName(value[key], denied, aliases);
+		}
+	}
+	return count;
+}
+
+/**
+ * Returns a copy of the response data with denied fields and JSON sub-paths removed
+ *
+ * @param data Response data for the document
+ * @param document Parsed query the data answers
+ * @param deniedFields Fields to strip
+ * @param schema Schema used to resolve parent types; when missing, keys are matched by field name alone
+ * @returns The redacted data and the number of values removed
+ */
+export function redactResponse<T>(
+	data: T,
+	document: DocumentNode,
+	deniedFields: DeniedField[],
+	schema?: GraphQLSchema,
+): { data: T; redacted: number } {
+	const denied = deniedFields.map(parseDeniedField);
+	if (denied.length === 0 || data === null || data === undefined) {
+		return { data, redacted: 0 };
+	}
+
+	const redactedData = structuredClone(data);
+
+	if (!schema) {
+		const aliases = new Map<string, Set<string>>();
+		visit(document, {
+			Field(node) {
+				if (node.alias) {
+					const names = aliases.get(node.alias.value) ?? new Set<string>();
+					names.add(node.name.value);
+					aliases.set(node.alias.value, names);
+				}
+			},
+		});
+		return {
+			data: redactedData,
+			redacted: redactByFieldName(redactedData, denied, aliases),
+		};
+	}
+
+	const fragments = new Map<string, FragmentDefinitionNode>();
+	for (const definition of document.definitions) {
+		if (definition.kind === Kind.FRAGMENT_DEFINITION) {
+			fragments.set(definition.name.value, definition);
+		}
+	}
+
+	let redacted = 0;
+	for (const definition of document.definitions) {
+		if (definition.kind !== Kind.OPERATION_DEFINITION) {
+			continue;
+		}
+		const rootType = schema.getRootType(definition.operation);
+		if (rootType) {
+			redacted += redactSelectionSet(
+				redactedData,
+				definition.selectionSet,
+				rootType,
+				{ schema, fragments, denied },
+			);
+		}
+	}
+	return { data: redactedData, redacted };
+}
@@ -1,8 +1,101 @@
-import { openai } from "@ai-sdk/openai";
 import { createTool } from "@mastra/core/tools";
 import { PgVector } from "@mastra/pg";
-import { embed } from "ai";
 import { z } from "zod";
+import {
+	checkIndexModel,
+	createEmbeddingProvider,
+	getEmbeddingProvider,
+} from "../embeddings";
+import { withFixture } from "../fixtures";
+import { createLogger, withSpan } from "../observability";
+import {
+	type RetrievalOptions,
+	type RetrievedChunk,
+	DEFAULT_TEXT_SEARCH_CONFIG,
+	createKeywordSearch,
+	createReranker,
+	fuseResults,
+	maximalMarginalRelevance,
+	metadataFilterSchema,
+	toVectorFilter,
+} from "../retrieval";
+import { reportEmbeddingUsage } from "../usage";
+
+const log = createLogger("Vector Query Tool");
+
+export const chunkMetadata = z.object({
+	content: z.string(),
+	source: z
+		.string()
+		.optional()
+		.describe("Identifier of the source the chunk was ingested from"),
+	url: z.string().optional().describe("Where the chunk's document can be read"),
+	title: z.string().optional().describe("Title of the chunk's document"),
+	headingPath: z
+		.string()
+		.optional()
+		.describe('Headings the chunk sits under, e.g. "Rounds > Funding"'),
+	chunkIndex: z
+		.number()
+		.optional()
+		.describe("Position of the chunk in its document"),
+	sourceType: z
+		.string()
+		.optional()
+		.describe('Kind of source, e.g. "gitbook" or "contract"'),
+	ingestedAt: z.string().optional().describe("When the chunk was embedded"),
+});
+
+export type ChunkMetadata = z.infer<typeof chunkMetadata>;
+
+/**
+ * Picks the citation fields of a stored chunk's metadata, dropping values of the wrong type
+ */
+function toChunkMetadata(
+	content: string,
+	metadata: Record<string, unknown> = {},
+): ChunkMetadata {
+	const string = (key: string) =>
+		typeof metadata[key] === "string" && metadata[key]
+			? (metadata[key] as string)
+			: undefined;
+	return {
+		content,
+		source: string("source"),
+		url: string("url"),
+		title: string("title"),
+		headingPath: string("headingPath"),
+		chunkIndex:
+			typeof metadata.chunkIndex === "number" ? metadata.chunkIndex : undefined,
+		sourceType: string("sourceType"),
+		ingestedAt: string("ingestedAt"),
+	};
+}
+
+/**
+ * The text of a stored chunk, and its content where that is stored separately
+ */
+function readText(metadata: Record<string, unknown>): {
+	text: string;
+	content?: string;
+} {
+	// Ensure content and text are strings, each falling back to the other
+	const content =
+		typeof metadata.content === "string" ? metadata.content : undefined;
+	const text =
+		typeof metadata.text === "string" ? metadata.text : (content ?? "");
+	return { text, content };
+}
+
+/**
+ * Where a chunk came from, for agents to cite, e.g. "Funding Rounds > Matching — https://..."
+ */
+function formatCitation(metadata: ChunkMetadata): string {
+	const place = [metadata.title, metadata.headingPath]
+		.filter(Boolean)
+		.join(" > ");
+	return [place, metadata.url ?? metadata.source].filter(Boolean).join(" — ");
+}
 
 export const vectorResponse = z.object({
 	context: z
@@ -27,9 +120,18 @@ export const vectorResponse = z.object({
 				.describe(
 					"The similarity score of the retrieved document with respect to the query. This indicates how relevant the document is to the query.",
 				),
-			metadata: z.object({
-				content: z.string(),
-			}),
+			metadata: chunkMetadata,
+			scores: z
+				.object({
+					vector: z.number().optional(),
+					keyword: z.number().optional(),
+					fused: z.number().optional(),
+					rerank: z.number().optional(),
+					mmr: z.number().optional(),
+				})
+				.describe(
+					"Score of each retrieval stage that ranked the document: vector similarity, full-text rank, reciprocal rank fusion, reranker relevance and marginal relevance",
+				),
 		}),
 	),
 });
@@ -41,7 +143,9 @@ export const vectorResponse = z.object({
  * @param indexName The name of the vector index
  * @param topK Number of results to return (default: 5)
  * @param threshold Minimum similarity threshold (default: 0.5)
- * @param embeddingModel Model to use for embedding generation (default: 'text-embedding-3-small')
+ * @param embeddingModel Model to use for embedding generation, as "provider:model" (default: the registry's embedder model). It must be the model the index was built with.
+ * @param retrieval Hybrid keyword search, reranking and MMR for this index (default: vector search alone)
+ * @param filterFields Metadata fields the index's chunks can be filtered on, with what they hold, described to the agent
  */
 export const createVectorQueryTool = (
 	pgConnectionString: string,
@@ -51,16 +155,40 @@ export const createVectorQueryTool = (
 		threshold?: number;
 		embeddingModel?: string;
 		description?: string;
+		retrieval?: RetrievalOptions;
+		filterFields?: Record<string, string>;
 	} = {},
 ) => {
 	// Set default values for options
 	const topK = options.topK || 2;
 	const threshold = options.threshold || 0.5;
-	const embeddingModel = options.embeddingModel || "text-embedding-3-small";
+	const embedder = options.embeddingModel
+		? createEmbeddingProvider(options.embeddingModel)
+		: getEmbeddingProvider();
 	const description =
 		options.description ||
 		`Fetches contextually similar content from the vector database based on a query. This tool searches the '${indexName}' collection for the most relevant information.`;
 
+	const retrieval = options.retrieval ?? {};
+	const keywordSearch =
+		retrieval.mode === "hybrid"
+			? createKeywordSearch(pgConnectionString)
+			: undefined;
+	const reranker =
+		retrieval.rerank && retrieval.rerank !== "none"
+			? createReranker(retrieval.rerank, retrieval.rerankModel)
+			: undefined;
+	const mmrLambda = retrieval.mmrLambda;
+	// Later stages pick the topK results from a wider pool of candidates
+	const candidates =
+		keywordSearch || reranker || mmrLambda !== undefined
+			? Math.max(retrieval.candidates ?? topK * 4, topK)
+			: topK;
+
+	const filterFields = Object.entries(options.filterFields ?? {})
+		.map(([field, meaning]) => `${field}: ${meaning}`)
+		.join("; ");
+
 	// Initialize the PgVector client
 	const pgVector = new PgVector(pgConnectionString);
 
@@ -72,30 +200,165 @@ export const createVectorQueryTool = (
 				.describe(
 					"The user query or topic to find relevant context for. This should be a concise summary or question.",
 				),
+			filter: metadataFilterSchema
+				.optional()
+				.describe(
+					`Only return chunks whose metadata matches every condition: a field's value, or { "in": [values] } for any of several values.${filterFields ? ` Fields: ${filterFields}` : ""}`,
+				),
 		}),
 		outputSchema: vectorResponse,
 		description,
 
-		execute: async ({ context: { query } }) => {
+		execute: async ({ context: { query, filter } }) => {
 			try {
-				console.log(`Executing Vector Query with: "${query}"`);
+				log.info("Executing vector query", { query, filter });
 
-				// Generate embedding for the query using OpenAI
-				const { embedding } = await embed({
-					value: query,
-					model: openai.embedding(embeddingModel),
-				});
+				// Generate embedding for the query
+				const { embedding, tokens } = await withSpan(
+					"embedding",
+					{
+						kind: "client",
+						attributes: { "embedding.model": embedder.id },
+					},
+					async (span) => {
+						const result = await withFixture(
+							"embedding",
+							{ model: embedder.id, value: query },
+							async () => {
+								const {
+									embeddings: [embedding],
+									tokens,
+								} = await embedder.embed([query]);
+								return { embedding, tokens };
+							},
+						);
+						span.setAttributes({ "embedding.tokens": result.tokens });
+						return result;
+					},
+				);
+				if (tokens) {
+					reportEmbeddingUsage("Vector Database Query", embedder.id, tokens);
+				}
 
 				// Query the vector store
-				const results = await pgVector.query({
-					minScore: threshold,
-					indexName: indexName,
-					queryVector: embedding,
-					topK,
-				});
+				const results = await withSpan(
+					"vector.query",
+					{
+						kind: "client",
+						attributes: {
+							"vector.index": indexName,
+							"vector.top_k": candidates,
+						},
+					},
+					async (span) => {
+						const results = await withFixture(
+							"vector-query",
+							{ indexName, topK: candidates, minScore: threshold, filter },
+							async () => {
+								// Vectors of another model are not comparable to the index's
+								await checkIndexModel(pgVector, indexName, embedder);
+								return pgVector.query({
+									minScore: threshold,
+									indexName: indexName,
+									queryVector: embedding,
+									topK: candidates,
+									filter: filter && toVectorFilter(filter),
+									// MMR compares the candidates with each other
+									includeVector: mmrLambda !== undefined,
+								});
+							},
+						);
+						span.setAttributes({ "vector.results": results?.length ?? 0 });
+						return results ?? [];
+					},
+				);
+
+				let chunks: RetrievedChunk[] = results.map((result) => ({
+					id: result.id,
+					metadata: result.metadata ?? {},
+					vector: result.vector,
+					score: result.score,
+					scores: { vector: result.score },
+				}));
 
-				if (!results || results.length === 0) {
-					console.log("No context found for the query:", query);
+				// Full-text search finds exact identifiers that embeddings rank poorly
+				if (keywordSearch) {
+					const matches = await withSpan(
+						"keyword.query",
+						{
+							kind: "client",
+							attributes: {
+								"vector.index": indexName,
+								"keyword.top_k": candidates,
+							},
+						},
+						async (span) => {
+							const matches = await withFixture(
+								"keyword-query",
+								{ indexName, query, topK: candidates, filter },
+								() =>
+									keywordSearch.search({
+										indexName,
+										query,
+										topK: candidates,
+										filter,
+										textSearchConfig:
+											retrieval.textSearchConfig ?? DEFAULT_TEXT_SEARCH_CONFIG,
+									}),
+							);
+							span.setAttributes({ "keyword.results": matches.length });
+							return matches;
+						},
+					);
+					chunks = fuseResults(results, matches, {
+						queryVector: embedding,
+						rrfK: retrieval.rrfK,
+					});
+				}
+
+				if (reranker && chunks.length > 1) {
+					const candidateChunks = chunks;
+					chunks = await withSpan(
+						"rerank",
+						{
+							attributes: {
+								"rerank.model": reranker.id,
+								"rerank.candidates": candidateChunks.length,
+							},
+						},
+						async () => {
+							try {
+								const scores = await reranker.score(
+									query,
+									candidateChunks.map(
+										({ metadata }) => readText(metadata).text,
+									),
+								);
+								return candidateChunks
+									.map((chunk, index) => ({
+										...chunk,
+										score: scores[index],
+										scores: { ...chunk.scores, rerank: scores[index] },
+									}))
+									.sort((a, b) => b.score - a.score);
+							} catch (error) {
+								// A failed rerank still leaves a usable ranking
+								log.warn("Reranking failed, keeping the retrieval order", {
+									error,
+								});
+								return candidateChunks;
+							}
+						},
+					);
+				}
+
+				chunks =
+					mmrLambda !== undefined
+						? maximalMarginalRelevance(chunks, topK, mmrLambda)
+						: chunks.slice(0, topK);
+
+				if (chunks.length === 0) {
+					log.info("No context found for the query", { query });
 					return {
 						context: "No relevant context found in the vector database.",
 						query,
@@ -104,41 +367,32 @@ export const createVectorQueryTool = (
 				}
 
 				// Format results to match the expected output schema
-				const formattedResults = results.map((result) => {
-					// Ensure text is a string, provide default if missing or not a string
-					const text =
-						typeof result.metadata?.text === "string"
-							? result.metadata.text
-							: "";
-					// Ensure metadata.content is a string, provide default if missing or not a string
-					const content =
-						typeof result.metadata?.content === "string"
-							? result.metadata.content
-							: text; // Fallback to 'text' if 'content' is missing
-
+				const formattedResults = chunks.map((chunk) => {
+					const { text, content } = readText(chunk.metadata);
 					return {
-						text: text, // Use the validated text
-						similarity: result.score,
-						metadata: { content: content }, // Construct the metadata object as expected
+						text,
+						similarity: chunk.scores.vector ?? 0,
+						metadata: toChunkMetadata(content ?? text, chunk.metadata),
+						scores: chunk.scores,
 					};
 				});
 
-				console.log(
-					`Found ${formattedResults.length} relevant results for query: "${query}"`,
-				);
+				log.info(`Found ${formattedResults.length} relevant results`, {
+					query,
+				});
 
 				return {
 					context: formattedResults
-						.map(
-							(doc) =>
-								`- ${doc.text} (Similarity: ${doc.similarity.toFixed(2)})`,
-						)
+						.map((doc) => {
+							const citation = formatCitation(doc.metadata);
+							return `- ${doc.text} (Similarity: ${doc.similarity.toFixed(2)}${citation ? `, Source: ${citation}` : ""})`;
+						})
 						.join("\n"),
 					query,
 					results: formattedResults,
 				};
 			} catch (error) {
-				console.error("Error fetching vector context:", error);
+				log.error("Error fetching vector context", { error });
 				return {
 					context: `Error fetching context from vector database: ${
 						error instanceof Error ? error.message : "Unknown error"
@@ -0,0 +1,177 @@
+import { z } from "zod";
+import { withTimeout } from "../../embed/utils";
+import { createLogger } from "../observability";
+
+const log = createLogger("GraphQL Query Tool");
+
+/**
+ * Where a failed query went wrong. Network, rate-limit and server errors are
+ * transient and retried by the tool; endpoint errors mean the request itself is
+ * misconfigured (wrong URL, method or payload); validation and execution errors
+ * are caused by the query and need a fix.
+ */
+export const GraphQLErrorCategoryType = z.enum([
+	"network",
+	"rate_limit",
+	"server",
+	"endpoint",
+	"validation",
+	"execution",
+]);
+
+export type GraphQLErrorCategory = z.infer<typeof GraphQLErrorCategoryType>;
+
+/**
+ * True for errors that changing the query won't fix
+ */
+export function isTransientError(category?: GraphQLErrorCategory): boolean {
+	return (
+		category === "network" ||
+		category === "rate_limit" ||
+		category === "server" ||
+		category === "endpoint"
+	);
+}
+
+/**
+ * Failed HTTP request, classified so callers can tell transient failures apart
+ */
+export class GraphQLRequestError extends Error {
+	constructor(
+		message: string,
+		readonly category: GraphQLErrorCategory,
+		readonly status?: number,
+		readonly retryAfterMs?: number,
+	) {
+		super(message);
+		this.name = "GraphQLRequestError";
+	}
+}
+
+export interface RetryOptions {
+	timeoutMs?: number;
+	maxRetries?: number;
+	baseDelayMs?: number;
+	maxDelayMs?: number;
+	sleep?: (ms: number) => Promise<void>;
+}
+
+const RETRIABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+/**
+ * Maps an HTTP status to an error category
+ */
+export function classifyStatus(status: number): GraphQLErrorCategory {
+	if (status === 429) {
+		return "rate_limit";
+	}
+	if (status === 408) {
+		return "network";
+	}
+	// Auth failures aren't the query's fault either
+	if (status >= 500 || status === 401 || status === 403) {
+		return "server";
+	}
+	// Servers reject malformed or invalid queries with these
+	if (status === 400 || status === 422) {
+		return "validation";
+	}
+	// Other 4xx (404, 405, 413, 415...) point at the endpoint or its configuration
+	return "endpoint";
+}
+
+/**
+ * Parses a Retry-After header given as seconds or as an HTTP date
+ */
+export function parseRetryAfter(
+	header: string | null,
+	now = Date.now(),
+): number | undefined {
+	if (!header) {
+		return undefined;
+	}
+	const seconds = Number(header);
+	if (Number.isFinite(seconds)) {
+		return Math.max(0, seconds * 1000);
+	}
+	const date = Date.parse(header);
+	return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Exponential backoff with full jitter
+ */
+export function backoffDelay(
+	attempt: number,
+	baseDelayMs: number,
+	maxDelayMs: number,
+): number {
+	return Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+}
+
+const defaultSleep = (ms: number) =>
+	new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Sends a request with a per-attempt timeout, retrying network failures and
+ * retriable statuses with backoff. A Retry-After header overrides the backoff
+ * delay, capped at maxDelayMs.
+ *
+ * @param send Sends one request, aborting it when the signal fires
+ * @param options Timeout and retry configuration
+ * @returns The first response that isn't retriable, or the last one once retries run out
+ * @throws GraphQLRequestError when the request never got a response
+ */
+export async function fetchWithRetry(
+	send: (signal: AbortSignal) => Promise<Response>,
+	options: RetryOptions = {},
+): Promise<Response> {
+	const {
+		timeoutMs = 30000,
+		maxRetries = 3,
+		baseDelayMs = 500,
+		maxDelayMs = 10000,
+		sleep = defaultSleep,
+	} = options;
+
+	for (let attempt = 0; ; attempt++) {
+		const controller = new AbortController();
+		let response: Response | undefined;
+		let failure: GraphQLRequestError | undefined;
+		try {
+			response = await withTimeout(
+				send(controller.signal),
+				timeoutMs,
+				`GraphQL request timed out after ${timeoutMs}ms`,
+			);
+		} catch (error) {
+			controller.abort();
+			failure = new GraphQLRequestError(
+				error instanceof Error ? error.message : String(error),
+				"network",
+			);
+		}
+
+		const retriable = response ? RETRIABLE_STATUSES.has(response.status) : true;
+		if (!retriable || attempt >= maxRetries) {
+			if (response) {
+				return response;
+			}
+			throw failure;
+		}
+
+		const retryAfterMs = response
+			? parseRetryAfter(response.headers.get("Retry-After"))
+			: undefined;
+		const delay = Math.min(
+			maxDelayMs,
+			retryAfterMs ?? backoffDelay(attempt, baseDelayMs, maxDelayMs),
+		);
+		// Discard the body of the response being retried
+		await response?.body?.cancel().catch(() => {});
+		log.warn(
+			`${response ? `Received status ${response.status}` : failure?.message}, retrying in ${Math.round(delay)}ms (retry ${attempt + 1} of ${maxRetries})`,
+		);
+		await sleep(delay);
+	}
+}
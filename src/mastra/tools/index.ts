@@ -1,67 +1,95 @@
+import { createTool } from "@mastra/core/tools";
+import { z } from "zod";
+import {
+	DEFAULT_ENDPOINT_ID,
+	domainProfiles,
+	getDomainProfile,
+} from "../config/domain-profile";
+import { type GraphQLEndpoint, createGraphQLEndpoint } from "./endpoints";
 import { createVectorQueryTool } from "./get-vector-context";
-import { createGraphQLIntrospectionTool } from "./introspect-graphql";
-import { createGraphQLQueryTool } from "./query-graphql";
 
 // Environment variables
-const GITCOIN_INDEXER_API_URL =
-	process.env.GITCOIN_INDEXER_API_URL ||
-	"https://beta.indexer.gitcoin.co/v1/graphql";
 export const POSTGRES_URL = process.env.POSTGRES_URL;
-const GITCOIN_DOCS_INDEX = process.env.GITCOIN_DOCS_INDEX || "gitcoin_docs";
 const GITCOIN_ALLO_SOURCE_CODE =
 	process.env.GITCOIN_DOCS_INDEX || "gitcoin_code_embeddings";
 const GITCOIN_SOURCE_INDEX =
 	process.env.GITCOIN_SOURCE_INDEX || "gitcoin_source_code";
-const SUCCESSFUL_QUERIES_INDEX =
-	process.env.SUCCESSFUL_QUERIES_INDEX || "successful_gql_queries";
 
-const GRAPHQL_TYPES_INDEX = "gitcoin_gql_types";
-const API_TOKEN = process.env.API_TOKEN || "";
+if (!POSTGRES_URL) {
+	throw new Error(
+		"POSTGRES_URL is not set. Please set it to use vector query tools.",
+	);
+}
+
+const PG_CONNECTION_STRING: string = POSTGRES_URL;
 
 /**
- * Create and export GraphQL query tool instance
+ * Tools for each endpoint, created the first time the endpoint is used
  */
-export const graphqlQuery = createGraphQLQueryTool(GITCOIN_INDEXER_API_URL, {
-	allowMutations: false,
-	defaultHeaders: {
-		Authorization: API_TOKEN ? `Bearer ${API_TOKEN}` : "",
-	},
-	successfulQueriesIndexName: SUCCESSFUL_QUERIES_INDEX,
-	pgConnectionString: POSTGRES_URL,
+const endpoints = new Map<string, GraphQLEndpoint>();
+
+/**
+ * Looks up a registered endpoint's tools
+ *
+ * @param endpointId Endpoint id, defaults to DEFAULT_ENDPOINT_ID
+ */
+export function getEndpoint(
+	endpointId: string = DEFAULT_ENDPOINT_ID,
+): GraphQLEndpoint {
+	let endpoint = endpoints.get(endpointId);
+	if (!endpoint) {
+		endpoint = createGraphQLEndpoint(
+			getDomainProfile(endpointId),
+			PG_CONNECTION_STRING,
+		);
+		endpoints.set(endpointId, endpoint);
+	}
+	return endpoint;
+}
+
+/**
+ * Lists the registered endpoints so an agent can pick one for a question
+ */
+export const listGraphQLEndpoints = createTool({
+	id: "listGraphQLEndpoints",
+	description:
+		"List the GraphQL APIs that can be queried, with the id to pass as endpointId",
+	inputSchema: z.object({}),
+	outputSchema: z.object({
+		defaultEndpointId: z.string(),
+		endpoints: z.array(
+			z.object({
+				id: z.string(),
+				name: z.string(),
+				description: z.string(),
+			}),
+		),
+	}),
+	execute: async () => ({
+		defaultEndpointId: DEFAULT_ENDPOINT_ID,
+		endpoints: Array.from(domainProfiles.values(), (profile) => ({
+			id: profile.id,
+			name: profile.name,
+			description: profile.description,
+		})),
+	}),
 });
 
 /**
- * Create and export GraphQL introspection tool instance
+ * The default endpoint's tools, for callers that only query one API
  */
-export const graphqlIntrospection = createGraphQLIntrospectionTool(
-	GITCOIN_INDEXER_API_URL,
-	{
-		defaultHeaders: {
-			Authorization: API_TOKEN ? `Bearer ${API_TOKEN}` : "",
-		},
-	},
-);
+const defaultEndpoint = getEndpoint();
 
-if (!POSTGRES_URL) {
-	throw new Error(
-		"POSTGRES_URL is not set. Please set it to use vector query tools.",
-	);
-}
+export const graphqlQuery = defaultEndpoint.graphqlQuery;
+export const graphqlIntrospection = defaultEndpoint.graphqlIntrospection;
+export const loadIndexerSchema = defaultEndpoint.loadSchema;
+export const sliceIndexerSchema = defaultEndpoint.sliceSchema;
 
 /**
  * Export vector query tools conditionally
  */
 
-const dynamicGitcoinDocs = createVectorQueryTool(
-	POSTGRES_URL,
-	GITCOIN_DOCS_INDEX,
-	{
-		description:
-			"Retrieve relevant information about the Gitcoin Grants ecosystem, how the protocol works, and how to get involved from a grantee, community member, or just an interested party",
-		topK: 3,
-		threshold: 0.3,
-	},
-);
+const dynamicGitcoinDocs = defaultEndpoint.docs;
 
 const alloGithubSmartContract = createVectorQueryTool(
 	POSTGRES_URL,
@@ -71,6 +99,16 @@ const alloGithubSmartContract = createVectorQueryTool(
 			"Retrieve relevant source code that makes up the mechanisms behind Gitcoin Grants Rounds. Useful to understand how the protocol works and how to run queries to access relevant transaction data",
 		topK: 1,
 		threshold: 0.3,
+		filterFields: {
+			containsEvents: "true for chunks declaring an event",
+			containsStructs: "true for chunks declaring a struct",
+			containsFunctions: "true for chunks declaring a function",
+			elementType:
+				"first Solidity element the chunk declares: function, event, struct, mapping, state_variable or unknown",
+			elementName: "name of that element",
+			chunkType:
+				'"documented_code" when the chunk starts with NatSpec, else "code"',
+		},
 	},
 );
 
@@ -85,24 +123,24 @@ const dynamicGitcoinSourceCode = createVectorQueryTool(
 	},
 );
 
-const graphqlSourceTypes = createVectorQueryTool(
-	POSTGRES_URL,
-	GRAPHQL_TYPES_INDEX,
-	{
-		description:
-			"Retrieve relevant type definitions relating to the queried graphql endpoint",
-		topK: 10,
-		threshold: 0.3,
-	},
-);
+const graphqlSourceTypes = defaultEndpoint.types;
+
+const findQueryExamples = defaultEndpoint.findQueryExamples;
 
 export {
 	dynamicGitcoinDocs,
 	dynamicGitcoinSourceCode,
 	alloGithubSmartContract,
 	graphqlSourceTypes,
+	findQueryExamples,
 };
 
+export type { GraphQLEndpoint } from "./endpoints";
+export type { QueryExample } from "./query-examples";
+export type { GraphQLErrorCategory } from "./http-retry";
+export { isTransientError } from "./http-retry";
+export { describeOmissions } from "./response-budget";
+
 /**
  * Export all tool creators for custom usage
  */
@@ -1,5 +1,11 @@
 import { createTool } from "@mastra/core/tools";
 import { z } from "zod";
+import { buildClientSchema } from "graphql";
+import { createLogger } from "../observability";
+import { loadCachedSchema } from "./schema-cache";
+import { type SchemaSliceOptions, sliceSchemaForPrompt } from "./schema-slice";
+
+const log = createLogger("GraphQL Introspection");
 
 /**
  * Helper function to parse and merge headers
@@ -14,7 +20,7 @@ function parseAndMergeHeaders(
 		try {
 			parsedAdditionalHeaders = JSON.parse(additionalHeaders);
 		} catch (e) {
-			console.warn("Failed to parse headers as JSON, using empty object");
+			log.warn("Failed to parse headers as JSON, using empty object");
 		}
 	} else {
 		parsedAdditionalHeaders = additionalHeaders;
@@ -35,184 +41,27 @@ function isValidUrl(string: string): boolean {
 	}
 }
 
-/**
- * Introspect a GraphQL schema from an endpoint
- */
-async function introspectEndpoint(
-	endpoint: string,
-	headers: Record<string, string> = {},
-): Promise<string> {
-	const introspectionQuery = `
-    query IntrospectionQuery {
-      __schema {
-        queryType { name }
-        mutationType { name }
-        subscriptionType { name }
-        types {
-          ...FullType
-        }
-        directives {
-          name
-          description
-          locations
-          args {
-            ...InputValue
-          }
-        }
-      }
-    }
-
-    fragment FullType on __Type {
-      kind
-      name
-      description
-      fields(includeDeprecated: true) {
-        name
-        description
-        args {
-          ...InputValue
-        }
-        type {
-          ...TypeRef
-        }
-        isDeprecated
-        deprecationReason
-      }
-      inputFields {
-        ...InputValue
-      }
-      interfaces {
-        ...TypeRef
-      }
-      enumValues(includeDeprecated: true) {
-        name
-        description
-        isDeprecated
-        deprecationReason
-      }
-      possibleTypes {
-        ...TypeRef
-      }
-    }
-
-    fragment InputValue on __InputValue {
-      name
-      description
-      type {
-        ...TypeRef
-      }
-      defaultValue
-    }
-
-    fragment TypeRef on __Type {
-      kind
-      name
-      ofType {
-        kind
-        name
-        ofType {
-          kind
-          name
-          ofType {
-            kind
-            name
-            ofType {
-              kind
-              name
-              ofType {
-                kind
-                name
-                ofType {
-                  kind
-                  name
-                  ofType {
-                    kind
-                    name
-                  }
-                }
-              }
-            }
-          }
-        }
-      }
-    }
-  `;
-
-	const response = await fetch(endpoint, {
-		method: "POST",
-		headers: {
-			"Content-Type": "application/json",
-			...headers,
-		},
-		body: JSON.stringify({
-			query: introspectionQuery,
-		}),
-	});
-
-	if (!response.ok) {
-		throw new Error(`Failed to introspect schema: ${response.statusText}`);
-	}
-
-	const result = await response.json();
-
-	if (result.errors) {
-		throw new Error(
-			`GraphQL introspection failed: ${JSON.stringify(result.errors)}`,
-		);
-	}
-
-	// Convert the introspection result to a human-readable schema
-	// This is a simplified version - in practice you might use a library like graphql-js
-	// to convert the introspection result to a GraphQL SDL string
-	return JSON.stringify(result.data.__schema, null, 2);
-}
-
-/**
- * Get relevant parts of a schema based on a prompt
- */
-// async function getRelevantSchemas(
-//   entireSchema: string,
-//   prompt: string,
-//   modelName: string = 'gpt-4o-mini'
-// ): Promise<string> {
-//   console.log('[GraphQL Introspection] Extracting relevant schema parts...');
-
-//   try {
-//     // Create a simple prompt to extract the relevant parts of the schema
-//     const promptText = `You are an experienced data scientist.
-// You are given the entire GraphQL schema and a desired outcome from the user.
-// Analyze the schema and return sections of the schema that are useful for obtaining the desired result.
-
-// Here is the full GraphQL Schema: ${entireSchema}
-// This is what data the user would like to determine: ${prompt}
-
-// IMPORTANT: return only the desired schema in a clear, usable format.`;
-
-//     // Use OpenAI to extract the relevant parts of the schema
-//     const completion = await openai(modelName).withPresencePenalty(0.2).complete({
-//       prompt: promptText,
-//       max_tokens: 4000,
-//       temperature: 0.1,
-//     });
-
-//     return completion.text;
-//   } catch (error) {
-//     console.error('[GraphQL Introspection] Error extracting relevant schema parts:', error);
-//     return "Error extracting relevant schema parts. Returning full schema instead.\n\n" + entireSchema;
-//   }
-// }
-
 /**
  * Configuration options for the GraphQL introspection tool
  */
 interface GraphQLIntrospectionToolOptions {
 	defaultHeaders?: Record<string, string>;
 	modelName?: string;
+	cacheTtlMs?: number;
+	sliceOptions?: SchemaSliceOptions;
 }
 
 const outputSchema = z.object({
 	success: z.boolean(),
-	fullSchema: z.string().optional(),
+	fullSchema: z.string().optional().describe("The schema printed as SDL"),
+	introspection: z
+		.string()
+		.optional()
+		.describe("The raw introspection result as JSON"),
+	fetchedAt: z
+		.string()
+		.optional()
+		.describe("When the schema was last introspected (ISO 8601)"),
 	schema: z.string().nullable().optional(),
 	message: z.string(),
 });
@@ -228,16 +77,32 @@ export const createGraphQLIntrospectionTool = (
 	endpoint: string,
 	options: GraphQLIntrospectionToolOptions = {},
 ) => {
-	const { defaultHeaders = {}, modelName = "gpt-4o-mini" } = options;
+	const {
+		defaultHeaders = {},
+		modelName = "gpt-4o-mini",
+		cacheTtlMs,
+		sliceOptions,
+	} = options;
 
 	const tool = createTool({
 		id: "GraphQL Introspection",
-		inputSchema: z.object({}),
+		inputSchema: z.object({
+			prompt: z
+				.string()
+				.optional()
+				.describe(
+					"Question the schema is needed for; when set, only the relevant part of the schema is returned",
+				),
+			forceRefresh: z
+				.boolean()
+				.optional()
+				.describe("Re-introspect the endpoint even if a cached schema exists"),
+		}),
 		description: "Introspect a GraphQL schema from an endpoint",
 		outputSchema,
 		execute: async ({ context }) => {
 			try {
-				console.log("[GraphQL Introspection] Introspecting GraphQL schema...");
+				log.info("Introspecting GraphQL schema", { endpoint });
 
 				if (!endpoint || !isValidUrl(endpoint)) {
 					throw new Error("Invalid endpoint URL format");
@@ -245,28 +110,34 @@ export const createGraphQLIntrospectionTool = (
 
 				const useHeaders = parseAndMergeHeaders(defaultHeaders, {});
 
-				// Get the full schema
-				const schema = await introspectEndpoint(endpoint, useHeaders);
+				// Get the full schema, served from the per-endpoint cache when fresh
+				const cached = await loadCachedSchema(endpoint, {
+					headers: useHeaders,
+					ttlMs: cacheTtlMs,
+					forceRefresh: context.forceRefresh,
+				});
 
-				// // Extract relevant parts of the schema based on the user's query
-				// const relevantSchema = await getRelevantSchemas(
-				//   schema,
-				//   String(lastPrompt),
-				//   modelName
-				// );
+				// Extract relevant parts of the schema based on the user's query
+				const relevantSchema = context.prompt
+					? sliceSchemaForPrompt(
+							buildClientSchema(cached.introspection),
+							context.prompt,
+							sliceOptions,
+						).sdl
+					: null;
 
-				console.log(
-					"[GraphQL Introspection] Successfully extracted relevant schema parts.",
-				);
+				log.info("Successfully extracted relevant schema parts");
 
 				return {
 					success: true,
-					//   schema: relevantSchema,
-					fullSchema: schema,
+					schema: relevantSchema,
+					fullSchema: cached.sdl,
+					introspection: JSON.stringify(cached.introspection),
+					fetchedAt: new Date(cached.fetchedAt).toISOString(),
 					message: "GraphQL schema introspection completed successfully",
 				};
 			} catch (error: unknown) {
-				console.error("[GraphQL Introspection] Error:", error);
+				log.error("Introspection failed", { error });
 
 				return {
 					success: false,
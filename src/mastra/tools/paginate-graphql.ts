@@ -0,0 +1,436 @@
+import {
+	type ArgumentNode,
+	type DirectiveNode,
+	type DocumentNode,
+	type FieldNode,
+	Kind,
+	type OperationDefinitionNode,
+	type SelectionNode,
+	type ValueNode,
+	print,
+} from "graphql";
+
+/**
+ * Limits applied while following pages
+ */
+export interface PaginationOptions {
+	maxRows: number;
+	maxPages: number;
+}
+
+/**
+ * Summary of the pages fetched for a paginated query
+ */
+export interface PaginationReport {
+	pages: number;
+	rows: number;
+	capped: boolean;
+	fields: string[];
+}
+
+/**
+ * Minimal GraphQL response shape needed to merge pages
+ */
+export interface GraphQLPageResult {
+	data?: Record<string, unknown> | null;
+	errors?: unknown[];
+}
+
+export type ExecutePage = (
+	query: string,
+	variables: Record<string, unknown>,
+) => Promise<GraphQLPageResult>;
+
+interface PaginatedField {
+	responseKey: string;
+	style: "offset" | "relay";
+	pageSize: number;
+	offset: number;
+	cursor?: string;
+	items: unknown[];
+	lastPage?: Record<string, unknown>;
+	done: boolean;
+	capped: boolean;
+}
+
+function getResponseKey(field: FieldNode): string {
+	return field.alias?.value ?? field.name.value;
+}
+
+function getArgument(field: FieldNode, name: string): ArgumentNode | undefined {
+	return field.arguments?.find((arg) => arg.name.value === name);
+}
+
+function resolveNumber(
+	value: ValueNode | undefined,
+	variables: Record<string, unknown>,
+): number | undefined {
+	if (value?.kind === Kind.INT) {
+		return Number.parseInt(value.value, 10);
+	}
+	if (value?.kind === Kind.VARIABLE) {
+		const resolved = variables[value.name.value];
+		return typeof resolved === "number" ? resolved : undefined;
+	}
+	return undefined;
+}
+
+function hasSelection(field: FieldNode, name: string): boolean {
+	return (
+		field.selectionSet?.selections.some(
+			(selection) =>
+				selection.kind === Kind.FIELD && selection.name.value === name,
+		) ?? false
+	);
+}
+
+function createField(name: string, selections?: FieldNode[]): FieldNode {
+	return {
+		kind: Kind.FIELD,
+		name: { kind: Kind.NAME, value: name },
+		selectionSet: selections
+			? { kind: Kind.SELECTION_SET, selections }
+			: undefined,
+	};
+}
+
+/**
+ * Finds the top-level fields that can be paged: Hasura-style `limit`/`offset`
+ * lists and Relay connections queried with `first` and selecting `edges`.
+ */
+function findPaginatedFields(
+	operation: OperationDefinitionNode,
+	variables: Record<string, unknown>,
+): Map<string, PaginatedField> {
+	const fields = new Map<string, PaginatedField>();
+
+	for (const selection of operation.selectionSet.selections) {
+		if (selection.kind !== Kind.FIELD) {
+			continue;
+		}
+
+		const limit = resolveNumber(
+			getArgument(selection, "limit")?.value,
+			variables,
+		);
+		const first = resolveNumber(
+			getArgument(selection, "first")?.value,
+			variables,
+		);
+		const base = {
+			responseKey: getResponseKey(selection),
+			items: [],
+			done: false,
+			capped: false,
+		};
+
+		if (limit && limit > 0) {
+			fields.set(base.responseKey, {
+				...base,
+				style: "offset",
+				pageSize: limit,
+				offset:
+					resolveNumber(getArgument(selection, "offset")?.value, variables) ??
+					0,
+			});
+		} else if (first && first > 0 && hasSelection(selection, "edges")) {
+			fields.set(base.responseKey, {
+				...base,
+				style: "relay",
+				pageSize: first,
+				offset: 0,
+			});
+		}
+	}
+
+	return fields;
+}
+
+/**
+ * Sets a paging argument, reusing the variable when the query already declares one
+ */
+function setPageArgument(
+	field: FieldNode,
+	name: string,
+	value: number | string,
+	variables: Record<string, unknown>,
+): FieldNode {
+	const existing = getArgument(field, name);
+	if (existing?.value.kind === Kind.VARIABLE) {
+		variables[existing.value.name.value] = value;
+		return field;
+	}
+
+	const argument: ArgumentNode = {
+		kind: Kind.ARGUMENT,
+		name: { kind: Kind.NAME, value: name },
+		value:
+			typeof value === "number"
+				? { kind: Kind.INT, value: String(value) }
+				: { kind: Kind.STRING, value },
+	};
+	return {
+		...field,
+		arguments: [
+			...(field.arguments ?? []).filter((arg) => arg.name.value !== name),
+			argument,
+		],
+	};
+}
+
+/**
+ * Excludes a field from the request while keeping its variables in use
+ */
+function skipField(field: FieldNode): FieldNode {
+	const skip: DirectiveNode = {
+		kind: Kind.DIRECTIVE,
+		name: { kind: Kind.NAME, value: "skip" },
+		arguments: [
+			{
+				kind: Kind.ARGUMENT,
+				name: { kind: Kind.NAME, value: "if" },
+				value: { kind: Kind.BOOLEAN, value: true },
+			},
+		],
+	};
+	return {
+		...field,
+		directives: [
+			...(field.directives ?? []).filter(
+				(directive) => !["skip", "include"].includes(directive.name.value),
+			),
+			skip,
+		],
+	};
+}
+
+function withPageInfo(field: FieldNode): FieldNode {
+	if (!field.selectionSet || hasSelection(field, "pageInfo")) {
+		return field;
+	}
+	return {
+		...field,
+		selectionSet: {
+			...field.selectionSet,
+			selections: [
+				...field.selectionSet.selections,
+				createField("pageInfo", [
+					createField("hasNextPage"),
+					createField("endCursor"),
+				]),
+			],
+		},
+	};
+}
+
+function buildPageRequest(
+	document: DocumentNode,
+	operation: OperationDefinitionNode,
+	fields: Map<string, PaginatedField>,
+	variables: Record<string, unknown>,
+	isFirstPage: boolean,
+): { query: string; variables: Record<string, unknown> } {
+	const pageVariables = { ...variables };
+
+	const selections = operation.selectionSet.selections.map(
+		(selection): SelectionNode => {
+			if (selection.kind !== Kind.FIELD) {
+				return selection;
+			}
+			const state = fields.get(getResponseKey(selection));
+			if (!state) {
+				return isFirstPage ? selection : skipField(selection);
+			}
+			if (state.style === "relay") {
+				const field = withPageInfo(selection);
+				if (isFirstPage) {
+					return field;
+				}
+				return state.done
+					? skipField(field)
+					: setPageArgument(field, "after", state.cursor ?? "", pageVariables);
+			}
+			if (isFirstPage) {
+				return selection;
+			}
+			return state.done
+				? skipField(selection)
+				: setPageArgument(selection, "offset", state.offset, pageVariables);
+		},
+	);
+
+	const pageDocument: DocumentNode = {
+		...document,
+		definitions: document.definitions.map((definition) =>
+			definition === operation
+				? {
+						...operation,
+						selectionSet: { ...operation.selectionSet, selections },
+					}
+				: definition,
+		),
+	};
+
+	return { query: print(pageDocument), variables: pageVariables };
+}
+
+function absorbPage(
+	state: PaginatedField,
+	value: unknown,
+	maxRows: number,
+): void {
+	if (state.style === "offset") {
+		const items = Array.isArray(value) ? value : [];
+		// Indexers may cap limit below the requested size, so a short first page
+		// is taken as the page size and the next page tells whether rows remain
+		if (state.items.length === 0 && items.length > 0) {
+			state.pageSize = Math.min(state.pageSize, items.length);
+		}
+		state.items.push(...items);
+		state.offset += items.length;
+		state.done = items.length < state.pageSize;
+	} else {
+		const connection = (value ?? {}) as Record<string, unknown>;
+		const edges = Array.isArray(connection.edges) ? connection.edges : [];
+		const pageInfo = (connection.pageInfo ?? {}) as {
+			hasNextPage?: boolean;
+			endCursor?: string | null;
+		};
+		state.items.push(...edges);
+		state.lastPage = connection;
+		state.cursor = pageInfo.endCursor ?? undefined;
+		state.done = !pageInfo.hasNextPage || !state.cursor || edges.length === 0;
+	}
+
+	if (!state.done && state.items.length >= maxRows) {
+		state.done = true;
+		state.capped = true;
+	}
+}
+
+function mergePages(
+	data: Record<string, unknown>,
+	fields: Map<string, PaginatedField>,
+	maxRows: number,
+): Record<string, unknown> {
+	const merged = { ...data };
+	for (const state of fields.values()) {
+		if (state.items.length > maxRows) {
+			state.capped = true;
+		}
+		const items = state.items.slice(0, maxRows);
+		merged[state.responseKey] =
+			state.style === "offset" ? items : { ...state.lastPage, edges: items };
+	}
+	return merged;
+}
+
+/**
+ * Returns true when the query has at least one top-level field that can be paged
+ */
+export function isPaginatable(
+	document: DocumentNode,
+	variables: Record<string, unknown> = {},
+): boolean {
+	const operation = document.definitions.find(
+		(definition): definition is OperationDefinitionNode =>
+			definition.kind === Kind.OPERATION_DEFINITION,
+	);
+	return !!operation && findPaginatedFields(operation, variables).size > 0;
+}
+
+/**
+ * Executes a query page by page until every paginated top-level field is
+ * exhausted or a cap is reached, then merges the list results. Nested lists
+ * are returned as fetched on each page.
+ *
+ * @param document Parsed GraphQL operation
+ * @param variables Operation variables
+ * @param executePage Function that sends a single request
+ * @param options Row and page caps
+ */
+export async function fetchAllPages(
+	document: DocumentNode,
+	variables: Record<string, unknown>,
+	executePage: ExecutePage,
+	options: PaginationOptions,
+): Promise<{ result: GraphQLPageResult; report: PaginationReport }> {
+	const operation = document.definitions.find(
+		(definition): definition is OperationDefinitionNode =>
+			definition.kind === Kind.OPERATION_DEFINITION,
+	);
+	if (!operation) {
+		throw new Error("No operation found in the GraphQL document");
+	}
+
+	const fields = findPaginatedFields(operation, variables);
+	let firstPageData: Record<string, unknown> | undefined;
+	let pages = 0;
+
+	while (pages < options.maxPages) {
+		const request = buildPageRequest(
+			document,
+			operation,
+			fields,
+			variables,
+			pages === 0,
+		);
+		const page = await executePage(request.query, request.variables);
+		pages++;
+
+		if (page.errors?.length || !page.data) {
+			return {
+				result: {
+					data: firstPageData
+						? mergePages(firstPageData, fields, options.maxRows)
+						: page.data,
+					errors: page.errors,
+				},
+				report: buildReport(fields, pages, options.maxRows),
+			};
+		}
+
+		firstPageData ??= page.data;
+		for (const state of fields.values()) {
+			if (!state.done) {
+				absorbPage(state, page.data[state.responseKey], options.maxRows);
+			}
+		}
+
+		if (Array.from(fields.values()).every((state) => state.done)) {
+			break;
+		}
+	}
+
+	for (const state of fields.values()) {
+		if (!state.done) {
+			state.capped = true;
+		}
+	}
+
+	return {
+		result: {
+			data: firstPageData
+				? mergePages(firstPageData, fields, options.maxRows)
+				: null,
+		},
+		report: buildReport(fields, pages, options.maxRows),
+	};
+}
+
+function buildReport(
+	fields: Map<string, PaginatedField>,
+	pages: number,
+	maxRows: number,
+): PaginationReport {
+	const states = Array.from(fields.values());
+	return {
+		pages,
+		rows: states.reduce(
+			(total, state) => total + Math.min(state.items.length, maxRows),
+			0,
+		),
+		capped: states.some((state) => state.capped),
+		fields: states.map((state) => state.responseKey),
+	};
+}
@@ -0,0 +1,359 @@
+import {
+	type DocumentNode,
+	type FieldNode,
+	type FragmentDefinitionNode,
+	type GraphQLNamedType,
+	type GraphQLSchema,
+	Kind,
+	type SelectionSetNode,
+	type ValueNode,
+	getNamedType,
+	getNullableType,
+	isInterfaceType,
+	isListType,
+	isObjectType,
+	visit,
+} from "graphql";
+import type { GraphQLValidationError } from "./validate-graphql";
+
+/**
+ * Thresholds a query must stay under before it is sent
+ */
+export interface QueryCostLimits {
+	maxDepth?: number;
+	maxNodes?: number;
+	maxAliases?: number;
+	/** Rows assumed for list fields without a limit argument */
+	defaultListSize?: number;
+	/** When set, unbounded list fields get this limit injected instead of the query being rejected */
+	autoLimit?: number;
+}
+
+/**
+ * Static size estimate of a query
+ */
+export interface QueryCost {
+	depth: number;
+	nodes: number;
+	aliases: number;
+	/** List fields that accept a limit argument but were not given one */
+	unboundedLists: { path: string; node: FieldNode; argument: string }[];
+	deepestPath: string[];
+}
+
+const LIMIT_ARGUMENTS = ["limit", "first", "last"];
+
+// Limit proposed to the fixer for unbounded list fields
+const SUGGESTED_LIMIT = 10;
+
+const DEFAULT_LIMITS = {
+	maxDepth: 7,
+	maxNodes: 5000,
+	maxAliases: 15,
+	defaultListSize: 100,
+};
+
+interface CostContext {
+	schema?: GraphQLSchema;
+	fragments: Map<string, FragmentDefinitionNode>;
+	variables: Record<string, unknown>;
+	defaultListSize: number;
+	cost: QueryCost;
+}
+
+function readInt(
+	value: ValueNode,
+	variables: Record<string, unknown>,
+): number | undefined {
+	if (value.kind === Kind.INT) {
+		return Number(value.value);
+	}
+	if (value.kind === Kind.VARIABLE) {
+		const variable = variables[value.name.value];
+		return typeof variable === "number" ? variable : undefined;
+	}
+	return undefined;
+}
+
+/**
+ * Returns the rows a list field can produce, or 1 for non-list fields
+ */
+function fieldMultiplier(
+	node: FieldNode,
+	parentType: GraphQLNamedType | undefined,
+	path: string[],
+	context: CostContext,
+): { multiplier: number; type?: GraphQLNamedType } {
+	const field =
+		parentType && (isObjectType(parentType) || isInterfaceType(parentType))
+			? parentType.getFields()[node.name.value]
+			: undefined;
+
+	const limitArgument = node.arguments?.find(({ name }) =>
+		LIMIT_ARGUMENTS.includes(name.value),
+	);
+	const limit = limitArgument
+		? readInt(limitArgument.value, context.variables)
+		: undefined;
+
+	// Without a schema, only fields taking a limit argument are known to be lists
+	const isList = field
+		? isListType(getNullableType(field.type))
+		: limitArgument !== undefined;
+	if (!isList) {
+		return { multiplier: 1, type: field && getNamedType(field.type) };
+	}
+
+	if (!limitArgument) {
+		const argument = field?.args.find(({ name }) =>
+			LIMIT_ARGUMENTS.includes(name),
+		);
+		if (argument) {
+			context.cost.unboundedLists.push({
+				path: path.join("."),
+				node,
+				argument: argument.name,
+			});
+		}
+	}
+
+	return {
+		multiplier: limit ?? context.defaultListSize,
+		type: field && getNamedType(field.type),
+	};
+}
+
+function walkSelectionSet(
+	selectionSet: SelectionSetNode,
+	parentType: GraphQLNamedType | undefined,
+	parentCount: number,
+	path: string[],
+	context: CostContext,
+	visitedFragments: Set<string>,
+): number {
+	let nodes = 0;
+	for (const selection of selectionSet.selections) {
+		if (selection.kind === Kind.FIELD) {
+			const key = selection.alias?.value ?? selection.name.value;
+			const fieldPath = [...path, key];
+			if (selection.alias) {
+				context.cost.aliases++;
+			}
+			if (fieldPath.length > context.cost.depth) {
+				context.cost.depth = fieldPath.length;
+				context.cost.deepestPath = fieldPath;
+			}
+
+			const { multiplier, type } = fieldMultiplier(
+				selection,
+				parentType,
+				fieldPath,
+				context,
+			);
+			const count = parentCount * multiplier;
+			nodes += count;
+			if (selection.selectionSet) {
+				nodes += walkSelectionSet(
+					selection.selectionSet,
+					type,
+					count,
+					fieldPath,
+					context,
+					visitedFragments,
+				);
+			}
+			continue;
+		}
+
+		const fragment =
+			selection.kind === Kind.INLINE_FRAGMENT
+				? selection
+				: context.fragments.get(selection.name.value);
+		// Fragment cycles are invalid, but validation may be turned off
+		if (
+			!fragment ||
+			(selection.kind === Kind.FRAGMENT_SPREAD &&
+				visitedFragments.has(selection.name.value))
+		) {
+			continue;
+		}
+		const fragmentType = fragment.typeCondition
+			? context.schema?.getType(fragment.typeCondition.name.value)
+			: parentType;
+		nodes += walkSelectionSet(
+			fragment.selectionSet,
+			fragmentType ?? undefined,
+			parentCount,
+			path,
+			context,
+			selection.kind === Kind.FRAGMENT_SPREAD
+				? new Set([...visitedFragments, selection.name.value])
+				: visitedFragments,
+		);
+	}
+	return nodes;
+}
+
+/**
+ * Estimates a query's depth, node count and alias count without executing it.
+ * List fields count as many rows as their limit argument, or defaultListSize.
+ *
+ * @param document Parsed GraphQL operation
+ * @param variables Variables used to resolve limit arguments
+ * @param schema Schema used to tell list fields apart; without it only fields with a limit argument count as lists
+ * @param defaultListSize Rows assumed for list fields without a limit
+ */
+export function estimateQueryCost(
+	document: DocumentNode,
+	variables: Record<string, unknown> = {},
+	schema?: GraphQLSchema,
+	defaultListSize = DEFAULT_LIMITS.defaultListSize,
+): QueryCost {
+	const context: CostContext = {
+		schema,
+		fragments: new Map(
+			document.definitions.flatMap((definition) =>
+				definition.kind === Kind.FRAGMENT_DEFINITION
+					? [[definition.name.value, definition] as const]
+					: [],
+			),
+		),
+		variables,
+		defaultListSize,
+		cost: {
+			depth: 0,
+			nodes: 0,
+			aliases: 0,
+			unboundedLists: [],
+			deepestPath: [],
+		},
+	};
+
+	for (const definition of document.definitions) {
+		if (definition.kind === Kind.OPERATION_DEFINITION) {
+			context.cost.nodes += walkSelectionSet(
+				definition.selectionSet,
+				schema?.getRootType(definition.operation) ?? undefined,
+				1,
+				[],
+				context,
+				new Set(),
+			);
+		}
+	}
+	return context.cost;
+}
+
+/**
+ * Adds a limit argument to the given list fields
+ */
+function injectLimits(
+	document: DocumentNode,
+	fields: QueryCost["unboundedLists"],
+	limit: number,
+): DocumentNode {
+	const argumentsByNode = new Map(
+		fields.map(({ node, argument }) => [node, argument]),
+	);
+	return visit(document, {
+		Field(node) {
+			const argument = argumentsByNode.get(node);
+			if (!argument) {
+				return undefined;
+			}
+			return {
+				...node,
+				arguments: [
+					...(node.arguments ?? []),
+					{
+						kind: Kind.ARGUMENT,
+						name: { kind: Kind.NAME, value: argument },
+						value: { kind: Kind.INT, value: String(limit) },
+					},
+				],
+			};
+		},
+	});
+}
+
+/**
+ * Checks a query against the cost limits, injecting limits into unbounded list
+ * fields when autoLimit is set and the node estimate is over the threshold
+ *
+ * @returns The document to execute, its cost, the paths that received a limit,
+ *   and errors telling the fixer what to change when the query is rejected
+ */
+export function enforceQueryCost(
+	document: DocumentNode,
+	variables: Record<string, unknown> | undefined,
+	schema: GraphQLSchema | undefined,
+	limits: QueryCostLimits = {},
+): {
+	document: DocumentNode;
+	cost: QueryCost;
+	injectedLimits: string[];
+	errors: GraphQLValidationError[];
+} {
+	const maxDepth = limits.maxDepth ?? DEFAULT_LIMITS.maxDepth;
+	const maxNodes = limits.maxNodes ?? DEFAULT_LIMITS.maxNodes;
+	const maxAliases = limits.maxAliases ?? DEFAULT_LIMITS.maxAliases;
+	const defaultListSize =
+		limits.defaultListSize ?? DEFAULT_LIMITS.defaultListSize;
+
+	let executedDocument = document;
+	let cost = estimateQueryCost(document, variables, schema, defaultListSize);
+	let injectedLimits: string[] = [];
+	if (
+		cost.nodes > maxNodes &&
+		limits.autoLimit &&
+		cost.unboundedLists.length > 0
+	) {
+		injectedLimits = cost.unboundedLists.map(({ path }) => path);
+		executedDocument = injectLimits(
+			document,
+			cost.unboundedLists,
+			limits.autoLimit,
+		);
+		cost = estimateQueryCost(
+			executedDocument,
+			variables,
+			schema,
+			defaultListSize,
+		);
+	}
+
+	const errors: GraphQLValidationError[] = [];
+	if (cost.depth > maxDepth) {
+		errors.push({
+			message: `Query is nested ${cost.depth} levels deep, the maximum is ${maxDepth}. Remove nested selections such as "${cost.deepestPath.join(".")}".`,
+			path: cost.deepestPath,
+			suggestions: [],
+		});
+	}
+	if (cost.aliases > maxAliases) {
+		errors.push({
+			message: `Query uses ${cost.aliases} aliases, the maximum is ${maxAliases}. Request each field once instead of aliasing it repeatedly.`,
+			path: [],
+			suggestions: [],
+		});
+	}
+	if (cost.nodes > maxNodes) {
+		errors.push(
+			...(cost.unboundedLists.length > 0
+				? cost.unboundedLists.map(({ path, argument }) => ({
+						message: `List field "${path}" has no ${argument} argument, so the query could return about ${cost.nodes} nodes (maximum ${maxNodes}). Add a ${argument} argument such as ${argument}: ${SUGGESTED_LIMIT}.`,
+						path: path.split("."),
+						suggestions: [`${argument}: ${SUGGESTED_LIMIT}`],
+					}))
+				: [
+						{
+							message: `Query could return about ${cost.nodes} nodes, the maximum is ${maxNodes}. Lower the limit arguments or select fewer nested lists.`,
+							path: [],
+							suggestions: [],
+						},
+					]),
+		);
+	}
+
+	return { document: executedDocument, cost, injectedLimits, errors };
+}
@@ -0,0 +1,123 @@
+import { PgVector } from "@mastra/pg";
+import {
+	checkIndexModel,
+	createEmbeddingProvider,
+	getEmbeddingProvider,
+} from "../embeddings";
+import { withFixture } from "../fixtures";
+import { createLogger, withSpan } from "../observability";
+import { reportEmbeddingUsage } from "../usage";
+
+const log = createLogger("Query Examples");
+
+/**
+ * A past successful query, stored with the question it answered
+ */
+export interface QueryExample {
+	prompt: string;
+	query: string;
+	variables: string;
+	similarity: number;
+}
+
+/**
+ * Creates a retriever for the past successful queries whose prompts are most
+ * similar to a new prompt. Entries stored without a prompt are ignored.
+ *
+ * @param pgConnectionString PostgreSQL connection string
+ * @param indexName Index the query tool stores successful queries in
+ * @param options Number of examples, similarity threshold and embedding model
+ */
+export const createQueryExampleRetriever = (
+	pgConnectionString: string,
+	indexName: string,
+	options: {
+		topK?: number;
+		threshold?: number;
+		embeddingModel?: string;
+	} = {},
+) => {
+	const topK = options.topK || 3;
+	const threshold = options.threshold || 0.5;
+	const embedder = options.embeddingModel
+		? createEmbeddingProvider(options.embeddingModel)
+		: getEmbeddingProvider();
+
+	const pgVector = new PgVector(pgConnectionString);
+
+	return async (prompt: string): Promise<QueryExample[]> => {
+		try {
+			const { embedding, tokens } = await withSpan(
+				"embedding",
+				{ kind: "client", attributes: { "embedding.model": embedder.id } },
+				async (span) => {
+					const result = await withFixture(
+						"embedding",
+						{ model: embedder.id, value: prompt },
+						async () => {
+							const {
+								embeddings: [embedding],
+								tokens,
+							} = await embedder.embed([prompt]);
+							return { embedding, tokens };
+						},
+					);
+					span.setAttributes({ "embedding.tokens": result.tokens });
+					return result;
+				},
+			);
+			if (tokens) {
+				reportEmbeddingUsage("Query Examples", embedder.id, tokens);
+			}
+
+			// Over-fetch so entries without a stored prompt don't crowd out examples
+			const results = await withSpan(
+				"vector.query",
+				{
+					kind: "client",
+					attributes: { "vector.index": indexName, "vector.top_k": topK * 2 },
+				},
+				async (span) => {
+					const results = await withFixture(
+						"vector-query",
+						{ indexName, topK: topK * 2, minScore: threshold },
+						async () => {
+							await checkIndexModel(pgVector, indexName, embedder);
+							return pgVector.query({
+								indexName,
+								queryVector: embedding,
+								topK: topK * 2,
+								minScore: threshold,
+							});
+						},
+					);
+					span.setAttributes({ "vector.results": results.length });
+					return results;
+				},
+			);
+
+			const examples = results.flatMap(({ metadata, score }) =>
+				typeof metadata?.prompt === "string" &&
+				typeof metadata?.query === "string"
+					? [
+							{
+								prompt: metadata.prompt,
+								query: metadata.query,
+								variables:
+									typeof metadata.variables === "string"
+										? metadata.variables
+										: "{}",
+								similarity: score,
+							},
+						]
+					: [],
+			);
+
+			log.info(`Found ${examples.length} past queries similar to the prompt`);
+			return examples.slice(0, topK);
+		} catch (error) {
+			log.error("Failed to retrieve past queries", { error });
+			return [];
+		}
+	};
+};
@@ -1,7 +1,45 @@
 import { createTool } from "@mastra/core/tools";
-import { type DefinitionNode, parse } from "graphql";
+import {
+	type DefinitionNode,
+	GraphQLError,
+	type GraphQLSchema,
+	parse,
+	print,
+} from "graphql";
 import { z } from "zod";
 import { embedSingleString } from "../../embed/content-processor";
+import { fixtureFetch, withFixture } from "../fixtures";
+import { createLogger, withSpan } from "../observability";
+import { type DeniedField, redactResponse } from "./field-policy";
+import {
+	type GraphQLErrorCategory,
+	GraphQLErrorCategoryType,
+	GraphQLRequestError,
+	type RetryOptions,
+	classifyStatus,
+	fetchWithRetry,
+	parseRetryAfter,
+} from "./http-retry";
+import {
+	type GraphQLPageResult,
+	type PaginationReport,
+	fetchAllPages,
+	isPaginatable,
+} from "./paginate-graphql";
+import { type QueryCostLimits, enforceQueryCost } from "./query-cost";
+import {
+	type ResponseCacheBackend,
+	createResponseCache,
+	responseCacheKey,
+} from "./response-cache";
+import { reduceToTokenBudget } from "./response-budget";
+import { loadClientSchema } from "./schema-cache";
+import {
+	GraphQLValidationErrorType,
+	validateQueryAgainstSchema,
+} from "./validate-graphql";
+
+const log = createLogger("GraphQL Query Tool");
 
 /**
  * Configuration options for the GraphQL query tool
@@ -9,11 +47,18 @@ import { embedSingleString } from "../../embed/content-processor";
 interface GraphQLQueryToolOptions {
 	allowMutations?: boolean;
 	maxTokens?: number;
-	tokenBuffer?: number;
-	truncationSuffix?: string;
 	defaultHeaders?: Record<string, string>;
 	successfulQueriesIndexName?: string;
 	pgConnectionString?: string;
+	validateQueries?: boolean;
+	loadSchema?: () => Promise<GraphQLSchema>;
+	maxRows?: number;
+	maxPages?: number;
+	deniedFields?: DeniedField[];
+	costLimits?: QueryCostLimits;
+	cache?: ResponseCacheBackend;
+	cacheTtlMs?: number;
+	retry?: RetryOptions;
 }
 
 /**
@@ -29,7 +74,7 @@ function parseAndMergeHeaders(
 		try {
 			parsedAdditionalHeaders = JSON.parse(additionalHeaders);
 		} catch (e) {
-			console.warn("Failed to parse headers as JSON, using empty object");
+			log.warn("Failed to parse headers as JSON, using empty object");
 		}
 	} else {
 		parsedAdditionalHeaders = additionalHeaders;
@@ -47,38 +92,152 @@ function processGraphQLResponse(
 		data?: unknown; // Changed from any
 		errors: z.infer<typeof GraphQLErrorsType>;
 		message: string;
+		validationErrors?: z.infer<typeof GraphQLValidationErrorType>[];
+		pagination?: PaginationReport;
+		cost?: QueryCostReport;
+		cached?: boolean;
+		errorCategory?: GraphQLErrorCategory;
 	},
 	options: {
 		maxTokens: number;
-		truncationSuffix: string;
 	},
 ) {
-	let responseData = result.data;
+	const responseData = result.data;
 	if (!responseData) {
 		return {
 			success: result.success,
 			data: responseData,
 			errors: result.errors,
 			message: result.message,
+			validationErrors: result.validationErrors,
+			pagination: result.pagination,
+			cost: result.cost,
+			cached: result.cached,
+			errorCategory: result.errorCategory,
 		};
 	}
 
-	// Simple approach to estimate size - in a real implementation, use a token counter
-	const jsonString = JSON.stringify(responseData);
-	if (jsonString && jsonString.split(" ").length > options.maxTokens) {
-		// Rough char-to-token ratio
-		// Truncate data
-		const truncatedTokens = jsonString.split(" ").slice(0, options.maxTokens);
-		responseData = truncatedTokens.join(" ") + options.truncationSuffix;
+	// Sample lists and shorten strings so the payload stays valid JSON within budget
+	const reduced = reduceToTokenBudget(responseData, options.maxTokens);
+	if (reduced.truncated) {
+		log.info("Reduced response to fit the token budget", {
+			originalTokens: reduced.originalTokens,
+			tokens: reduced.tokens,
+		});
 	}
 
 	return {
 		success: result.success,
-		data: responseData,
+		data: reduced.data,
 		errors: result.errors,
+		pagination: result.pagination,
+		cost: result.cost,
+		cached: result.cached,
+		errorCategory: result.errorCategory,
+		truncation: reduced.truncated
+			? {
+					originalTokens: reduced.originalTokens,
+					tokens: reduced.tokens,
+					omitted: reduced.omitted,
+				}
+			: undefined,
 	};
 }
 
+/**
+ * Sends a single GraphQL request, retrying transient failures, and returns the
+ * parsed response body
+ */
+async function postGraphQLRequest(
+	endpoint: string,
+	headers: Record<string, string>,
+	retry: RetryOptions,
+	query: string,
+	variables?: Record<string, unknown>,
+): Promise<GraphQLPageResult> {
+	return withSpan(
+		"graphql.request",
+		{
+			kind: "client",
+			attributes: { "http.url": endpoint, "graphql.query_chars": query.length },
+		},
+		async (span) => {
+			const response = await fetchWithRetry(
+				(signal) =>
+					fixtureFetch(endpoint, {
+						method: "POST",
+						headers: {
+							"Content-Type": "application/json",
+							...headers,
+						},
+						body: JSON.stringify({ query, variables }),
+						signal,
+					}),
+				retry,
+			);
+
+			span.setAttributes({ "http.status_code": response.status });
+			log.debug("Received response", { status: response.status });
+
+			if (!response.ok) {
+				const errorBody = await response.text();
+				log.error("Request failed", {
+					status: response.status,
+					body: errorBody,
+				});
+
+				const category = classifyStatus(response.status);
+				// Servers answer invalid queries with a 4xx and GraphQL errors in the body
+				if (category === "validation") {
+					try {
+						const body = JSON.parse(errorBody);
+						if (Array.isArray(body?.errors) && body.errors.length > 0) {
+							return body;
+						}
+					} catch {}
+				}
+
+				throw new GraphQLRequestError(
+					`GraphQL request failed with status ${response.status}: ${response.statusText}`,
+					category,
+					response.status,
+					parseRetryAfter(response.headers.get("Retry-After")),
+				);
+			}
+
+			return response.json();
+		},
+	);
+}
+
+/**
+ * Tells errors the server found in the query apart from errors raised while executing it
+ */
+function classifyGraphQLErrors(errors: unknown[]): GraphQLErrorCategory {
+	const isValidationError = errors.some((error) => {
+		const code = (error as { extensions?: { code?: unknown } })?.extensions
+			?.code;
+		return (
+			typeof code === "string" && /validation|parse|bad_user_input/i.test(code)
+		);
+	});
+	return isValidationError ? "validation" : "execution";
+}
+
+/**
+ * Classifies an exception thrown while running a query
+ */
+function classifyException(error: unknown): GraphQLErrorCategory {
+	if (error instanceof GraphQLRequestError) {
+		return error.category;
+	}
+	// Syntax errors in the query or its variables JSON
+	if (error instanceof GraphQLError || error instanceof SyntaxError) {
+		return "validation";
+	}
+	return "execution";
+}
+
 const GraphQLErrorLocationType = z.object({
 	line: z.number(),
 	column: z.number(),
@@ -103,11 +262,67 @@ const GraphQLErrorType = z.object({
 
 const GraphQLErrorsType = z.array(GraphQLErrorType).nullable();
 
+const QueryCostReportType = z.object({
+	depth: z.number(),
+	nodes: z.number().describe("Estimated number of nodes the query can return"),
+	aliases: z.number(),
+	injectedLimits: z
+		.array(z.string())
+		.describe("List fields a limit argument was added to before sending"),
+});
+
+type QueryCostReport = z.infer<typeof QueryCostReportType>;
+
 const outputSchema = z.object({
 	success: z.boolean(),
 	data: z.unknown().optional(),
 	errors: GraphQLErrorsType,
 	message: z.string().optional(),
+	validationErrors: z
+		.array(GraphQLValidationErrorType)
+		.optional()
+		.describe(
+			"Errors found by validating the query against the schema before sending it",
+		),
+	pagination: z
+		.object({
+			pages: z.number(),
+			rows: z.number(),
+			capped: z
+				.boolean()
+				.describe("True when more rows were available than were fetched"),
+			fields: z.array(z.string()),
+		})
+		.optional()
+		.describe("Pages and rows fetched when pagination was requested"),
+	errorCategory: GraphQLErrorCategoryType.optional().describe(
+		"Set on failure. network, rate_limit and server errors are transient and were already retried; endpoint errors mean a wrong URL or configuration; validation and execution errors need a query fix",
+	),
+	cached: z
+		.boolean()
+		.optional()
+		.describe("True when the response was served from the response cache"),
+	cost: QueryCostReportType.optional().describe(
+		"Static estimate of the query's size, checked against the cost limits",
+	),
+	truncation: z
+		.object({
+			originalTokens: z.number(),
+			tokens: z.number(),
+			omitted: z.array(
+				z.object({
+					path: z.string(),
+					kind: z.enum(["array", "string"]),
+					occurrences: z.number(),
+					total: z.number(),
+					kept: z.number(),
+				}),
+			),
+		})
+		.optional()
+		.describe(
+			"Present when the data was sampled to fit the token budget, listing what was left out per path",
+		),
 });
 
 /**
@@ -124,16 +339,34 @@ export const createGraphQLQueryTool = (
 	const {
 		allowMutations = false,
 		maxTokens = 25000,
-		truncationSuffix = "... [content truncated due to size limits]",
 		defaultHeaders = {},
 		successfulQueriesIndexName,
 		pgConnectionString,
+		validateQueries = true,
+		maxRows = 5000,
+		maxPages = 20,
+		deniedFields = [],
+		costLimits,
+		cache,
+		cacheTtlMs,
+		retry = {},
+		loadSchema = () =>
+			loadClientSchema(endpoint, {
+				headers: parseAndMergeHeaders(defaultHeaders, {}),
+			}),
 	} = options;
 
+	// Redacted results of successful operations, keyed by endpoint, query and variables
+	const responseCache = cache
+		? createResponseCache<{
+				result: GraphQLPageResult;
+				pagination?: PaginationReport;
+			}>(cache, { ttlMs: cacheTtlMs })
+		: undefined;
+
 	// Sanitization options
 	const sanitizeOptions = {
 		maxTokens,
-		truncationSuffix,
 	};
 
 	return createTool({
@@ -144,17 +377,40 @@ export const createGraphQLQueryTool = (
 				.string()
 				.optional()
 				.describe("JSON string of variables for the query"),
+			prompt: z
+				.string()
+				.optional()
+				.describe(
+					"The natural-language question the query answers, stored with successful queries so they can be reused as examples",
+				),
 			maxTokens: z
 				.number()
 				.optional()
 				.describe("Maximum token count before truncation"),
+			paginate: z
+				.boolean()
+				.optional()
+				.describe(
+					"Follow limit/offset or first/after pagination on top-level list fields and merge all pages",
+				),
+			bypassCache: z
+				.boolean()
+				.optional()
+				.describe("Fetch fresh data instead of serving a cached response"),
 		}),
 		description: "Execute a GraphQL query against an endpoint",
 		outputSchema,
 		execute: async ({ context }) => {
-			console.log("[GraphQL Query Tool] Execution started.");
+			log.info("Execution started");
 
-			const { query, variables, maxTokens: overrideMaxTokens } = context;
+			const {
+				query,
+				variables,
+				prompt,
+				maxTokens: overrideMaxTokens,
+				paginate,
+				bypassCache,
+			} = context;
 
 			// Allow overriding maxTokens per query
 			const queryOptions = {
@@ -176,9 +432,7 @@ export const createGraphQLQueryTool = (
 
 				// Disallow mutations if not enabled
 				if (isMutation && !allowMutations) {
-					console.warn(
-						"[GraphQL Query Tool] Mutation attempted but not allowed.",
-					);
+					log.warn("Mutation attempted but not allowed");
 
 					return processGraphQLResponse(
 						{
@@ -191,57 +445,187 @@ export const createGraphQLQueryTool = (
 								},
 							],
 							message: "Mutations are not allowed",
+							errorCategory: "validation",
 						},
 						queryOptions,
 					);
 				}
 
-				// Execute the query
-				const useHeaders = parseAndMergeHeaders(defaultHeaders, {});
+				// The schema is needed for local validation and to resolve denied fields
+				let schema: GraphQLSchema | undefined;
+				if (validateQueries || deniedFields.length > 0) {
+					try {
+						schema = await loadSchema();
+					} catch (error) {
+						log.warn("Could not load schema, skipping local validation", {
+							error,
+						});
+					}
+				}
 
-				const response = await fetch(endpoint, {
-					method: "POST",
-					headers: {
-						"Content-Type": "application/json",
-						...useHeaders,
-					},
-					body: JSON.stringify({
-						query,
-						variables: variables ? JSON.parse(variables) : undefined,
-					}),
-				});
+				// Validate against the schema locally to avoid a round-trip for invalid queries
+				if (validateQueries) {
+					const validationErrors = schema
+						? validateQueryAgainstSchema(schema, parsedQuery, deniedFields)
+						: [];
+					if (validationErrors.length > 0) {
+						log.warn("Query failed schema validation", {
+							errors: validationErrors.length,
+						});
+
+						return processGraphQLResponse(
+							{
+								success: false,
+								data: null,
+								errors: validationErrors.map(({ message, path }) => ({
+									message,
+									path,
+								})),
+								message: "GraphQL query failed schema validation",
+								errorCategory: "validation",
+								validationErrors,
+							},
+							queryOptions,
+						);
+					}
+				}
+
+				const parsedVariables = variables ? JSON.parse(variables) : undefined;
 
-				console.log(
-					`[GraphQL Query Tool] Received response with status: ${response.status}`,
+				// Reject oversized queries, or bound their lists, before they reach the endpoint
+				const costCheck = enforceQueryCost(
+					parsedQuery,
+					parsedVariables,
+					schema,
+					costLimits,
 				);
+				const cost = {
+					depth: costCheck.cost.depth,
+					nodes: costCheck.cost.nodes,
+					aliases: costCheck.cost.aliases,
+					injectedLimits: costCheck.injectedLimits,
+				};
+				if (costCheck.errors.length > 0) {
+					log.warn("Query exceeds the cost limits", {
+						depth: cost.depth,
+						nodes: cost.nodes,
+						aliases: cost.aliases,
+					});
+
+					return processGraphQLResponse(
+						{
+							success: false,
+							data: null,
+							errors: costCheck.errors.map(({ message, path }) => ({
+								message,
+								path,
+							})),
+							message: "GraphQL query exceeds the cost limits",
+							errorCategory: "validation",
+							validationErrors: costCheck.errors,
+							cost,
+						},
+						queryOptions,
+					);
+				}
+
+				const executedDocument = costCheck.document;
+				const executedQuery =
+					cost.injectedLimits.length > 0 ? print(executedDocument) : query;
+				if (cost.injectedLimits.length > 0) {
+					log.info("Added limits", { fields: cost.injectedLimits });
+				}
 
-				if (!response.ok) {
-					const errorBody = await response.text();
-					console.error(
-						`[GraphQL Query Tool] Request failed with status ${response.status}. Body: ${errorBody}`,
+				// Execute the query
+				const useHeaders = parseAndMergeHeaders(defaultHeaders, {});
+
+				// Serve identical operations from the cache unless fresh data was requested
+				const cacheKey = responseCacheKey(
+					endpoint,
+					executedQuery,
+					parsedVariables,
+					{ paginate: !!paginate },
+				);
+				const cachedResponse =
+					responseCache && !bypassCache
+						? await responseCache.get(cacheKey)
+						: undefined;
+
+				let result: GraphQLPageResult;
+				let pagination: PaginationReport | undefined;
+				if (cachedResponse) {
+					log.info("Serving response from cache");
+					({ result, pagination } = cachedResponse);
+				} else if (
+					paginate &&
+					isPaginatable(executedDocument, parsedVariables)
+				) {
+					({ result, report: pagination } = await fetchAllPages(
+						executedDocument,
+						parsedVariables ?? {},
+						(pageQuery, pageVariables) =>
+							postGraphQLRequest(
+								endpoint,
+								useHeaders,
+								retry,
+								pageQuery,
+								pageVariables,
+							),
+						{ maxRows, maxPages },
+					));
+					log.info("Fetched pages", {
+						rows: pagination.rows,
+						pages: pagination.pages,
+						capped: pagination.capped,
+					});
+				} else {
+					result = await postGraphQLRequest(
+						endpoint,
+						useHeaders,
+						retry,
+						executedQuery,
+						parsedVariables,
 					);
-					throw new Error(`GraphQL request failed: ${response.statusText}`);
 				}
 
-				const result = await response.json();
+				// Strip denied values before the data can reach an LLM
+				if (deniedFields.length > 0) {
+					const redaction = redactResponse(
+						result.data,
+						executedDocument,
+						deniedFields,
+						schema,
+					);
+					if (redaction.redacted > 0) {
+						log.info("Redacted denied values from the response", {
+							redacted: redaction.redacted,
+						});
+					}
+					result = { ...result, data: redaction.data };
+				}
 
 				// Check for GraphQL-level errors
 				if (result.errors && result.errors.length > 0) {
-					console.warn(
-						"[GraphQL Query Tool] GraphQL response contains errors.",
-					);
+					log.warn("GraphQL response contains errors");
 
 					return processGraphQLResponse(
 						{
 							success: false,
 							data: result.data,
-							errors: result.errors,
+							errors: result.errors as z.infer<typeof GraphQLErrorsType>,
 							message: "GraphQL query executed but returned errors",
+							errorCategory: classifyGraphQLErrors(result.errors),
+							pagination,
+							cost,
 						},
 						queryOptions,
 					);
 				}
 
+				if (responseCache && !cachedResponse) {
+					await responseCache.set(cacheKey, { result, pagination });
+				}
+
 				// Process and sanitize the successful response
 				const sanitizedResponse = processGraphQLResponse(
 					{
@@ -249,48 +633,50 @@ export const createGraphQLQueryTool = (
 						data: result.data,
 						errors: null,
 						message: "GraphQL query executed successfully",
+						pagination,
+						cost,
+						cached: !!cachedResponse,
 					},
 					queryOptions,
 				);
 
-				console.log(
-					"[GraphQL Query Tool] Successfully processed GraphQL response.",
-				);
+				log.debug("Processed GraphQL response");
 
-				// Optional: Store successful queries for future reference
+				// Store successful queries, embedded by prompt, so they can be retrieved as examples
 				if (
 					successfulQueriesIndexName &&
 					pgConnectionString &&
 					typeof embedSingleString === "function"
 				) {
 					try {
-						console.log(
-							"[GraphQL Query Tool] Attempting to embed successful query and result.",
-						);
-						const queryAndResult = `<query>${query}</query>\n<result>${JSON.stringify(
-							result.data,
-						)}</result>`;
-						await embedSingleString(
-							pgConnectionString,
-							successfulQueriesIndexName,
-							queryAndResult,
+						log.debug("Embedding successful query");
+						const text = prompt || executedQuery;
+						await withFixture(
+							"vector-upsert",
+							{ indexName: successfulQueriesIndexName, text },
+							() =>
+								embedSingleString(
+									pgConnectionString,
+									successfulQueriesIndexName,
+									text,
+									{
+										...(prompt ? { prompt } : {}),
+										query: executedQuery,
+										variables: variables || "{}",
+									},
+								),
 						);
-						console.log("[GraphQL Query Tool] Embedding successful.");
+						log.debug("Embedded successful query");
 					} catch (error) {
-						console.error(
-							`[GraphQL Query Tool] Error embedding the query and result: ${String(error)}`,
-						);
+						log.error("Error embedding the query and result", { error });
 					}
 				}
 
-				console.log("[GraphQL Query Tool] Execution finished successfully.");
+				log.info("Execution finished");
 
 				return sanitizedResponse;
 			} catch (error) {
-				console.error(
-					`[GraphQL Query Tool] Execution failed with error: ${error instanceof Error ? error.message : String(error)}`,
-					error,
-				);
+				log.error("Execution failed", { error });
 
 				return {
 					success: false,
@@ -301,6 +687,7 @@ export const createGraphQLQueryTool = (
 						},
 					],
 					message: `Failed to execute GraphQL query: ${error instanceof Error ? error.message : String(error)}`,
+					errorCategory: classifyException(error),
 				};
 			}
 		},
@@ -0,0 +1,162 @@
+import { countTokens } from "gpt-tokenizer";
+
+/**
+ * What was dropped at a given (index-normalized) path, e.g. `rounds[].applications`
+ */
+export interface OmittedSummary {
+	path: string;
+	kind: "array" | "string";
+	occurrences: number;
+	total: number;
+	kept: number;
+}
+
+/**
+ * A response reduced to fit a token budget, still valid JSON
+ */
+export interface ReducedResponse {
+	data: unknown;
+	tokens: number;
+	originalTokens: number;
+	truncated: boolean;
+	omitted: OmittedSummary[];
+}
+
+interface ReductionLevel {
+	head: number;
+	tail: number;
+	maxStringLength: number;
+}
+
+// Progressively more aggressive sampling, tried in order until the payload fits
+const REDUCTION_LEVELS: ReductionLevel[] = [
+	{ head: 20, tail: 5, maxStringLength: 2000 },
+	{ head: 10, tail: 3, maxStringLength: 1000 },
+	{ head: 5, tail: 2, maxStringLength: 500 },
+	{ head: 3, tail: 1, maxStringLength: 200 },
+	{ head: 2, tail: 1, maxStringLength: 100 },
+	{ head: 1, tail: 0, maxStringLength: 50 },
+];
+
+/**
+ * Counts the tokens of a value once serialized as JSON
+ */
+export function countJsonTokens(value: unknown): number {
+	return countTokens(JSON.stringify(value) ?? "");
+}
+
+function record(
+	omitted: Map<string, OmittedSummary>,
+	path: string,
+	kind: OmittedSummary["kind"],
+	total: number,
+	kept: number,
+) {
+	const key = `${kind}:${path}`;
+	const existing = omitted.get(key);
+	if (existing) {
+		existing.occurrences++;
+		existing.total += total;
+		existing.kept += kept;
+	} else {
+		omitted.set(key, { path, kind, occurrences: 1, total, kept });
+	}
+}
+
+function reduceValue(
+	value: unknown,
+	path: string,
+	level: ReductionLevel,
+	omitted: Map<string, OmittedSummary>,
+): unknown {
+	if (typeof value === "string") {
+		if (value.length <= level.maxStringLength) {
+			return value;
+		}
+		record(omitted, path || "$", "string", value.length, level.maxStringLength);
+		return `${value.slice(0, level.maxStringLength)}… [${value.length - level.maxStringLength} chars omitted]`;
+	}
+
+	if (Array.isArray(value)) {
+		const itemPath = `${path}[]`;
+		const sampled =
+			value.length > level.head + level.tail
+				? [
+						...value.slice(0, level.head),
+						...value.slice(value.length - level.tail),
+					]
+				: value;
+		if (sampled !== value) {
+			record(omitted, path || "$", "array", value.length, sampled.length);
+		}
+		return sampled.map((item) => reduceValue(item, itemPath, level, omitted));
+	}
+
+	if (value && typeof value === "object") {
+		return Object.fromEntries(
+			Object.entries(value).map(([key, child]) => [
+				key,
+				reduceValue(child, path ? `${path}.${key}` : key, level, omitted),
+			]),
+		);
+	}
+
+	return value;
+}
+
+/**
+ * Reduces a JSON payload to fit a token budget while keeping it well-formed:
+ * arrays are sampled (first N and last N items), long strings are collapsed,
+ * and every reduction is summarized per path so the reader knows what is missing.
+ *
+ * @param data Parsed JSON payload
+ * @param maxTokens Token budget for the serialized payload
+ */
+export function reduceToTokenBudget(
+	data: unknown,
+	maxTokens: number,
+): ReducedResponse {
+	const originalTokens = countJsonTokens(data);
+	if (originalTokens <= maxTokens) {
+		return {
+			data,
+			tokens: originalTokens,
+			originalTokens,
+			truncated: false,
+			omitted: [],
+		};
+	}
+
+	let reduced: ReducedResponse | undefined;
+	for (const level of REDUCTION_LEVELS) {
+		const omitted = new Map<string, OmittedSummary>();
+		const candidate = reduceValue(data, "", level, omitted);
+		const tokens = countJsonTokens(candidate);
+		reduced = {
+			data: candidate,
+			tokens,
+			originalTokens,
+			truncated: true,
+			omitted: Array.from(omitted.values()),
+		};
+		if (tokens <= maxTokens) {
+			break;
+		}
+	}
+
+	// The most aggressive level is returned even if it still exceeds the budget
+	return reduced as ReducedResponse;
+}
+
+/**
+ * Renders omission summaries as short human-readable lines for prompts
+ */
+export function describeOmissions(omitted: OmittedSummary[]): string {
+	return omitted
+		.map(({ path, kind, occurrences, total, kept }) =>
+			kind === "array"
+				? `- ${path}: kept ${kept} of ${total} items${occurrences > 1 ? ` across ${occurrences} lists` : ""}`
+				: `- ${path}: shortened ${occurrences} string(s) from ${total} to ${kept} characters`,
+		)
+		.join("\n");
+}
@@ -0,0 +1,203 @@
+import { createHash } from "node:crypto";
+import { parse, print } from "graphql";
+import { Redis } from "ioredis";
+import { createLogger } from "../observability";
+
+const log = createLogger("Response Cache");
+
+const DEFAULT_TTL_MS =
+	Number(process.env.GRAPHQL_CACHE_TTL_MS) || 5 * 60 * 1000;
+const DEFAULT_MAX_ENTRIES =
+	Number(process.env.GRAPHQL_CACHE_MAX_ENTRIES) || 500;
+const DEFAULT_MAX_ENTRY_BYTES =
+	Number(process.env.GRAPHQL_CACHE_MAX_ENTRY_BYTES) || 2 * 1024 * 1024;
+
+/**
+ * Storage for serialized responses; implementations expire entries after ttlMs
+ */
+export interface ResponseCacheBackend {
+	get(key: string): Promise<string | undefined>;
+	set(key: string, value: string, ttlMs: number): Promise<void>;
+}
+
+/**
+ * Typed response cache that never fails a query: backend errors count as misses
+ */
+export interface ResponseCache<T> {
+	get(key: string): Promise<T | undefined>;
+	set(key: string, value: T): Promise<void>;
+}
+
+/**
+ * In-process backend that evicts the least recently used entry once full
+ *
+ * @param maxEntries Number of responses kept
+ */
+export function createMemoryCacheBackend(
+	maxEntries = DEFAULT_MAX_ENTRIES,
+): ResponseCacheBackend {
+	const entries = new Map<string, { value: string; expiresAt: number }>();
+
+	return {
+		async get(key) {
+			const entry = entries.get(key);
+			if (!entry) {
+				return undefined;
+			}
+			entries.delete(key);
+			if (entry.expiresAt <= Date.now()) {
+				return undefined;
+			}
+			// Re-insert so the Map's order tracks recency
+			entries.set(key, entry);
+			return entry.value;
+		},
+		async set(key, value, ttlMs) {
+			entries.delete(key);
+			entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+			while (entries.size > maxEntries) {
+				const oldest = entries.keys().next().value;
+				if (oldest === undefined) {
+					break;
+				}
+				entries.delete(oldest);
+			}
+		},
+	};
+}
+
+/**
+ * Backend storing responses in Redis, so they survive restarts and are shared
+ * between processes. The size limit is left to Redis' maxmemory policy.
+ *
+ * @param url Redis connection URL
+ * @param keyPrefix Prefix separating cached responses from other keys
+ */
+export function createRedisCacheBackend(
+	url: string,
+	keyPrefix = "graphql-response:",
+): ResponseCacheBackend {
+	const client = new Redis(url, {
+		keyPrefix,
+		lazyConnect: true,
+		maxRetriesPerRequest: 1,
+	});
+
+	return {
+		async get(key) {
+			return (await client.get(key)) ?? undefined;
+		},
+		async set(key, value, ttlMs) {
+			await client.set(key, value, "PX", ttlMs);
+		},
+	};
+}
+
+/**
+ * Serializes values with sorted object keys so equal variables produce equal keys
+ */
+function canonicalJson(value: unknown): string {
+	if (Array.isArray(value)) {
+		return `[${value.map(canonicalJson).join(",")}]`;
+	}
+	if (typeof value === "object" && value !== null) {
+		return `{${Object.keys(value)
+			.sort()
+			.map(
+				(key) =>
+					`${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`,
+			)
+			.join(",")}}`;
+	}
+	return JSON.stringify(value) ?? "null";
+}
+
+/**
+ * Builds a cache key from the endpoint, the normalized query text, the
+ * canonicalized variables and any options that change the response
+ */
+export function responseCacheKey(
+	endpoint: string,
+	query: string,
+	variables: Record<string, unknown> = {},
+	options: Record<string, unknown> = {},
+): string {
+	let normalizedQuery = query.trim();
+	try {
+		normalizedQuery = print(parse(query));
+	} catch {}
+
+	return createHash("sha256")
+		.update(
+			[
+				endpoint,
+				normalizedQuery,
+				canonicalJson(variables),
+				canonicalJson(options),
+			].join("\n"),
+		)
+		.digest("hex");
+}
+
+/**
+ * Wraps a backend with JSON serialization, a TTL and a per-entry size limit
+ *
+ * @param backend Where entries are stored
+ * @param options TTL and the largest serialized entry worth caching
+ */
+export function createResponseCache<T>(
+	backend: ResponseCacheBackend,
+	options: { ttlMs?: number; maxEntryBytes?: number } = {},
+): ResponseCache<T> {
+	const ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+	const maxEntryBytes = options.maxEntryBytes ?? DEFAULT_MAX_ENTRY_BYTES;
+
+	return {
+		async get(key) {
+			try {
+				const value = await backend.get(key);
+				return value === undefined ? undefined : (JSON.parse(value) as T);
+			} catch (error) {
+				log.warn("Read failed, treating as a miss", { error });
+				return undefined;
+			}
+		},
+		async set(key, value) {
+			const serialized = JSON.stringify(value);
+			if (Buffer.byteLength(serialized) > maxEntryBytes) {
+				log.info("Response exceeds the entry size limit, not caching", {
+					bytes: Buffer.byteLength(serialized),
+				});
+				return;
+			}
+			try {
+				await backend.set(key, serialized, ttlMs);
+			} catch (error) {
+				log.warn("Write failed", { error });
+			}
+		},
+	};
+}
+
+let defaultBackend: ResponseCacheBackend | null | undefined;
+
+/**
+ * Returns the backend selected by GRAPHQL_CACHE ("memory", "redis" or "off"),
+ * shared by every endpoint since keys include the endpoint URL
+ */
+export function getDefaultCacheBackend(): ResponseCacheBackend | undefined {
+	if (defaultBackend === undefined) {
+		const mode = process.env.GRAPHQL_CACHE || "memory";
+		if (mode === "redis") {
+			defaultBackend = createRedisCacheBackend(
+				process.env.REDIS_URL ||
+					`redis://:${process.env.REDIS_PASSWORD || "smart_contract_boi_agent_default_pass"}@localhost:6379`,
+			);
+		} else if (mode === "memory") {
+			defaultBackend = createMemoryCacheBackend();
+		} else {
+			defaultBackend = null;
+		}
+	}
+	return defaultBackend ?? undefined;
+}
@@ -0,0 +1,198 @@
+import { createHash } from "node:crypto";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import {
+	type GraphQLSchema,
+	type IntrospectionQuery,
+	buildClientSchema,
+	getIntrospectionQuery,
+	printSchema,
+} from "graphql";
+import { fixtureFetch } from "../fixtures";
+import { createLogger, withSpan } from "../observability";
+
+const DEFAULT_CACHE_DIR =
+	process.env.GRAPHQL_SCHEMA_CACHE_DIR ||
+	path.join(process.cwd(), ".cache", "graphql-schemas");
+const DEFAULT_TTL_MS = Number(
+	process.env.GRAPHQL_SCHEMA_CACHE_TTL_MS || 24 * 60 * 60 * 1000,
+);
+
+const log = createLogger("GraphQL Schema Cache");
+
+/**
+ * Schema snapshot stored per endpoint
+ */
+export interface CachedSchema {
+	endpoint: string;
+	fetchedAt: number;
+	sdl: string;
+	introspection: IntrospectionQuery;
+}
+
+/**
+ * Options for reading a schema through the cache
+ */
+export interface SchemaCacheOptions {
+	headers?: Record<string, string>;
+	ttlMs?: number;
+	forceRefresh?: boolean;
+	cacheDir?: string;
+}
+
+const memoryCache = new Map<string, CachedSchema>();
+const inFlight = new Map<string, Promise<CachedSchema>>();
+const builtSchemas = new WeakMap<CachedSchema, GraphQLSchema>();
+
+/**
+ * Fetch the raw introspection result from a GraphQL endpoint
+ */
+export async function fetchIntrospection(
+	endpoint: string,
+	headers: Record<string, string> = {},
+): Promise<IntrospectionQuery> {
+	return withSpan(
+		"graphql.introspection",
+		{ kind: "client", attributes: { "http.url": endpoint } },
+		async (span) => {
+			const response = await fixtureFetch(endpoint, {
+				method: "POST",
+				headers: {
+					"Content-Type": "application/json",
+					...headers,
+				},
+				body: JSON.stringify({
+					query: getIntrospectionQuery({ descriptions: true }),
+				}),
+			});
+			span.setAttributes({ "http.status_code": response.status });
+
+			if (!response.ok) {
+				throw new Error(`Failed to introspect schema: ${response.statusText}`);
+			}
+
+			const result = await response.json();
+
+			if (result.errors) {
+				throw new Error(
+					`GraphQL introspection failed: ${JSON.stringify(result.errors)}`,
+				);
+			}
+
+			return result.data;
+		},
+	);
+}
+
+function getCacheFile(cacheDir: string, endpoint: string): string {
+	const key = createHash("sha256").update(endpoint).digest("hex").slice(0, 16);
+	return path.join(cacheDir, `${key}.json`);
+}
+
+function isFresh(entry: CachedSchema, ttlMs: number): boolean {
+	return Date.now() - entry.fetchedAt < ttlMs;
+}
+
+async function readCacheFile(file: string): Promise<CachedSchema | null> {
+	try {
+		return JSON.parse(await fs.readFile(file, "utf-8")) as CachedSchema;
+	} catch {
+		return null;
+	}
+}
+
+async function refreshSchema(
+	endpoint: string,
+	headers: Record<string, string>,
+	file: string,
+): Promise<CachedSchema> {
+	log.info("Introspecting schema", { endpoint });
+	const introspection = await fetchIntrospection(endpoint, headers);
+	const entry: CachedSchema = {
+		endpoint,
+		fetchedAt: Date.now(),
+		sdl: printSchema(buildClientSchema(introspection)),
+		introspection,
+	};
+
+	try {
+		await fs.mkdir(path.dirname(file), { recursive: true });
+		await fs.writeFile(file, JSON.stringify(entry));
+	} catch (error) {
+		log.warn("Failed to persist schema", { endpoint, error });
+	}
+
+	return entry;
+}
+
+/**
+ * Returns the SDL and raw introspection for an endpoint, introspecting only when
+ * the cached copy is missing, older than the TTL, or a refresh is forced.
+ *
+ * @param endpoint GraphQL endpoint URL, used as the cache key
+ * @param options Cache configuration options
+ */
+export async function loadCachedSchema(
+	endpoint: string,
+	options: SchemaCacheOptions = {},
+): Promise<CachedSchema> {
+	const {
+		headers = {},
+		ttlMs = DEFAULT_TTL_MS,
+		forceRefresh = false,
+		cacheDir = DEFAULT_CACHE_DIR,
+	} = options;
+	const file = getCacheFile(cacheDir, endpoint);
+
+	if (!forceRefresh) {
+		const cached = memoryCache.get(file) ?? (await readCacheFile(file));
+		if (cached && isFresh(cached, ttlMs)) {
+			memoryCache.set(file, cached);
+			return cached;
+		}
+	}
+
+	const pending = inFlight.get(file);
+	if (pending) {
+		return pending;
+	}
+
+	const request = refreshSchema(endpoint, headers, file)
+		.then((entry) => {
+			memoryCache.set(file, entry);
+			return entry;
+		})
+		.finally(() => inFlight.delete(file));
+	inFlight.set(file, request);
+	return request;
+}
+
+/**
+ * Returns the cached schema of an endpoint whatever its age, without ever
+ * introspecting, or null when none was cached
+ *
+ * @param endpoint GraphQL endpoint URL, used as the cache key
+ */
+export async function readCachedSchema(
+	endpoint: string,
+	{ cacheDir = DEFAULT_CACHE_DIR }: Pick<SchemaCacheOptions, "cacheDir"> = {},
+): Promise<CachedSchema | null> {
+	const file = getCacheFile(cacheDir, endpoint);
+	return memoryCache.get(file) ?? (await readCacheFile(file));
+}
+
+/**
+ * Builds (and memoizes) a GraphQLSchema from the cached introspection result
+ */
+export async function loadClientSchema(
+	endpoint: string,
+	options: SchemaCacheOptions = {},
+): Promise<GraphQLSchema> {
+	const entry = await loadCachedSchema(endpoint, options);
+	let schema = builtSchemas.get(entry);
+	if (!schema) {
+		schema = buildClientSchema(entry.introspection);
+		builtSchemas.set(entry, schema);
+	}
+	return schema;
+}
@@ -0,0 +1,232 @@
+import { countTokens } from "gpt-tokenizer";
+import {
+	type GraphQLField,
+	type GraphQLNamedType,
+	GraphQLObjectType,
+	type GraphQLSchema,
+	getNamedType,
+	isInputObjectType,
+	isInterfaceType,
+	isIntrospectionType,
+	isObjectType,
+	isSpecifiedScalarType,
+	isUnionType,
+	printType,
+} from "graphql";
+
+const DEFAULT_MAX_DEPTH = Number(process.env.GRAPHQL_SCHEMA_SLICE_DEPTH || 2);
+const DEFAULT_TOKEN_BUDGET = Number(
+	process.env.GRAPHQL_SCHEMA_SLICE_TOKENS || 8000,
+);
+const DEFAULT_MAX_ROOT_FIELDS = 5;
+
+const STOP_WORDS = new Set([
+	"the",
+	"and",
+	"for",
+	"with",
+	"what",
+	"which",
+	"who",
+	"how",
+	"did",
+	"does",
+	"are",
+	"was",
+	"were",
+	"that",
+	"this",
+	"from",
+	"have",
+	"has",
+	"all",
+	"any",
+	"get",
+	"show",
+	"list",
+	"give",
+	"find",
+]);
+
+const COUNT_WORDS = new Set(["many", "count", "total", "number", "sum", "avg"]);
+
+/**
+ * Configuration options for schema slicing
+ */
+export interface SchemaSliceOptions {
+	maxDepth?: number;
+	tokenBudget?: number;
+	maxRootFields?: number;
+}
+
+/**
+ * A prompt-relevant subset of a schema
+ */
+export interface SchemaSlice {
+	sdl: string;
+	rootFields: string[];
+	types: string[];
+	truncated: boolean;
+}
+
+/**
+ * Splits identifiers and prose into lowercase, roughly singular word tokens
+ */
+function tokenize(text: string): string[] {
+	return text
+		.replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+		.toLowerCase()
+		.split(/[^a-z0-9]+/)
+		.filter((token) => token.length > 2 && !STOP_WORDS.has(token))
+		.map((token) => token.replace(/(ies)$/, "y").replace(/s$/, ""));
+}
+
+function scoreRootField(
+	field: GraphQLField<unknown, unknown>,
+	promptTokens: Set<string>,
+	wantsCount: boolean,
+): number {
+	const isAggregate = /aggregate/i.test(field.name);
+	if (isAggregate && !wantsCount) {
+		return 0;
+	}
+
+	const count = (tokens: string[]) =>
+		new Set(tokens.filter((token) => promptTokens.has(token))).size;
+
+	const score =
+		2 * count(tokenize(field.name)) +
+		count(tokenize(getNamedType(field.type).name)) +
+		0.5 * count(tokenize(field.description ?? ""));
+
+	// Prefer the list field over the by-primary-key variant when both match
+	return /ByPk$/.test(field.name) ? score * 0.75 : score;
+}
+
+function selectRootFields(
+	queryType: GraphQLObjectType,
+	prompt: string,
+	maxRootFields: number,
+): GraphQLField<unknown, unknown>[] {
+	const promptTokens = new Set(tokenize(prompt));
+	const wantsCount = prompt
+		.toLowerCase()
+		.split(/\W+/)
+		.some((word) => COUNT_WORDS.has(word));
+	const fields = Object.values(queryType.getFields());
+
+	const ranked = fields
+		.map((field) => ({
+			field,
+			score: scoreRootField(field, promptTokens, wantsCount),
+		}))
+		.filter(({ score }) => score > 0)
+		.sort((a, b) => b.score - a.score)
+		.slice(0, maxRootFields)
+		.map(({ field }) => field);
+
+	return ranked.length > 0 ? ranked : fields.slice(0, maxRootFields);
+}
+
+/**
+ * Named types directly referenced by a type: field types, argument types and input fields
+ */
+function getReferencedTypes(type: GraphQLNamedType): GraphQLNamedType[] {
+	if (isObjectType(type) || isInterfaceType(type)) {
+		return Object.values(type.getFields()).flatMap((field) => [
+			getNamedType(field.type),
+			...field.args.map((arg) => getNamedType(arg.type)),
+		]);
+	}
+	if (isInputObjectType(type)) {
+		return Object.values(type.getFields()).map((field) =>
+			getNamedType(field.type),
+		);
+	}
+	if (isUnionType(type)) {
+		return [...type.getTypes()];
+	}
+	return [];
+}
+
+/**
+ * Extracts the part of a schema relevant to a prompt: the best matching root
+ * query fields plus every object, input, enum and scalar type reachable from
+ * them (including filter and ordering argument types) up to a depth and token budget.
+ *
+ * @param schema The full client schema
+ * @param prompt Natural-language question the slice should help answer
+ * @param options Slicing configuration options
+ */
+export function sliceSchemaForPrompt(
+	schema: GraphQLSchema,
+	prompt: string,
+	options: SchemaSliceOptions = {},
+): SchemaSlice {
+	const {
+		maxDepth = DEFAULT_MAX_DEPTH,
+		tokenBudget = DEFAULT_TOKEN_BUDGET,
+		maxRootFields = DEFAULT_MAX_ROOT_FIELDS,
+	} = options;
+
+	const queryType = schema.getQueryType();
+	if (!queryType) {
+		throw new Error("Schema has no query root type");
+	}
+
+	const rootFields = selectRootFields(queryType, prompt, maxRootFields);
+	const rootConfig = queryType.toConfig();
+	const slicedQueryType = new GraphQLObjectType({
+		...rootConfig,
+		fields: Object.fromEntries(
+			rootFields.map((field) => [field.name, rootConfig.fields[field.name]]),
+		),
+	});
+
+	const parts = [printType(slicedQueryType)];
+	const included = [queryType.name];
+	let usedTokens = countTokens(parts[0]);
+	let truncated = false;
+
+	// Breadth-first so that types closest to the selected root fields win the budget
+	const visited = new Set<string>([queryType.name]);
+	const queue: { type: GraphQLNamedType; depth: number }[] = getReferencedTypes(
+		slicedQueryType,
+	).map((type) => ({ type, depth: 0 }));
+
+	while (queue.length > 0) {
+		const next = queue.shift();
+		if (!next || visited.has(next.type.name)) {
+			continue;
+		}
+		visited.add(next.type.name);
+		if (isSpecifiedScalarType(next.type) || isIntrospectionType(next.type)) {
+			continue;
+		}
+
+		const printed = printType(next.type);
+		const tokens = countTokens(printed);
+		if (usedTokens + tokens > tokenBudget) {
+			truncated = true;
+			continue;
+		}
+		parts.push(printed);
+		included.push(next.type.name);
+		usedTokens += tokens;
+
+		if (next.depth < maxDepth) {
+			for (const type of getReferencedTypes(next.type)) {
+				if (!visited.has(type.name)) {
+					queue.push({ type, depth: next.depth + 1 });
+				}
+			}
+		}
+	}
+
+	return {
+		sdl: parts.join("\n\n"),
+		rootFields: rootFields.map((field) => field.name),
+		types: included,
+		truncated,
+	};
+}
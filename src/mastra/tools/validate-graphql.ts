@@ -0,0 +1,115 @@
+import {
+	type ASTNode,
+	type DocumentNode,
+	type GraphQLError,
+	type GraphQLSchema,
+	Kind,
+	specifiedRules,
+	validate,
+	visit,
+} from "graphql";
+import { z } from "zod";
+import { type DeniedField, createDeniedFieldsRule } from "./field-policy";
+
+export const GraphQLValidationErrorType = z.object({
+	message: z.string(),
+	path: z
+		.array(z.string())
+		.describe(
+			"Selection path (aliases or field names) leading to the invalid node",
+		),
+	suggestions: z
+		.array(z.string())
+		.describe("Alternatives proposed by graphql-js, e.g. 'did you mean' hints"),
+	locations: z
+		.array(z.object({ line: z.number(), column: z.number() }))
+		.optional(),
+	deniedField: z
+		.string()
+		.optional()
+		.describe(
+			"Schema coordinate of a denied field that must be removed from the query",
+		),
+});
+
+export type GraphQLValidationError = z.infer<typeof GraphQLValidationErrorType>;
+
+/**
+ * Maps every AST node in the document to the selection path that leads to it
+ */
+function collectNodePaths(document: DocumentNode): Map<ASTNode, string[]> {
+	const paths = new Map<ASTNode, string[]>();
+	const stack: string[] = [];
+
+	visit(document, {
+		enter(node) {
+			if (node.kind === Kind.FIELD) {
+				stack.push(node.alias?.value ?? node.name.value);
+			} else if (node.kind === Kind.FRAGMENT_DEFINITION) {
+				stack.push(`...${node.name.value}`);
+			}
+			paths.set(node, [...stack]);
+		},
+		leave(node) {
+			if (node.kind === Kind.FIELD || node.kind === Kind.FRAGMENT_DEFINITION) {
+				stack.pop();
+			}
+		},
+	});
+
+	return paths;
+}
+
+/**
+ * Extracts the quoted alternatives from a graphql-js "Did you mean ...?" hint
+ */
+function extractSuggestions(message: string): string[] {
+	const hint = message.match(/Did you mean (.+)\?$/);
+	if (!hint) {
+		return [];
+	}
+	return Array.from(hint[1].matchAll(/"([^"]+)"/g), (match) => match[1]);
+}
+
+function toValidationError(
+	error: GraphQLError,
+	paths: Map<ASTNode, string[]>,
+): GraphQLValidationError {
+	const node = error.nodes?.[0];
+	const deniedField = error.extensions?.deniedField;
+	return {
+		message: error.message,
+		path: (node && paths.get(node)) || [],
+		suggestions: extractSuggestions(error.message),
+		locations: error.locations?.map(({ line, column }) => ({ line, column })),
+		...(typeof deniedField === "string" ? { deniedField } : {}),
+	};
+}
+
+/**
+ * Validates a parsed query against a schema locally, without contacting the endpoint
+ *
+ * @param schema Schema built from the endpoint's introspection result
+ * @param document Parsed GraphQL operation
+ * @param deniedFields Fields the query must not select
+ * @returns Structured validation errors, empty when the query is valid
+ */
+export function validateQueryAgainstSchema(
+	schema: GraphQLSchema,
+	document: DocumentNode,
+	deniedFields: DeniedField[] = [],
+): GraphQLValidationError[] {
+	const errors = validate(
+		schema,
+		document,
+		deniedFields.length > 0
+			? [...specifiedRules, createDeniedFieldsRule(deniedFields)]
+			: specifiedRules,
+	);
+	if (errors.length === 0) {
+		return [];
+	}
+
+	const paths = collectNodePaths(document);
+	return errors.map((error) => toValidationError(error, paths));
+}
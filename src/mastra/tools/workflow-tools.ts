@@ -1,10 +1,17 @@
 import { createTool } from "@mastra/core/tools";
 import { z } from "zod";
+import { createLogger } from "../observability";
+import { queryAttempt } from "../steps/attempts";
+import { GraphQLErrorCategoryType } from "./http-retry";
+import { endpointIdInput, maxCostUsdInput } from "../steps/types";
+import { usageLedger } from "../usage/ledger";
 import {
 	fixQueryAnalysis,
 	newQueryAnalysis,
 } from "../workflows/graphql-execution";
 
+const log = createLogger("Workflow Tools");
+
 type StepResult<T = unknown> = {
 	status: string;
 	output?: T;
@@ -15,7 +22,7 @@ function getStepOutput<T>(result: {
 	results: Record<string, { status?: string; output?: unknown }>;
 	activePaths?: Map<string, { status: string; suspendPayload?: unknown }>;
 }): T {
-	console.log("getStepOutput", result);
+	log.debug("Workflow result", { results: result.results });
 	// Get the last executed step from activePaths
 	if (result.activePaths && result.activePaths.size > 0) {
 		// Get the first (and only) key from the activePaths Map
@@ -23,7 +30,7 @@ function getStepOutput<T>(result: {
 
 		// Get the result for this step
 		const stepResult = result.results[lastStepId];
-		console.log("stepResult", stepResult);
+		log.debug("Last step result", { stepId: lastStepId, stepResult });
 		if (stepResult?.status === "success" && stepResult.output) {
 			return stepResult.output as T;
 		}
@@ -39,13 +46,31 @@ export const newQueryAnalysisTool = createTool({
 		"Analyzes a new GraphQL query using the schema and source code context",
 	inputSchema: z.object({
 		prompt: z.string().describe("The prompt to generate a GraphQL query from"),
+		endpointId: endpointIdInput,
+		maxAttempts: z
+			.number()
+			.optional()
+			.describe("Maximum number of fix attempts after the first query fails"),
+		maxCostUsd: maxCostUsdInput,
 	}),
 	outputSchema: z.object({
 		query: z.string().optional(),
 		variables: z.string().optional(),
 		explanation: z.string().optional(),
+		analysis: z.string().optional(),
 		success: z.boolean().optional(),
 		errors: z.string().optional(),
+		errorCategory: GraphQLErrorCategoryType.optional().describe(
+			"network, rate_limit and server errors are transient, and endpoint errors come from the endpoint's configuration; neither can be fixed by changing the query",
+		),
+		attempts: z
+			.array(queryAttempt)
+			.optional()
+			.describe("Every query tried, oldest first, with its error"),
+		budgetExceeded: z.boolean().optional(),
+		usage: usageLedger
+			.optional()
+			.describe("Token usage and estimated cost of the workflow run"),
 	}),
 	execute: async ({ context }) => {
 		// Create a workflow run
@@ -55,6 +80,9 @@ export const newQueryAnalysisTool = createTool({
 		const result = await run.start({
 			triggerData: {
 				prompt: context.prompt,
+				endpointId: context.endpointId,
+				maxAttempts: context.maxAttempts,
+				maxCostUsd: context.maxCostUsd,
 			},
 		});
 
@@ -63,19 +91,29 @@ export const newQueryAnalysisTool = createTool({
 			query?: string;
 			variables?: string;
 			explanation?: string;
+			analysis?: string;
 			success?: boolean;
 			errors?: string;
+			errorCategory?: z.infer<typeof GraphQLErrorCategoryType>;
+			attempts?: z.infer<typeof queryAttempt>[];
+			budgetExceeded?: boolean;
+			usage?: z.infer<typeof usageLedger>;
 		}>(result);
 
-		console.log("fixQueryOutput", generateQueryOutput, result);
+		log.debug("New query analysis output", { output: generateQueryOutput });
 
 		// Return only the generateQuery results
 		return {
 			query: generateQueryOutput?.query,
 			variables: generateQueryOutput?.variables,
 			explanation: generateQueryOutput?.explanation,
+			analysis: generateQueryOutput?.analysis,
 			success: generateQueryOutput?.success,
 			errors: generateQueryOutput?.errors,
+			errorCategory: generateQueryOutput?.errorCategory,
+			attempts: generateQueryOutput?.attempts,
+			budgetExceeded: generateQueryOutput?.budgetExceeded,
+			usage: generateQueryOutput?.usage,
 		};
 	},
 });
@@ -86,6 +124,7 @@ export const fixQueryAnalysisTool = createTool({
 	description: "Fix, execute, and analyze a prblematic GraphQL query",
 	inputSchema: z.object({
 		prompt: z.string().describe("The original prompt that generated the query"),
+		endpointId: endpointIdInput,
 		query: z.string().describe("The GraphQL query to fix"),
 		variables: z.string().describe("The variables for the query"),
 		explanation: z.string().describe("The explanation of the original query"),
@@ -106,6 +145,7 @@ export const fixQueryAnalysisTool = createTool({
 		const result = await run.start({
 			triggerData: {
 				prompt: context.prompt,
+				endpointId: context.endpointId,
 				failedQuery: {
 					query: context.query,
 					variables: context.variables,
@@ -123,7 +163,7 @@ export const fixQueryAnalysisTool = createTool({
 			success?: boolean;
 			errors?: string;
 		}>(result);
-		console.log("fixQueryOutput", fixQueryOutput, result);
+		log.debug("Fix query analysis output", { output: fixQueryOutput });
 
 		// Return only the fixQuery results
 		return {
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { estimateCost } from "../../config/prices";
+import { reportUsage, trackUsage } from "../index";
+import {
+	createLedger,
+	getUsageTotals,
+	mergeLedgers,
+	priceUsage,
+} from "../ledger";
+
+const prices = {
+	"openai:o3-mini-2025-01-31": { prompt: 1.1, completion: 4.4 },
+	"openai:text-embedding-3-small": { prompt: 0.02, completion: 0 },
+};
+
+function record(source: string, model?: string) {
+	return {
+		source,
+		model,
+		promptTokens: 1_000,
+		completionTokens: 500,
+		totalTokens: 1_500,
+	};
+}
+
+describe("estimateCost", () => {
+	it("prices prompt and completion tokens per million", () => {
+		expect(
+			estimateCost("openai:o3-mini-2025-01-31", record("a"), prices),
+		).toBeCloseTo(0.0033);
+	});
+
+	it("matches models reported without a provider", () => {
+		expect(estimateCost("o3-mini-2025-01-31", record("a"), prices)).toBeCloseTo(
+			0.0033,
+		);
+	});
+
+	it("leaves unknown models unpriced", () => {
+		expect(estimateCost("openai:gpt-5", record("a"), prices)).toBeUndefined();
+		expect(estimateCost(undefined, record("a"), prices)).toBeUndefined();
+	});
+});
+
+describe("createLedger", () => {
+	it("adds up tokens and cost, counting unpriced calls", () => {
+		const ledger = createLedger([
+			priceUsage(record("generator", "openai:o3-mini-2025-01-31"), prices),
+			priceUsage(record("fixer", "deepseek:deepseek-chat"), prices),
+		]);
+
+		expect(ledger).toMatchObject({
+			promptTokens: 2_000,
+			completionTokens: 1_000,
+			totalTokens: 3_000,
+			unpricedCalls: 1,
+		});
+		expect(ledger.costUsd).toBeCloseTo(0.0033);
+		expect(mergeLedgers(ledger, undefined, ledger).calls).toHaveLength(4);
+	});
+});
+
+describe("trackUsage", () => {
+	it("collects each call's usage without mixing concurrent calls", async () => {
+		const report = async (source: string) => {
+			await new Promise((resolve) => setTimeout(resolve, 1));
+			reportUsage(record(source, "openai:o3-mini-2025-01-31"));
+			return source;
+		};
+
+		const [first, second] = await Promise.all([
+			trackUsage(() => report("first")),
+			trackUsage(async () => {
+				const inner = await trackUsage(() => report("inner"));
+				await report("second");
+				return inner.records.map((call) => call.source);
+			}),
+		]);
+
+		expect(first.records.map((call) => call.source)).toEqual(["first"]);
+		expect(second.result).toEqual(["inner"]);
+		expect(second.records.map((call) => call.source)).toEqual([
+			"inner",
+			"second",
+		]);
+		expect(getUsageTotals()["openai:o3-mini-2025-01-31"].calls).toBe(3);
+	});
+});
@@ -0,0 +1,85 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+
+/**
+ * Tokens used by one model call
+ */
+export interface TokenUsage {
+	promptTokens: number;
+	completionTokens: number;
+	totalTokens: number;
+}
+
+export interface UsageRecord extends TokenUsage {
+	/** Agent or tool that made the call */
+	source: string;
+	/** Model that answered, as "provider:model" when it came from the model registry */
+	model?: string;
+}
+
+type UsageListener = (record: UsageRecord) => void;
+
+const listeners = new Set<UsageListener>();
+
+// Records collected by every trackUsage call the current async context runs in
+const collectors = new AsyncLocalStorage<UsageRecord[][]>();
+
+/**
+ * Subscribes to the token usage of every model call
+ *
+ * @returns A function that unsubscribes the listener
+ */
+export function onUsage(listener: UsageListener): () => void {
+	listeners.add(listener);
+	return () => {
+		listeners.delete(listener);
+	};
+}
+
+/**
+ * Reports the token usage of a model call to every listener, and to every
+ * trackUsage call it was made under
+ */
+export function reportUsage(record: UsageRecord): void {
+	for (const records of collectors.getStore() ?? []) {
+		records.push(record);
+	}
+	for (const listener of listeners) {
+		listener(record);
+	}
+}
+
+/**
+ * Reports the tokens an embedding call used. Embeddings only consume prompt tokens.
+ *
+ * @param source Tool that made the call
+ * @param model Embedding model, as "provider:model"
+ * @param tokens Tokens the provider reported
+ */
+export function reportEmbeddingUsage(
+	source: string,
+	model: string,
+	tokens: number,
+): void {
+	reportUsage({
+		source,
+		model,
+		promptTokens: tokens,
+		completionTokens: 0,
+		totalTokens: tokens,
+	});
+}
+
+/**
+ * Runs a call and collects the usage of every model call made while it runs,
+ * without mixing in calls from concurrent work
+ */
+export async function trackUsage<T>(
+	call: () => Promise<T>,
+): Promise<{ result: T; records: UsageRecord[] }> {
+	const records: UsageRecord[] = [];
+	const result = await collectors.run(
+		[...(collectors.getStore() ?? []), records],
+		call,
+	);
+	return { result, records };
+}
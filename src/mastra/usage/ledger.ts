@@ -0,0 +1,122 @@
+import { z } from "zod";
+import { type PriceTable, estimateCost, priceTable } from "../config/prices";
+import { type UsageRecord, onUsage } from "./index";
+
+export const usageCall = z.object({
+	source: z.string(),
+	model: z.string().optional(),
+	promptTokens: z.number(),
+	completionTokens: z.number(),
+	totalTokens: z.number(),
+	costUsd: z
+		.number()
+		.optional()
+		.describe("Estimated cost, unset when the model has no price"),
+});
+
+export const usageLedger = z.object({
+	calls: z
+		.array(usageCall)
+		.describe("Every model and embedding call, in order"),
+	promptTokens: z.number(),
+	completionTokens: z.number(),
+	totalTokens: z.number(),
+	costUsd: z.number().describe("Estimated cost of the priced calls in USD"),
+	unpricedCalls: z
+		.number()
+		.describe("Calls to models missing from the price table"),
+});
+
+export type UsageCall = z.infer<typeof usageCall>;
+export type UsageLedger = z.infer<typeof usageLedger>;
+
+/**
+ * Prices a usage record
+ */
+export function priceUsage(
+	record: UsageRecord,
+	prices: PriceTable = priceTable,
+): UsageCall {
+	const call: UsageCall = {
+		source: record.source,
+		model: record.model,
+		promptTokens: record.promptTokens,
+		completionTokens: record.completionTokens,
+		totalTokens: record.totalTokens,
+	};
+	const costUsd = estimateCost(record.model, record, prices);
+	if (costUsd !== undefined) {
+		call.costUsd = costUsd;
+	}
+	return call;
+}
+
+/**
+ * Builds a ledger from priced calls, adding up their tokens and cost
+ */
+export function createLedger(calls: UsageCall[] = []): UsageLedger {
+	return {
+		calls,
+		promptTokens: calls.reduce((sum, call) => sum + call.promptTokens, 0),
+		completionTokens: calls.reduce(
+			(sum, call) => sum + call.completionTokens,
+			0,
+		),
+		totalTokens: calls.reduce((sum, call) => sum + call.totalTokens, 0),
+		costUsd: calls.reduce((sum, call) => sum + (call.costUsd ?? 0), 0),
+		unpricedCalls: calls.filter((call) => call.costUsd === undefined).length,
+	};
+}
+
+/**
+ * Combines ledgers into one, keeping their calls in order
+ */
+export function mergeLedgers(
+	...ledgers: (UsageLedger | undefined)[]
+): UsageLedger {
+	return createLedger(ledgers.flatMap((ledger) => ledger?.calls ?? []));
+}
+
+/**
+ * Renders a ledger's totals for logs
+ */
+export function formatLedger(ledger: UsageLedger): string {
+	return `${ledger.calls.length} call(s), ${ledger.totalTokens} tokens (${ledger.promptTokens} prompt, ${ledger.completionTokens} completion), ~$${ledger.costUsd.toFixed(4)}${ledger.unpricedCalls ? ` plus ${ledger.unpricedCalls} unpriced call(s)` : ""}`;
+}
+
+export interface ModelTotals {
+	calls: number;
+	promptTokens: number;
+	completionTokens: number;
+	totalTokens: number;
+	costUsd: number;
+}
+
+const totals = new Map<string, ModelTotals>();
+
+// Aggregate every call this process makes, across workflow runs
+onUsage((record) => {
+	const call = priceUsage(record);
+	const key = call.model ?? "unknown";
+	const current = totals.get(key) ?? {
+		calls: 0,
+		promptTokens: 0,
+		completionTokens: 0,
+		totalTokens: 0,
+		costUsd: 0,
+	};
+	totals.set(key, {
+		calls: current.calls + 1,
+		promptTokens: current.promptTokens + call.promptTokens,
+		completionTokens: current.completionTokens + call.completionTokens,
+		totalTokens: current.totalTokens + call.totalTokens,
+		costUsd: current.costUsd + (call.costUsd ?? 0),
+	});
+});
+
+/**
+ * Token usage and estimated cost per model of every call since the process started
+ */
+export function getUsageTotals(): Record<string, ModelTotals> {
+	return Object.fromEntries(totals);
+}
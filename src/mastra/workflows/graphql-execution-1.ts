@@ -4,77 +4,93 @@ import { z } from "zod";
 // import { embedInCollection } from "../path/to/embedding/tool";
 
 import { gqlExecutionAgent } from "../agents";
-import { analyzeQuery } from "../steps";
+import { renderDomainContext } from "../config/domain-profile";
+import { generateWithFixtures } from "../fixtures";
+import { createLogger, traceStep } from "../observability";
+import { analyzeQuery, getQueryAttempts, isQueryResolved } from "../steps";
+import { findRepeatedAttempt, formatAttemptHistory } from "../steps/attempts";
 import { sourceCode } from "../steps/generate-query";
-import { schemaOutput, sourceCodeOutput, typesOutput } from "../steps/types";
+import {
+	endpointIdInput,
+	maxCostUsdInput,
+	queryOutput,
+	schemaOutput,
+	sourceCodeOutput,
+	typesOutput,
+} from "../steps/types";
+import { withStepUsage } from "../steps/usage";
 import {
 	POSTGRES_URL,
+	describeOmissions,
 	dynamicGitcoinDocs,
-	graphqlQuery,
-	graphqlSourceTypes,
+	getEndpoint,
 } from "../tools";
 import { createVectorQueryTool } from "../tools/get-vector-context";
 
 // Infer the tool config type from the create function
 type VectorQueryToolConfig = Parameters<typeof createVectorQueryTool>[2];
 
+const log = createLogger("GraphQL Analysis 1");
+
 const generateQueryOutput = z.object({
 	query: z.string(),
 	variables: z.string(),
 });
 
-// Step to fetch GraphQL schema
+// Step to fetch the part of the GraphQL schema relevant to the prompt
 export const fetchSchemaDefinition = new Step({
 	id: "fetchSchemaDefinition",
 	outputSchema: typesOutput,
-	execute: async ({ context }) => {
-		const prompt = context?.getStepResult<{ prompt: string }>(
-			"trigger",
-		)?.prompt;
-
-		const result = await graphqlSourceTypes?.execute?.({
-			context: {
-				query: `Type definitions similar to: ${prompt}`,
-			},
-		});
+	execute: traceStep(
+		"fetchSchemaDefinition",
+		withStepUsage(async ({ context }) => {
+			const prompt = context?.getStepResult<{ prompt: string }>(
+				"trigger",
+			)?.prompt;
 
-		if (!result?.context) {
-			throw new Error("Failed to fetch GraphQL schema types");
-		}
+			if (!prompt) {
+				throw new Error("Prompt not found in fetchSchemaDefinition step");
+			}
 
-		return {
-			types: result.results.map((r) => r.metadata.content).join("\n"),
-		};
-	},
+			const slice = await getEndpoint(
+				context?.triggerData?.endpointId,
+			).sliceSchema(prompt);
+
+			if (!slice.sdl) {
+				throw new Error("Failed to fetch GraphQL schema types");
+			}
+
+			return {
+				types: slice.sdl,
+			};
+		}),
+	),
 });
 
 const generateQuery = new Step({
 	id: "generateQuery",
 	// Define the output structure for this step
 	outputSchema: generateQueryOutput,
-	execute: async ({ context }) => {
-		const referenceResult = context.getStepResult(fetchSchemaDefinition);
-		const sourceCodeResult = context.getStepResult(sourceCode);
-		// 		Also use the following source code context to help answer the question:
-		// ${sourceCodeResult.relevantSourceCode}
-		console.log(referenceResult.types, "referenceResult.types)");
-		const prompt = `
+	execute: traceStep(
+		"generateQuery",
+		withStepUsage(async ({ context }) => {
+			const referenceResult = context.getStepResult(fetchSchemaDefinition);
+			const sourceCodeResult = context.getStepResult(sourceCode);
+			// 		Also use the following source code context to help answer the question:
+			// ${sourceCodeResult.relevantSourceCode}
+			log.debug("Reference types", { types: referenceResult.types });
+			const prompt = `
 Your goal is to craft a GraphQL query that will help answer the following question:
 ${context.triggerData.prompt}
 
 Here is relevant documentation to help answer the question:
 ${sourceCodeResult.relevantSourceCode}
 
-Use the following typescript type definitions which represent the available query parameters to help answer the question:
+Use the following GraphQL schema definitions (SDL) which represent the available queries, filters and fields to help answer the question:
 ${referenceResult.types}
 
 
-Here is further context for the active GG23 rounds:
-- All rounds are currently active on Arbitrum network which has a chainId of 42161.
-- The dApps and Apps round has a roundId of 867
-- The Web3 Infrastructure round has a roundId of 865
-- The Developer Tooling and Libraries has a roundId of 863
-- Each round has a series projects that receive donations within a round
+${renderDomainContext(getEndpoint(context.triggerData.endpointId).profile)}
 
 
 IMPORTANT:
@@ -84,14 +100,17 @@ IMPORTANT:
 - Make sure to include the variables in the response.
 
 `;
-		const response = await gqlExecutionAgent.generate(prompt, {
-			output: generateQueryOutput,
-		});
-		if (!response.object) {
-			throw new Error("Failed to generate query from LLM");
-		}
-		return response.object;
-	},
+			const response = await generateWithFixtures(
+				gqlExecutionAgent,
+				prompt,
+				generateQueryOutput,
+			);
+			if (!response.object) {
+				throw new Error("Failed to generate query from LLM");
+			}
+			return response.object;
+		}),
+	),
 });
 
 /** Helper function to create and execute a vector query tool. */
@@ -117,99 +136,112 @@ async function executeQueryWithVectorTool(
 	return context;
 }
 
-const executeQuery = new Step({
-	id: "executeQuery",
-	outputSchema: z.object({
-		data: z.string(),
-		error: z.string().optional(),
-		success: z.boolean(),
-	}),
-	execute: async ({ context }) => {
-		const generateQueryResult = context.getStepResult(generateQuery);
-		const query = generateQueryResult.query;
-		const variables = generateQueryResult.variables;
-
-		const response = await graphqlQuery?.execute?.({
-			context: { query, variables },
-		});
-
-		if (!response) {
-			return {
-				data: "",
-				error: "No response from GraphQL query execution",
-				success: false,
-			};
-		}
+/**
+ * Executes a query and shapes the outcome like the other query steps
+ */
+async function runQuery(
+	endpointId: string | undefined,
+	query: string,
+	variables: string,
+	prompt: string,
+): Promise<z.infer<typeof queryOutput>> {
+	const response = await getEndpoint(endpointId).graphqlQuery?.execute?.({
+		context: { query, variables, prompt },
+	});
 
-		if (response?.success === false && response.errors) {
-			return {
-				data: "",
-				errors: JSON.stringify(response.errors),
-				success: false,
-			};
-		}
+	if (!response) {
+		return {
+			query,
+			variables,
+			explanation: "",
+			response: "",
+			errors: "No response from GraphQL query execution",
+			success: false,
+		};
+	}
 
+	if (response.success === false) {
 		return {
-			data: JSON.stringify(response.data),
-			success: true,
+			query,
+			variables,
+			explanation: "",
+			response: "",
+			errors: JSON.stringify(
+				response.validationErrors ??
+					response.errors ??
+					response.message ??
+					"GraphQL query failed",
+			),
+			errorCategory: response.errorCategory,
+			success: false,
 		};
-	},
+	}
+
+	return {
+		query,
+		variables,
+		explanation: "",
+		response: JSON.stringify(response.data),
+		truncation: response.truncation
+			? describeOmissions(response.truncation.omitted)
+			: undefined,
+		success: true,
+	};
+}
+
+const executeQuery = new Step({
+	id: "executeQuery",
+	outputSchema: queryOutput,
+	execute: traceStep(
+		"executeQuery",
+		withStepUsage(async ({ context }) => {
+			const { query, variables } = context.getStepResult(generateQuery);
+			return runQuery(
+				context.triggerData.endpointId,
+				query,
+				variables,
+				context.triggerData.prompt,
+			);
+		}),
+	),
 });
 
-/** A workflow to analyze a GraphQL endpoint, split its schema, and embed chunks. */
-export const graphqlAnalysis1 = new Workflow({
-	name: "graphqlAnalysis1",
-	// Define the expected input for this workflow
-	triggerSchema: z.object({
-		prompt: z
-			.string()
-			.describe(
-				"Prompt to generate a GraphQL query from the schema and source code context",
-			),
-	}),
-})
-	.step(fetchSchemaDefinition)
-	.then(sourceCode)
-	.then(generateQuery)
-	.then(executeQuery)
-	.after(executeQuery)
-	.step(analyzeQuery, {
-		when: {
-			"executeQuery.success": "true",
-		},
-	})
-	.step(
-		new Step({
-			id: "fixQuery",
-			outputSchema: generateQueryOutput,
-			execute: async ({ context }) => {
-				const generateQueryResult = context.getStepResult(generateQuery);
-				const query = generateQueryResult.query;
-				const variables = generateQueryResult.variables;
-				const errors = context.getStepResult(executeQuery).error;
-
-				const response = await gqlExecutionAgent.generate(
+// Fixes and re-executes the query, once per iteration of the retry loop
+const retryQuery = new Step({
+	id: "retryQuery",
+	outputSchema: queryOutput,
+	execute: traceStep(
+		"retryQuery",
+		withStepUsage(
+			async ({ context }) => {
+				const attempts = getQueryAttempts(context);
+				const previous = attempts[attempts.length - 1];
+
+				const response = await generateWithFixtures(
+					gqlExecutionAgent,
 					`
 	The following query is invalid and needs to be fixed:
-	${query}
+	${previous.query}
 	The variables are:
-	${variables}
+	${previous.variables}
 
 	When the query was executed it produced the following error(s):
-	${errors}
-
-	Here are the typescript type definitions which represent the available query parameters to help answer the question:
+	${previous.error}
+${
+	attempts.length > 1
+		? `
+	These earlier attempts also failed. Do not repeat any of them:
+	${formatAttemptHistory(attempts.slice(0, -1))}
+`
+		: ""
+}
+	Here are the GraphQL schema definitions (SDL) which represent the available queries, filters and fields to help answer the question:
 	${context.getStepResult(fetchSchemaDefinition).types}
 
 	Generate a new query that is valid and will not produce any errors.
 	Make sure to include the variables in the response.
 
-	Here is further context for the active GG23 rounds:
-	- All rounds are currently active on Arbitrum network which has a chainId of 42161.
-	- The dApps and Apps round has a roundId of 867
-	- The Web3 Infrastructure round has a roundId of 865
-	- The Developer Tooling and Libraries has a roundId of 863
-	- Each round has a series projects that receive donations within a round
+	${renderDomainContext(getEndpoint(context.triggerData.endpointId).profile)}
 
 	IMPORTANT:
 	- return variables as stringified JSON
@@ -217,19 +249,76 @@ export const graphqlAnalysis1 = new Workflow({
 	- Generate a new query that is valid and will not produce any errors.
 	- Make sure to include the variables in the response.
 	`,
-					{
-						output: generateQueryOutput,
-					},
+					generateQueryOutput,
 				);
-				return response.object;
+				if (!response.object) {
+					throw new Error("Failed to generate query from LLM");
+				}
+				const { query, variables } = response.object;
+
+				const repeated = findRepeatedAttempt(attempts, query, variables);
+				const result = repeated
+					? {
+							query,
+							variables,
+							explanation: "",
+							response: "",
+							errors: `Identical to attempt ${repeated.attempt}, which already failed; not resubmitted`,
+							success: false,
+						}
+					: await runQuery(
+							context.triggerData.endpointId,
+							query,
+							variables,
+							context.triggerData.prompt,
+						);
+
+				return {
+					...result,
+					attempts: [
+						...attempts,
+						{
+							attempt: attempts.length + 1,
+							query,
+							variables,
+							success: result.success,
+							error: result.errors,
+							errorCategory: result.errorCategory,
+							rejected: !!repeated,
+						},
+					],
+				};
 			},
-		}),
-	)
-	.then(new Step({ ...executeQuery, id: "executeFixedQuery" }))
-	.step(analyzeQuery, {
-		when: {
-			"executeFixedQuery.success": "true",
-		},
-	})
+			{ accumulateFrom: "retryQuery" },
+		),
+	),
+});
 
+/** A workflow to analyze a GraphQL endpoint, split its schema, and embed chunks. */
+export const graphqlAnalysis1 = new Workflow({
+	name: "graphqlAnalysis1",
+	// Define the expected input for this workflow
+	triggerSchema: z.object({
+		prompt: z
+			.string()
+			.describe(
+				"Prompt to generate a GraphQL query from the schema and source code context",
+			),
+		endpointId: endpointIdInput,
+		maxAttempts: z
+			.number()
+			.int()
+			.nonnegative()
+			.optional()
+			.describe("Maximum number of fix attempts after the first query fails"),
+		maxCostUsd: maxCostUsdInput,
+	}),
+})
+	.step(fetchSchemaDefinition)
+	.then(sourceCode)
+	.then(generateQuery)
+	.then(executeQuery)
+	// Alternate fixing and executing until a query succeeds, attempts run out or the budget is spent
+	.until(isQueryResolved, retryQuery)
+	.then(analyzeQuery)
 	.commit();
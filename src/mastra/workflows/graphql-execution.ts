@@ -1,9 +1,18 @@
 import { Workflow } from "@mastra/core/workflows";
 import { z } from "zod";
-import { analyzeQuery, fixQuery, generateQuery } from "../steps";
-import { sourceCode } from "../steps/generate-query";
-import { fixQueryInputSchema } from "../steps/types";
-import { fetchSchemaDefinition } from "./graphql-execution-1";
+import {
+	analyzeQuery,
+	fixQuery,
+	generateQuery,
+	isQueryResolved,
+	retryQuery,
+} from "../steps";
+import { fetchSchemaDefinition, sourceCode } from "../steps/generate-query";
+import {
+	endpointIdInput,
+	fixQueryInputSchema,
+	maxCostUsdInput,
+} from "../steps/types";
 
 // Create a nested workflow to handle query execution
 const newQueryAnalysis = new Workflow({
@@ -11,17 +20,22 @@ const newQueryAnalysis = new Workflow({
 	// Define a specific schema for inputs to this nested workflow
 	triggerSchema: z.object({
 		prompt: z.string(),
+		endpointId: endpointIdInput,
+		maxAttempts: z
+			.number()
+			.int()
+			.nonnegative()
+			.optional()
+			.describe("Maximum number of fix attempts after the first query fails"),
+		maxCostUsd: maxCostUsdInput,
 	}),
 })
 	.step(fetchSchemaDefinition)
 	.then(sourceCode)
 	.then(generateQuery)
-	.after(generateQuery)
-	.step(analyzeQuery, {
-		when: {
-			"generateQuery.success": "true",
-		},
-	})
+	// Alternate fixing and executing until a query succeeds, attempts run out or the budget is spent
+	.until(isQueryResolved, retryQuery)
+	.then(analyzeQuery)
 	.commit();
 
 // Define the main workflow
@@ -32,12 +46,7 @@ const fixQueryAnalysis = new Workflow({
 	.step(fetchSchemaDefinition)
 	.then(sourceCode)
 	.then(fixQuery)
-	.after(fixQuery)
-	.step(analyzeQuery, {
-		when: {
-			"generateQuery.success": "true",
-		},
-	})
+	.then(analyzeQuery)
 	.commit();
 
 // Export both workflows
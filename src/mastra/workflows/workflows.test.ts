@@ -1,8 +1,307 @@
-import { beforeEach, describe, expect, it, vi } from "vitest";
-import { newQueryAnalysis } from "./index";
+import {
+	buildSchema,
+	getIntrospectionQuery,
+	introspectionFromSchema,
+} from "graphql";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { z } from "zod";
+import { getDomainProfile } from "../config/domain-profile";
+import {
+	type FixtureInteraction,
+	stopFixtures,
+	unusedFixtures,
+	useFixtures,
+} from "../fixtures";
+import type { analysisData } from "../steps/types";
+import { graphqlAnalysis1 } from "./graphql-execution-1";
+import { fixQueryAnalysis, newQueryAnalysis } from "./index";
 
-describe("newQueryAnalysis Workflow", () => {
-	it("should pass", () => {
-		expect(true).toBe(true);
+await vi.hoisted(async () => {
+	const fs = await import("node:fs");
+	const os = await import("node:os");
+	const path = await import("node:path");
+	// The tools refuse to load without a connection string; replay never connects
+	process.env.POSTGRES_URL = "postgres://fixtures@localhost:5432/fixtures";
+	process.env.GRAPHQL_CACHE = "off";
+	process.env.GRAPHQL_SCHEMA_CACHE_DIR = fs.mkdtempSync(
+		path.join(os.tmpdir(), "graphql-schemas-"),
+	);
+});
+
+const schema = buildSchema(`
+	type Query {
+		rounds(chainId: Int!, limit: Int): [Round!]!
+	}
+
+	type Round {
+		id: String!
+		chainId: Int!
+		roundMetadata: String
+	}
+`);
+
+const PROMPT = "Which rounds run on Arbitrum?";
+const VALID_QUERY =
+	"query Rounds($chainId: Int!) { rounds(chainId: $chainId, limit: 5) { id chainId } }";
+const INVALID_QUERY =
+	"query Rounds($chainId: Int!) { rounds(chainId: $chainId, limit: 5) { id name } }";
+const OTHER_INVALID_QUERY =
+	"query Rounds($chainId: Int!) { rounds(chainId: $chainId, limit: 5) { id title } }";
+const VARIABLES = JSON.stringify({ chainId: 42161 });
+
+const rounds = [{ id: "865", chainId: 42161 }];
+
+function httpResponse(body: unknown) {
+	return {
+		status: 200,
+		statusText: "OK",
+		headers: { "content-type": "application/json" },
+		body: JSON.stringify(body),
+	};
+}
+
+/**
+ * Interactions every run needs: the schema, and empty vector indexes
+ */
+function endpointInteractions(): FixtureInteraction[] {
+	return [
+		{
+			kind: "http",
+			request: {
+				url: getDomainProfile().endpoint.url,
+				body: { query: getIntrospectionQuery({ descriptions: true }) },
+			},
+			response: httpResponse({ data: introspectionFromSchema(schema) }),
+			repeat: true,
+		},
+		{
+			kind: "embedding",
+			request: {},
+			response: { embedding: [0] },
+			repeat: true,
+		},
+		{ kind: "vector-query", request: {}, response: [], repeat: true },
+		{ kind: "keyword-query", request: {}, response: [], repeat: true },
+		{ kind: "vector-upsert", request: {}, response: true, repeat: true },
+	];
+}
+
+function queryResponse(query: string): FixtureInteraction {
+	return {
+		kind: "http",
+		request: { url: getDomainProfile().endpoint.url, body: { query } },
+		response: httpResponse({ data: { rounds } }),
+	};
+}
+
+function generatedQuery(agent: string, query: string): FixtureInteraction {
+	return {
+		kind: "generation",
+		request: { agent, structured: true },
+		response: {
+			object: { query, variables: VARIABLES, explanation: "Lists rounds" },
+		},
+	};
+}
+
+const analysis: FixtureInteraction = {
+	kind: "generation",
+	request: { agent: "GraphQL Agent", structured: false },
+	response: { text: "Round 865 runs on Arbitrum.\nRelevance score: 8/10" },
+};
+
+/**
+ * Runs a workflow against the given interactions and returns its analysis
+ */
+async function replay(
+	interactions: FixtureInteraction[],
+	run: () => Promise<{
+		results: Record<string, { status: string; output?: unknown }>;
+	}>,
+) {
+	useFixtures(
+		{ interactions: [...endpointInteractions(), ...interactions] },
+		"replay",
+	);
+	const { results } = await run();
+	const step = results.analyzeQuery;
+	if (step?.status !== "success") {
+		throw new Error(`analyzeQuery did not run: ${JSON.stringify(results)}`);
+	}
+	expect(unusedFixtures()).toEqual([]);
+	return step.output as z.infer<typeof analysisData>;
+}
+
+afterEach(() => {
+	stopFixtures();
+});
+
+describe("newQueryAnalysis workflow", () => {
+	it("analyzes the results of a query that succeeds first time", async () => {
+		const output = await replay(
+			[
+				generatedQuery("GraphQL Agent", VALID_QUERY),
+				queryResponse(VALID_QUERY),
+				analysis,
+			],
+			() =>
+				newQueryAnalysis.createRun().start({ triggerData: { prompt: PROMPT } }),
+		);
+
+		expect(output).toMatchObject({ success: true, relevance: 8 });
+		expect(output.attempts).toHaveLength(1);
+	});
+
+	it("fixes a query that fails validation, then analyzes the results", async () => {
+		const output = await replay(
+			[
+				generatedQuery("GraphQL Agent", INVALID_QUERY),
+				generatedQuery("GraphQL Execution Agent", VALID_QUERY),
+				queryResponse(VALID_QUERY),
+				analysis,
+			],
+			() =>
+				newQueryAnalysis.createRun().start({ triggerData: { prompt: PROMPT } }),
+		);
+
+		expect(output).toMatchObject({ success: true, relevance: 8 });
+		expect(output.attempts?.map((attempt) => attempt.success)).toEqual([
+			false,
+			true,
+		]);
+	});
+
+	it("gives up once the fix attempts run out", async () => {
+		const output = await replay(
+			[
+				generatedQuery("GraphQL Agent", INVALID_QUERY),
+				generatedQuery("GraphQL Execution Agent", OTHER_INVALID_QUERY),
+			],
+			() =>
+				newQueryAnalysis
+					.createRun()
+					.start({ triggerData: { prompt: PROMPT, maxAttempts: 1 } }),
+		);
+
+		expect(output).toMatchObject({ success: false, relevance: 0 });
+		expect(output.analysis).toContain("No query succeeded after 2 attempt(s)");
+	});
+
+	it("stops fixing once the run has spent its budget", async () => {
+		const generated = generatedQuery("GraphQL Agent", INVALID_QUERY);
+		const output = await replay(
+			[
+				{
+					...generated,
+					response: {
+						...(generated.response as object),
+						model: "openai:o3-mini-2025-01-31",
+						usage: {
+							promptTokens: 1000,
+							completionTokens: 0,
+							totalTokens: 1000,
+						},
+					},
+				},
+			],
+			() =>
+				newQueryAnalysis
+					.createRun()
+					.start({ triggerData: { prompt: PROMPT, maxCostUsd: 0.001 } }),
+		);
+
+		expect(output).toMatchObject({ success: false, budgetExceeded: true });
+		expect(output.attempts).toHaveLength(1);
+		expect(output.usage).toMatchObject({
+			calls: [{ source: "GraphQL Agent", model: "openai:o3-mini-2025-01-31" }],
+			promptTokens: 1000,
+			unpricedCalls: 0,
+		});
+		expect(output.usage?.costUsd).toBeCloseTo(0.0011);
+	});
+});
+
+describe("fixQueryAnalysis workflow", () => {
+	const failedQuery = {
+		query: INVALID_QUERY,
+		variables: VARIABLES,
+		explanation: "Lists rounds",
+		error: 'Cannot query field "name" on type "Round".',
+	};
+
+	it("analyzes the results of the fixed query", async () => {
+		const output = await replay(
+			[
+				generatedQuery("GraphQL Execution Agent", VALID_QUERY),
+				queryResponse(VALID_QUERY),
+				analysis,
+			],
+			() =>
+				fixQueryAnalysis
+					.createRun()
+					.start({ triggerData: { prompt: PROMPT, failedQuery } }),
+		);
+
+		expect(output).toMatchObject({ success: true, relevance: 8 });
+	});
+
+	it("reports a fix that still fails", async () => {
+		const output = await replay(
+			[generatedQuery("GraphQL Execution Agent", OTHER_INVALID_QUERY)],
+			() =>
+				fixQueryAnalysis
+					.createRun()
+					.start({ triggerData: { prompt: PROMPT, failedQuery } }),
+		);
+
+		expect(output).toMatchObject({ success: false, relevance: 0 });
+	});
+});
+
+describe("graphqlAnalysis1 workflow", () => {
+	it("analyzes the results of a query that succeeds first time", async () => {
+		const output = await replay(
+			[
+				generatedQuery("GraphQL Execution Agent", VALID_QUERY),
+				queryResponse(VALID_QUERY),
+				analysis,
+			],
+			() =>
+				graphqlAnalysis1.createRun().start({ triggerData: { prompt: PROMPT } }),
+		);
+
+		expect(output).toMatchObject({ success: true, relevance: 8 });
+	});
+
+	it("fixes a query that fails validation, then analyzes the results", async () => {
+		const output = await replay(
+			[
+				generatedQuery("GraphQL Execution Agent", INVALID_QUERY),
+				generatedQuery("GraphQL Execution Agent", VALID_QUERY),
+				queryResponse(VALID_QUERY),
+				analysis,
+			],
+			() =>
+				graphqlAnalysis1.createRun().start({ triggerData: { prompt: PROMPT } }),
+		);
+
+		expect(output).toMatchObject({ success: true, relevance: 8 });
+		expect(output.attempts).toHaveLength(2);
+	});
+
+	it("gives up once the fix attempts run out", async () => {
+		const output = await replay(
+			[
+				generatedQuery("GraphQL Execution Agent", INVALID_QUERY),
+				generatedQuery("GraphQL Execution Agent", OTHER_INVALID_QUERY),
+			],
+			() =>
+				graphqlAnalysis1
+					.createRun()
+					.start({ triggerData: { prompt: PROMPT, maxAttempts: 1 } }),
+		);
+
+		expect(output).toMatchObject({ success: false, relevance: 0 });
+		expect(output.analysis).toContain("No query succeeded after 2 attempt(s)");
 	});
 });
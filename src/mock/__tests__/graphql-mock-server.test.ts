@@ -0,0 +1,171 @@
+import { buildSchema } from "graphql";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { createGraphQLQueryTool } from "../../mastra/tools/query-graphql";
+import {
+	type MockGraphQLServer,
+	createMockExecutor,
+	startMockGraphQLServer,
+} from "../graphql-mock-server";
+
+await vi.hoisted(async () => {
+	const fs = await import("node:fs");
+	const os = await import("node:os");
+	const path = await import("node:path");
+	process.env.GRAPHQL_SCHEMA_CACHE_DIR = fs.mkdtempSync(
+		path.join(os.tmpdir(), "graphql-schemas-"),
+	);
+});
+
+const schema = buildSchema(`
+	scalar numeric
+
+	enum order_by {
+		asc
+		desc
+	}
+
+	input Int_comparison_exp {
+		_eq: Int
+		_in: [Int!]
+	}
+
+	input numeric_comparison_exp {
+		_gte: numeric
+	}
+
+	input Round_bool_exp {
+		chainId: Int_comparison_exp
+		totalAmountDonatedInUsd: numeric_comparison_exp
+	}
+
+	input Round_order_by {
+		totalAmountDonatedInUsd: order_by
+	}
+
+	type Query {
+		rounds(
+			where: Round_bool_exp
+			order_by: [Round_order_by!]
+			limit: Int
+			offset: Int
+		): [Round!]!
+		round(id: String!): Round
+	}
+
+	type Round {
+		id: String!
+		chainId: Int!
+		name: String!
+		totalAmountDonatedInUsd: numeric!
+		applications(limit: Int): [Application!]!
+	}
+
+	type Application {
+		id: String!
+		projectAddress: String!
+		round: Round!
+	}
+`);
+
+type Round = {
+	id: string;
+	chainId: number;
+	name: string;
+	totalAmountDonatedInUsd: number;
+};
+
+async function queryRounds(
+	execute: ReturnType<typeof createMockExecutor>,
+	args = "",
+): Promise<Round[]> {
+	const result = await execute(
+		`{ rounds${args} { id chainId name totalAmountDonatedInUsd } }`,
+	);
+	expect(result.errors).toBeUndefined();
+	return (result.data as { rounds: Round[] }).rounds;
+}
+
+describe("createMockExecutor", () => {
+	it("generates the same data for the same seed", async () => {
+		const rounds = await queryRounds(createMockExecutor(schema, { seed: 7 }));
+
+		expect(rounds).toHaveLength(20);
+		expect(rounds[0]).toMatchObject({ id: "1", name: "Round 1" });
+		expect(await queryRounds(createMockExecutor(schema, { seed: 7 }))).toEqual(
+			rounds,
+		);
+		expect(
+			await queryRounds(createMockExecutor(schema, { seed: 8 })),
+		).not.toEqual(rounds);
+	});
+
+	it("supports Hasura-style where, order_by, limit and offset", async () => {
+		const execute = createMockExecutor(schema);
+		const all = await queryRounds(execute);
+		const expected = all
+			.filter(
+				(round) =>
+					round.chainId === 42161 && round.totalAmountDonatedInUsd >= 1000,
+			)
+			.sort((a, b) => b.totalAmountDonatedInUsd - a.totalAmountDonatedInUsd)
+			.slice(1, 3);
+
+		const rounds = await queryRounds(
+			execute,
+			`(where: { chainId: { _eq: 42161 }, totalAmountDonatedInUsd: { _gte: "1000" } }, order_by: [{ totalAmountDonatedInUsd: desc }], offset: 1, limit: 2)`,
+		);
+
+		expect(expected).toHaveLength(2);
+		expect(rounds).toEqual(expected);
+	});
+
+	it("looks up single objects by their arguments and resolves relations", async () => {
+		const execute = createMockExecutor(schema);
+		const result = await execute(
+			`{ round(id: "3") { id applications(limit: 2) { projectAddress round { id } } } }`,
+		);
+
+		const round = (
+			result.data as {
+				round: {
+					id: string;
+					applications: { projectAddress: string; round: { id: string } }[];
+				};
+			}
+		).round;
+		expect(round.id).toBe("3");
+		expect(round.applications).toHaveLength(2);
+		for (const application of round.applications) {
+			expect(application.projectAddress).toMatch(/^0x[0-9a-f]{40}$/);
+		}
+	});
+});
+
+describe("startMockGraphQLServer", () => {
+	let server: MockGraphQLServer;
+
+	beforeAll(async () => {
+		server = await startMockGraphQLServer(schema, { port: 0 });
+	});
+
+	afterAll(async () => {
+		await server.close();
+	});
+
+	it("serves the query tool, including schema validation", async () => {
+		const tool = createGraphQLQueryTool(server.url);
+
+		const result = await tool.execute?.({
+			context: {
+				query:
+					"query Rounds($chainId: Int!) { rounds(where: { chainId: { _eq: $chainId } }, limit: 5) { id chainId } }",
+				variables: JSON.stringify({ chainId: 42161 }),
+			},
+		} as Parameters<NonNullable<typeof tool.execute>>[0]);
+
+		expect(result?.success).toBe(true);
+		const rounds = (result?.data as { rounds: Round[] }).rounds;
+		expect(rounds.length).toBeGreaterThan(0);
+		expect(rounds.every((round) => round.chainId === 42161)).toBe(true);
+	});
+});
@@ -0,0 +1,551 @@
+import * as fs from "node:fs";
+import * as http from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+	type ExecutionResult,
+	type GraphQLField,
+	type GraphQLFieldResolver,
+	type GraphQLLeafType,
+	type GraphQLObjectType,
+	type GraphQLSchema,
+	type GraphQLTypeResolver,
+	type IntrospectionQuery,
+	buildClientSchema,
+	buildSchema,
+	getNamedType,
+	getNullableType,
+	graphql,
+	isAbstractType,
+	isEnumType,
+	isLeafType,
+	isListType,
+	isObjectType,
+} from "graphql";
+
+/**
+ * Options controlling the generated data
+ */
+export interface MockDataOptions {
+	/** Seed for the generated values; equal seeds produce equal data */
+	seed?: number;
+	/** Number of rows generated per object type */
+	listSize?: number;
+}
+
+/**
+ * A generated object: its leaf fields plus the keys used to derive related objects
+ */
+type MockRow = Record<string, unknown> & {
+	__typename: string;
+	__index: number;
+};
+
+export type MockExecutor = (
+	query: string,
+	variables?: Record<string, unknown>,
+	operationName?: string,
+) => Promise<ExecutionResult>;
+
+// Arguments with Hasura semantics; any other argument naming a leaf field filters by equality
+const PAGINATION_ARGUMENTS = new Set(["where", "limit", "offset", "order_by"]);
+
+const CHAIN_IDS = [1, 10, 137, 42161];
+const EPOCH = Date.parse("2024-01-01T00:00:00Z");
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+/**
+ * FNV-1a, used to derive an independent random stream for every generated value
+ */
+function hashString(value: string): number {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < value.length; i++) {
+		hash ^= value.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return hash >>> 0;
+}
+
+/**
+ * mulberry32 PRNG
+ */
+function createRandom(seed: number): () => number {
+	let state = seed;
+	return () => {
+		state = (state + 0x6d2b79f5) | 0;
+		let t = Math.imul(state ^ (state >>> 15), 1 | state);
+		t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+}
+
+function randomHex(random: () => number, length: number): string {
+	let hex = "0x";
+	for (let i = 0; i < length; i++) {
+		hex += Math.floor(random() * 16).toString(16);
+	}
+	return hex;
+}
+
+function randomDate(random: () => number): string {
+	return new Date(EPOCH + Math.floor(random() * YEAR_MS)).toISOString();
+}
+
+/**
+ * Generates a plausible value for a leaf field, guided by the field and scalar names
+ */
+function mockLeafValue(
+	type: GraphQLLeafType,
+	field: string,
+	typeName: string,
+	index: number,
+	random: () => number,
+): unknown {
+	if (isEnumType(type)) {
+		const values = type.getValues();
+		return values[Math.floor(random() * values.length)]?.value;
+	}
+
+	const name = field.toLowerCase();
+	switch (type.name) {
+		case "Int":
+			if (name === "id") {
+				return index + 1;
+			}
+			if (name === "chainid") {
+				return CHAIN_IDS[Math.floor(random() * CHAIN_IDS.length)];
+			}
+			return Math.floor(random() * 1000);
+		case "Float":
+			return Math.round(random() * 1000000) / 100;
+		case "Boolean":
+			return random() < 0.5;
+		case "ID":
+		case "String":
+			break;
+		default: {
+			// Custom scalars, e.g. Hasura's numeric, bigint, timestamptz and jsonb
+			const scalar = type.name.toLowerCase();
+			if (/int|numeric|float|decimal|bigfloat/.test(scalar)) {
+				return name === "chainid"
+					? CHAIN_IDS[Math.floor(random() * CHAIN_IDS.length)]
+					: Math.round(random() * 1000000) / 100;
+			}
+			if (/bool/.test(scalar)) {
+				return random() < 0.5;
+			}
+			if (/json/.test(scalar)) {
+				return { name: `${typeName} ${index + 1}` };
+			}
+			if (/time|date/.test(scalar)) {
+				return randomDate(random);
+			}
+		}
+	}
+
+	if (name === "id") {
+		return String(index + 1);
+	}
+	if (name.includes("address")) {
+		return randomHex(random, 40);
+	}
+	if (name.includes("hash")) {
+		return randomHex(random, 64);
+	}
+	if (name.endsWith("at") || name.includes("time") || name.includes("date")) {
+		return randomDate(random);
+	}
+	if (name.includes("url")) {
+		return `https://example.com/${typeName.toLowerCase()}/${index + 1}`;
+	}
+	if (name === "name" || name === "title") {
+		return `${typeName} ${index + 1}`;
+	}
+	return `${field}-${index + 1}`;
+}
+
+function isNumeric(value: unknown): boolean {
+	return (
+		typeof value === "number" ||
+		(typeof value === "string" &&
+			value.trim() !== "" &&
+			!Number.isNaN(Number(value)))
+	);
+}
+
+/**
+ * Compares numbers and numeric strings by value, everything else as strings
+ */
+function compareValues(a: unknown, b: unknown): number {
+	if (isNumeric(a) && isNumeric(b)) {
+		return Number(a) - Number(b);
+	}
+	return String(a).localeCompare(String(b));
+}
+
+function likeToRegExp(pattern: string, flags: string): RegExp {
+	const source = pattern
+		.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+		.replace(/%/g, ".*")
+		.replace(/_/g, ".");
+	return new RegExp(`^${source}$`, flags);
+}
+
+/**
+ * Evaluates one Hasura comparison expression, e.g. `{ _gte: 10, _lt: 20 }`
+ */
+function matchesComparison(
+	value: unknown,
+	comparison: Record<string, unknown>,
+): boolean {
+	return Object.entries(comparison).every(([operator, operand]) => {
+		switch (operator) {
+			case "_eq":
+				return compareValues(value, operand) === 0;
+			case "_neq":
+				return compareValues(value, operand) !== 0;
+			case "_gt":
+				return compareValues(value, operand) > 0;
+			case "_gte":
+				return compareValues(value, operand) >= 0;
+			case "_lt":
+				return compareValues(value, operand) < 0;
+			case "_lte":
+				return compareValues(value, operand) <= 0;
+			case "_in":
+				return (
+					Array.isArray(operand) &&
+					operand.some((item) => compareValues(value, item) === 0)
+				);
+			case "_nin":
+				return (
+					Array.isArray(operand) &&
+					!operand.some((item) => compareValues(value, item) === 0)
+				);
+			case "_like":
+				return likeToRegExp(String(operand), "").test(String(value));
+			case "_nlike":
+				return !likeToRegExp(String(operand), "").test(String(value));
+			case "_ilike":
+				return likeToRegExp(String(operand), "i").test(String(value));
+			case "_nilike":
+				return !likeToRegExp(String(operand), "i").test(String(value));
+			case "_is_null":
+				return (value === null || value === undefined) === operand;
+			default:
+				// Unsupported operators don't filter
+				return true;
+		}
+	});
+}
+
+/**
+ * Evaluates a Hasura boolean expression against a row. Conditions on related
+ * objects aren't evaluated, since related rows are derived rather than stored.
+ */
+function matchesWhere(row: MockRow, where: Record<string, unknown>): boolean {
+	return Object.entries(where).every(([key, condition]) => {
+		if (condition === undefined || condition === null) {
+			return true;
+		}
+		if (key === "_and") {
+			return (condition as Record<string, unknown>[]).every((item) =>
+				matchesWhere(row, item),
+			);
+		}
+		if (key === "_or") {
+			return (condition as Record<string, unknown>[]).some((item) =>
+				matchesWhere(row, item),
+			);
+		}
+		if (key === "_not") {
+			return !matchesWhere(row, condition as Record<string, unknown>);
+		}
+		if (!(key in row)) {
+			return true;
+		}
+		return matchesComparison(row[key], condition as Record<string, unknown>);
+	});
+}
+
+/**
+ * Sorts rows by a Hasura order_by argument, a single object or a list of them
+ */
+function orderRows(rows: MockRow[], orderBy: unknown): MockRow[] {
+	const orderings = (Array.isArray(orderBy) ? orderBy : [orderBy]).flatMap(
+		(item) => Object.entries((item ?? {}) as Record<string, unknown>),
+	);
+	if (orderings.length === 0) {
+		return rows;
+	}
+
+	return [...rows].sort((a, b) => {
+		for (const [field, direction] of orderings) {
+			if (typeof direction !== "string" || !(field in a)) {
+				continue;
+			}
+			const order = compareValues(a[field], b[field]);
+			if (order !== 0) {
+				return direction.startsWith("desc") ? -order : order;
+			}
+		}
+		return 0;
+	});
+}
+
+/**
+ * Applies equality arguments, then where, order_by, offset and limit
+ */
+function applyArguments(
+	rows: MockRow[],
+	args: Record<string, unknown>,
+): MockRow[] {
+	let result = rows.filter((row) =>
+		Object.entries(args).every(
+			([name, value]) =>
+				PAGINATION_ARGUMENTS.has(name) ||
+				!(name in row) ||
+				value === undefined ||
+				compareValues(row[name], value) === 0,
+		),
+	);
+	if (args.where) {
+		result = result.filter((row) =>
+			matchesWhere(row, args.where as Record<string, unknown>),
+		);
+	}
+	if (args.order_by) {
+		result = orderRows(result, args.order_by);
+	}
+	const offset = Number(args.offset ?? 0);
+	const limit = args.limit === undefined ? undefined : Number(args.limit);
+	return result.slice(
+		offset,
+		limit === undefined ? undefined : offset + Math.max(0, limit),
+	);
+}
+
+/**
+ * Creates an in-process executor that answers queries against a schema with
+ * deterministic mock data. Every object type gets listSize rows; list fields
+ * support Hasura-style where, limit, offset and order_by arguments, and nested
+ * fields return a stable subset of the related type's rows.
+ *
+ * @param schema Schema to serve, e.g. from readSchemaFile
+ * @param options Seed and rows per type
+ */
+export function createMockExecutor(
+	schema: GraphQLSchema,
+	options: MockDataOptions = {},
+): MockExecutor {
+	const seed = options.seed ?? 1;
+	const listSize = options.listSize ?? 20;
+	const tables = new Map<string, MockRow[]>();
+
+	const random = (...keys: Array<string | number>) =>
+		createRandom(hashString(`${seed}:${keys.join(":")}`));
+
+	const getTable = (type: GraphQLObjectType): MockRow[] => {
+		let rows = tables.get(type.name);
+		if (!rows) {
+			rows = Array.from({ length: listSize }, (_, index) => {
+				const row: MockRow = { __typename: type.name, __index: index };
+				for (const field of Object.values(type.getFields())) {
+					const fieldType = getNamedType(field.type);
+					if (
+						isLeafType(fieldType) &&
+						!isListType(getNullableType(field.type))
+					) {
+						row[field.name] = mockLeafValue(
+							fieldType,
+							field.name,
+							type.name,
+							index,
+							random(type.name, index, field.name),
+						);
+					}
+				}
+				return row;
+			});
+			tables.set(type.name, rows);
+		}
+		return rows;
+	};
+
+	const concreteType = (
+		field: GraphQLField<unknown, unknown>,
+	): GraphQLObjectType | undefined => {
+		const type = getNamedType(field.type);
+		if (isObjectType(type)) {
+			return type;
+		}
+		return isAbstractType(type) ? schema.getPossibleTypes(type)[0] : undefined;
+	};
+
+	const fieldResolver: GraphQLFieldResolver<MockRow | undefined, unknown> = (
+		source,
+		args: Record<string, unknown>,
+		_context,
+		info,
+	) => {
+		const field = info.parentType.getFields()[info.fieldName];
+		const namedType = getNamedType(info.returnType);
+		const isList = isListType(getNullableType(info.returnType));
+		const parentKey = source
+			? `${source.__typename}:${source.__index}`
+			: info.parentType.name;
+
+		if (isLeafType(namedType)) {
+			if (source && info.fieldName in source) {
+				return source[info.fieldName];
+			}
+			const next = random(parentKey, info.fieldName);
+			const value = () =>
+				mockLeafValue(namedType, info.fieldName, info.parentType.name, 0, next);
+			return isList ? Array.from({ length: 3 }, value) : value();
+		}
+
+		const objectType = field ? concreteType(field) : undefined;
+		if (!objectType) {
+			return null;
+		}
+		let rows = getTable(objectType);
+
+		// Related rows are a stable subset of the table, chosen per parent
+		if (source) {
+			rows = rows.filter(
+				(row) =>
+					hashString(`${seed}:${parentKey}:${info.fieldName}:${row.__index}`) %
+						3 ===
+					0,
+			);
+		}
+
+		if (isList) {
+			return applyArguments(rows, args);
+		}
+
+		// Single objects are looked up by their arguments, e.g. round(id: "1")
+		const hasLookup = Object.keys(args).some((name) => name in (rows[0] ?? {}));
+		if (hasLookup) {
+			return applyArguments(getTable(objectType), args)[0] ?? null;
+		}
+		const all = getTable(objectType);
+		return (
+			all[hashString(`${seed}:${parentKey}:${info.fieldName}`) % all.length] ??
+			null
+		);
+	};
+
+	const typeResolver: GraphQLTypeResolver<MockRow, unknown> = (value) =>
+		value.__typename;
+
+	return (query, variables, operationName) =>
+		graphql({
+			schema,
+			source: query,
+			variableValues: variables,
+			operationName,
+			fieldResolver,
+			typeResolver,
+		});
+}
+
+/**
+ * Reads a schema from a schema cache entry, a raw introspection result or an SDL file
+ *
+ * @param file Path to a .json introspection file or a .graphql SDL file
+ */
+export function readSchemaFile(file: string): GraphQLSchema {
+	const content = fs.readFileSync(file, "utf-8");
+	if (!file.endsWith(".json")) {
+		return buildSchema(content);
+	}
+
+	const json = JSON.parse(content);
+	// Accept a schema cache entry, a { data: { __schema } } response or a bare result
+	const introspection: IntrospectionQuery | undefined =
+		json.introspection ?? json.data ?? (json.__schema ? json : undefined);
+	if (!introspection?.__schema) {
+		throw new Error(`No introspection result found in ${file}`);
+	}
+	return buildClientSchema(introspection);
+}
+
+/**
+ * A running mock server
+ */
+export interface MockGraphQLServer {
+	url: string;
+	close(): Promise<void>;
+}
+
+/**
+ * Serves mock data for a schema over HTTP, so the query and introspection
+ * tools can be pointed at it. Port 0 picks a free port, for tests.
+ *
+ * @param schema Schema to serve
+ * @param options Port, host and mock data options
+ */
+export async function startMockGraphQLServer(
+	schema: GraphQLSchema,
+	options: MockDataOptions & { port?: number; host?: string } = {},
+): Promise<MockGraphQLServer> {
+	const { port = 4000, host = "127.0.0.1", ...dataOptions } = options;
+	const execute = createMockExecutor(schema, dataOptions);
+
+	const server = http.createServer(async (req, res) => {
+		const send = (status: number, body: unknown) => {
+			res.writeHead(status, { "Content-Type": "application/json" });
+			res.end(JSON.stringify(body));
+		};
+
+		if (req.method !== "POST") {
+			send(405, { errors: [{ message: "Only POST requests are supported" }] });
+			return;
+		}
+
+		let body = "";
+		for await (const chunk of req) {
+			body += chunk;
+		}
+
+		let request: {
+			query?: string;
+			variables?: Record<string, unknown>;
+			operationName?: string;
+		};
+		try {
+			request = JSON.parse(body);
+		} catch {
+			send(400, { errors: [{ message: "Request body is not valid JSON" }] });
+			return;
+		}
+		if (typeof request.query !== "string") {
+			send(400, { errors: [{ message: "Request has no query" }] });
+			return;
+		}
+
+		send(
+			200,
+			await execute(
+				request.query,
+				request.variables ?? undefined,
+				request.operationName ?? undefined,
+			),
+		);
+	});
+
+	await new Promise<void>((resolve, reject) => {
+		server.once("error", reject);
+		server.listen(port, host, resolve);
+	});
+	const address = server.address() as AddressInfo;
+
+	return {
+		url: `http://${host}:${address.port}/graphql`,
+		close: () =>
+			new Promise<void>((resolve, reject) =>
+				server.close((error) => (error ? reject(error) : resolve())),
+			),
+	};
+}
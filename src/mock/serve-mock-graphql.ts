@@ -0,0 +1,57 @@
+import { buildClientSchema } from "graphql";
+import { getDomainProfile } from "../mastra/config/domain-profile";
+import { createLogger } from "../mastra/observability";
+import { readCachedSchema } from "../mastra/tools/schema-cache";
+import { readSchemaFile, startMockGraphQLServer } from "./graphql-mock-server";
+
+const log = createLogger("Mock GraphQL Server");
+
+function getArgument(name: string): string | undefined {
+	return process.argv
+		.find((arg) => arg.startsWith(`--${name}=`))
+		?.split("=")
+		.slice(1)
+		.join("=");
+}
+
+/**
+ * Serves mock data for a saved schema. The schema comes from --schema (an
+ * introspection JSON or SDL file), or else from the schema cache of the
+ * endpoint named by --endpoint (the default endpoint if omitted). The cache is
+ * read whatever its age and never refreshed, so the server runs offline.
+ *
+ * Usage: pnpm mock-graphql [--schema=file] [--endpoint=id] [--port=4000] [--seed=1] [--list-size=20]
+ */
+async function main() {
+	const schemaFile = getArgument("schema");
+	let schema: ReturnType<typeof readSchemaFile>;
+	if (schemaFile) {
+		schema = readSchemaFile(schemaFile);
+	} else {
+		const { endpoint } = getDomainProfile(getArgument("endpoint"));
+		const cached = await readCachedSchema(endpoint.url);
+		if (!cached) {
+			log.error(
+				`No cached schema for ${endpoint.url}. Pass --schema=file, or run the agent once against the real endpoint to cache its schema.`,
+			);
+			process.exit(1);
+		}
+		schema = buildClientSchema(cached.introspection);
+	}
+
+	const server = await startMockGraphQLServer(schema, {
+		port: Number(getArgument("port") ?? 4000),
+		seed: Number(getArgument("seed") ?? 1),
+		listSize: Number(getArgument("list-size") ?? 20),
+	});
+
+	log.info(`Serving mock data at ${server.url}`);
+	log.info(
+		`Point the Gitcoin indexer endpoint at it with GITCOIN_INDEXER_API_URL=${server.url}`,
+	);
+}
+
+main().catch((error) => {
+	log.error("Unhandled error in main", { error });
+	process.exit(1);
+});
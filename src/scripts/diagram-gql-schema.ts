@@ -7,19 +7,19 @@ interface TypeReference {
 interface SchemaField {
 	name: string;
 	type: TypeReference;
-	description?: string;
+	description?: string | null;
 }
 
 interface SchemaType {
 	kind: string;
 	name: string;
-	description?: string;
-	fields?: SchemaField[];
-	inputFields?: SchemaField[];
+	description?: string | null;
+	fields?: readonly SchemaField[];
+	inputFields?: readonly SchemaField[];
 }
 
 interface SchemaData {
-	types: SchemaType[];
+	types: readonly SchemaType[];
 }
 
 // Function to get the actual type name, handling NON_NULL and LIST wrappers